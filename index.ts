@@ -1,13 +1,46 @@
 #!/usr/bin/env bun
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { parseArgs } from "node:util";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  type CallToolRequest,
+  type ServerNotification,
+  type ServerRequest,
+  type Tool,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import tools from "./tools";
-import type { ModuleMap, LoadModuleFunction } from "./src/types"; // Updated path
+import { createTools, soleOperation } from "./tools";
+import type { AutomationBackend, LoadModuleFunction, ToolResult } from "./src/types"; // Updated path
+import { createBackendFromEnv, createDryRunBackend, createScheduledBackend } from "./src/backends";
+import { createModuleLoader } from "./src/moduleLoader";
+import { RESOURCE_TEMPLATES, listResources, readResource } from "./src/resources";
+import { PROMPTS, getPrompt } from "./src/prompts";
+import { isLoopbackHost, startHttpServer } from "./src/httpTransport";
+import { confirmOutbound, createPendingActions, type ConfirmationContext, type OutboundArgs } from "./src/confirmation";
+import { createAuditLog, sanitizeArgs, summarizeResult } from "./src/auditLog";
+import { createMetrics } from "./src/metrics";
+import { dryRunResult } from "./src/dryRun";
+import { getTimeoutMs, runWithDeadline } from "./src/execution";
+import { createProgressReporter } from "./src/progress";
+import { createScheduler } from "./src/scheduler";
+import { SERVER_VERSION } from "./src/version";
+import { InvalidInputError, PermissionDeniedError, errorResult } from "./src/errors";
+import { createResponseCache, type CacheAccess } from "./src/cache";
+import { applyFormat } from "./src/format";
+import { MaxOutputCharsArgSchema, fitOutput } from "./src/outputBudget";
+import { CLI_USAGE, isCliCommand, runCli } from "./src/cli";
+import { loadPlugins, runPlugin, type PluginRegistry } from "./src/plugins";
+import { LOG_LEVELS, LogLevelSchema, addLogSink, createFileSink, createLogger, createStderrSink, serializeDetails, withLogScope } from "./src/logger";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { TOOL_NAMES, isOperationEnabled, isToolEnabled, getConfigPath, loadConfig, type Config } from "./src/config";
 
 // Import handlers and schemas
 import { handleContacts, ContactsArgsSchema } from "./src/handlers/contactsHandler";
@@ -18,188 +51,425 @@ import { handleReminders, RemindersArgsSchema } from "./src/handlers/remindersHa
 import { handleWebSearch, WebSearchArgsSchema } from "./src/handlers/webSearchHandler";
 import { handleCalendar, CalendarArgsSchema } from "./src/handlers/calendarHandler";
 import { handleMaps, MapsArgsSchema } from "./src/handlers/mapsHandler";
+import { handleAudit, AuditArgsSchema } from "./src/handlers/auditHandler";
+import { handleMetrics, MetricsArgsSchema } from "./src/handlers/metricsHandler";
+import { handleDiagnostics, DiagnosticsArgsSchema } from "./src/handlers/diagnosticsHandler";
 
 
 // Module loading is now always lazy
 let safeModeFallback = true; // Keep this for console message consistency, or remove if message is updated
 
-console.error("Starting apple-mcp server (lazy loading mode)...");
-
-// Placeholders for modules - will either be loaded eagerly or lazily
-let contacts: typeof import('./utils/contacts').default | null = null;
-let notes: typeof import('./utils/notes').default | null = null;
-let message: typeof import('./utils/message').default | null = null;
-let mail: typeof import('./utils/mail').default | null = null;
-let reminders: typeof import('./utils/reminders').default | null = null;
-let webSearch: typeof import('./utils/webSearch').default | null = null;
-let calendar: typeof import('./utils/calendar').default | null = null;
-let maps: ModuleMap['maps'] | null = null; // Use imported ModuleMap
-
-// Helper function for lazy module loading (Type already imported)
-// Add the generic type parameter back here
-const loadModule: LoadModuleFunction = async <T extends keyof ModuleMap>(moduleName: T): Promise<ModuleMap[T]> => {
-   // Always lazy load now
-   console.error(`Loading ${moduleName} module on demand...`);
-  
-  try {
-    switch (moduleName) {
-      case 'contacts':
-        if (!contacts) contacts = (await import('./utils/contacts')).default;
-        return contacts as ModuleMap[T];
-      case 'notes':
-        if (!notes) notes = (await import('./utils/notes')).default;
-        return notes as ModuleMap[T];
-      case 'message':
-        if (!message) message = (await import('./utils/message')).default;
-        return message as ModuleMap[T];
-      case 'mail':
-        if (!mail) mail = (await import('./utils/mail')).default;
-        return mail as ModuleMap[T];
-      case 'reminders':
-        if (!reminders) reminders = (await import('./utils/reminders')).default;
-        return reminders as ModuleMap[T];
-      case 'webSearch':
-        if (!webSearch) webSearch = (await import('./utils/webSearch')).default;
-        return webSearch as ModuleMap[T];
-      case 'calendar':
-        if (!calendar) calendar = (await import('./utils/calendar')).default;
-        return calendar as ModuleMap[T];
-      case 'maps':
-        if (!maps) maps = (await import('./utils/maps')).default;
-        return maps as ModuleMap[T];
-      default:
-        throw new Error(`Unknown module: ${moduleName}`);
-    }
-  } catch (e) {
-    console.error(`Error loading module ${moduleName}:`, e);
-    throw e;
+// Command line options: stdio by default, or `--transport http --port N` to serve several clients.
+// A command (`call`, `tools`, `doctor`) runs once against an in-process server instead; see src/cli.ts.
+const { values: cliOptions, positionals: [command, ...commandArgs] } = parseArgs({
+  options: {
+    transport: { type: "string", default: "stdio" },
+    port: { type: "string", default: "3000" },
+    host: { type: "string", default: "127.0.0.1" },
+    token: { type: "string" },
+    "read-only": { type: "boolean" },
+    op: { type: "string" },
+    json: { type: "string" },
+    yes: { type: "boolean" },
+    "log-level": { type: "string" },
+  },
+  allowPositionals: true,
+});
+
+const log = createLogger("server");
+
+// Logs go to stderr from the start; CLI commands only show warnings so their own output stands out
+const stderrSink = createStderrSink(command === undefined ? "info" : "warning");
+addLogSink(stderrSink);
+
+log.info("Starting apple-mcp server (lazy loading mode)...");
+
+// Load the config file and the plugins it points at; a broken config or plugin should stop the server rather than be half-applied
+let config: Config;
+let plugins: PluginRegistry;
+let tools: Tool[];
+try {
+  config = loadConfig();
+  if (cliOptions["read-only"]) {
+    config = { ...config, readOnly: true };
+  }
+  const logLevel = LogLevelSchema.safeParse(cliOptions["log-level"] ?? (command === undefined ? config.logging.level : "warning"));
+  if (!logLevel.success) {
+    throw new Error(`Invalid --log-level "${cliOptions["log-level"]}". Use one of: ${LOG_LEVELS.join(", ")}`);
   }
+  stderrSink.level = logLevel.data;
+  if (config.logging.file) {
+    addLogSink(createFileSink(config.logging.level, config.logging.file));
+  }
+  plugins = await loadPlugins(config, getConfigPath());
+  tools = createTools(config, plugins.plugins);
+  log.info(`${tools.length} of ${TOOL_NAMES.length + plugins.plugins.length} tools enabled by config${config.readOnly ? " (read-only mode)" : ""}`);
+} catch (error) {
+  log.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
 }
 
+// Pick the automation backend (real apps via osascript, or the in-memory fake)
+const appBackend = createBackendFromEnv();
+log.info(`Using ${appBackend.name} automation backend`);
+
+// Scripts queue per app across all sessions. Reads join identical calls already in flight; writes always run their own.
+const scheduler = createScheduler(config.queue);
+const backend = createScheduledBackend(appBackend, scheduler, { shareInFlight: true });
+const writeBackend = createScheduledBackend(appBackend, scheduler, { shareInFlight: false });
 
-// Main server object
-let server: Server;
+// Expensive reads (folder, list, mailbox and account names, all contacts) shared by all sessions
+const responseCache = config.cache.enabled ? createResponseCache(config.cache.ttlMs) : undefined;
+const useCache: CacheAccess | undefined = responseCache && { cache: responseCache, bypass: false };
 
-// Initialize server directly (always lazy loading now)
-initServer();
+// Helper function for lazy module loading, bound to the backend and config
+const loadModule: LoadModuleFunction = createModuleLoader(backend, config, useCache);
 
-// Initialize the server and set up handlers
-function initServer() {
-  console.error(`Initializing server in ${safeModeFallback ? 'safe' : 'standard'} mode...`);
+// Shared by all sessions so the log has a single writer
+const auditLog = createAuditLog(config.auditLog.path);
+
+// Call counts, errors and latency per tool and operation, across all sessions
+const metrics = createMetrics();
+
+// Run `fn` with modules whose scripts are killed when the client cancels the request or `timeoutMs` passes
+function withDeadline<T>(
+  cancelSignal: AbortSignal,
+  timeoutMs: number,
+  fn: (load: LoadModuleFunction) => Promise<T>,
+  callBackend: AutomationBackend = backend,
+  cache: CacheAccess | undefined = useCache
+): Promise<T> {
+  return runWithDeadline(
+    signal => fn(createModuleLoader(callBackend.withSignal(signal), config, cache)),
+    timeoutMs,
+    cancelSignal
+  );
+}
+
+
+if (command !== undefined) {
+  if (!isCliCommand(command)) {
+    console.error(`Unknown command "${command}".\n${CLI_USAGE}`);
+    process.exit(2);
+  }
+  runCli(command, commandArgs, cliOptions, createServer(), (tool, operation) => getTimeoutMs(config, tool, operation))
+    .then(code => process.exit(code))
+    .catch(error => {
+      log.error(`apple-mcp ${command} failed`, error);
+      process.exit(1);
+    });
+} else if (cliOptions.transport === "http") {
+  startHttp();
+} else if (cliOptions.transport === "stdio") {
+  startStdio();
+} else {
+  log.error(`Unknown transport "${cliOptions.transport}". Use "stdio" or "http".`);
+  process.exit(1);
+}
+
+// Create a server with all handlers set up. HTTP mode creates one per client session.
+function createServer(): Server {
+  log.debug(`Initializing server in ${safeModeFallback ? 'safe' : 'standard'} mode...`);
   
-  server = new Server(
+  const server = new Server(
     {
       name: "Apple MCP tools",
-      version: "1.0.0",
+      version: SERVER_VERSION,
     },
     {
       capabilities: {
         tools: {},
+        resources: {},
+        prompts: {},
+        logging: {},
       },
     }
   );
 
+  // Forward log records as notifications/message once the client picks a level.
+  // Replaces the SDK's own handler, which forwards every record until then.
+  // Only records logged while handling this session's requests are forwarded, as over HTTP other sessions belong to other clients.
+  const session = {};
+  const inSession = <H extends (...args: any[]) => unknown>(handler: H): H =>
+    ((...args: unknown[]) => withLogScope(session, () => handler(...args))) as H;
+  let removeLogSink: (() => void) | undefined;
+  server.setRequestHandler(SetLevelRequestSchema, async request => {
+    removeLogSink?.();
+    removeLogSink = addLogSink({
+      level: request.params.level,
+      scope: session,
+      write: record => {
+        server.sendLoggingMessage({
+          level: record.level,
+          logger: record.logger,
+          data: record.details === undefined ? record.message : { message: record.message, details: serializeDetails(record.details) },
+        }).catch(() => {
+          // The client is gone; logging this would only come back here
+        });
+      },
+    });
+    return {};
+  });
+  server.onclose = () => removeLogSink?.();
+
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
     tools
   }));
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(ListResourcesRequestSchema, inSession(async (_request, extra) => ({
+    resources: await withDeadline(extra.signal, getTimeoutMs(config, "resources"), load => listResources(load))
+  })));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, inSession(async (request, extra) =>
+    withDeadline(extra.signal, getTimeoutMs(config, "resources"), load => readResource(request.params.uri, load))
+  ));
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: PROMPTS
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, inSession(async (request, extra) =>
+    withDeadline(extra.signal, getTimeoutMs(config, "prompts"), load =>
+      getPrompt(request.params.name, request.params.arguments, load))
+  ));
+
+  // Sends waiting for a confirm token belong to this client session
+  const pendingActions = createPendingActions();
+
+  // `timing.started` is moved up to when the user confirmed, so the time they took to decide isn't counted as the call's
+  const callTool = async (
+    request: CallToolRequest,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    callBackend?: AutomationBackend,
+    timing?: { started: number }
+  ) => {
     try {
-      const { name, arguments: args } = request.params;
+      const { name } = request.params;
+      // Built-in handlers fit their lists within the call's maxOutputChars, or the config's.
+      // Plugins validate the arguments as sent against their own schemas.
+      const isBuiltIn = (TOOL_NAMES as readonly string[]).includes(name);
+      const args: Record<string, unknown> | undefined = request.params.arguments &&
+        (isBuiltIn ? { maxOutputChars: config.maxOutputChars, ...request.params.arguments } : request.params.arguments);
 
       if (!args) {
-        throw new Error("No arguments provided");
+        throw new InvalidInputError("No arguments provided");
+      }
+
+      // Handlers run under the call's deadline, after any confirmation from the user
+      const operation = typeof args.operation === "string" ? args.operation : undefined;
+      const isWrite = operation !== undefined && plugins.isWriteOperation(name, operation);
+      // Dry runs neither read from nor fill the cache
+      const execute = <T>(handler: (load: LoadModuleFunction) => Promise<T>) =>
+        withDeadline(
+          extra.signal,
+          getTimeoutMs(config, name, operation),
+          handler,
+          callBackend ?? (isWrite ? writeBackend : backend),
+          callBackend || !responseCache ? undefined : { cache: responseCache, bypass: args.cache === "bypass" }
+        );
+
+      if (!isToolEnabled(config, name)) {
+        throw new PermissionDeniedError(`Tool ${name} is disabled in the config`, { permission: "config" });
+      }
+      if (operation !== undefined && config.readOnly && isWrite) {
+        throw new PermissionDeniedError(
+          `Operation "${operation}" of tool ${name} changes data and the server is in read-only mode`,
+          { permission: "config" }
+        );
+      }
+      if (operation !== undefined && !isOperationEnabled(config, name, operation, isWrite)) {
+        throw new PermissionDeniedError(`Operation "${operation}" of tool ${name} is disabled in the config`, { permission: "config" });
       }
 
+      // Long searches report progress when the client sent a progressToken
+      const reportProgress = createProgressReporter(extra);
+
+      const confirmation: ConfirmationContext = {
+        elicit: server.getClientCapabilities()?.elicitation ?
+          params => server.elicitInput(params, { relatedRequestId: extra.requestId }) : undefined,
+        pending: pendingActions,
+        loadModule,
+      };
+      const confirm = async (args: OutboundArgs) => {
+        if (!config.confirmOutbound) {
+          return null;
+        }
+        const unconfirmed = await confirmOutbound(name, args, confirmation);
+        if (timing) {
+          timing.started = Date.now();
+        }
+        return unconfirmed;
+      };
+
       // Refactored switch statement using imported handlers
       switch (name) {
         case "contacts": {
           const validatedArgs = ContactsArgsSchema.parse(args);
-          return await handleContacts(validatedArgs, loadModule);
+          return await execute(load => handleContacts(validatedArgs, load));
         }
         case "notes": {
           const validatedArgs = NotesArgsSchema.parse(args);
-          return await handleNotes(validatedArgs, loadModule);
+          return await execute(load => handleNotes(validatedArgs, load, reportProgress));
         }
         case "messages": {
           const validatedArgs = MessagesArgsSchema.parse(args);
-          return await handleMessages(validatedArgs, loadModule);
+          const unconfirmed = await confirm(validatedArgs);
+          if (unconfirmed) return unconfirmed;
+          return await execute(load => handleMessages(validatedArgs, load));
         }
         case "mail": {
           const validatedArgs = MailArgsSchema.parse(args);
-          return await handleMail(validatedArgs, loadModule);
+          const unconfirmed = await confirm(validatedArgs);
+          if (unconfirmed) return unconfirmed;
+          return await execute(load => handleMail(validatedArgs, load, reportProgress));
         }
         case "reminders": {
           const validatedArgs = RemindersArgsSchema.parse(args);
-          return await handleReminders(validatedArgs, loadModule);
+          return await execute(load => handleReminders(validatedArgs, load, reportProgress));
         }
         case "webSearch": {
           const validatedArgs = WebSearchArgsSchema.parse(args);
-          return await handleWebSearch(validatedArgs, loadModule);
+          return await execute(load => handleWebSearch(validatedArgs, load));
         }
         case "calendar": {
           const validatedArgs = CalendarArgsSchema.parse(args);
-          return await handleCalendar(validatedArgs, loadModule);
+          return await execute(load => handleCalendar(validatedArgs, load));
         }
         case "maps": {
           const validatedArgs = MapsArgsSchema.parse(args);
-          return await handleMaps(validatedArgs, loadModule);
+          return await execute(load => handleMaps(validatedArgs, load));
+        }
+        case "audit": {
+          const validatedArgs = AuditArgsSchema.parse(args);
+          return await handleAudit(validatedArgs, auditLog);
+        }
+        case "metrics": {
+          const validatedArgs = MetricsArgsSchema.parse(args);
+          return await handleMetrics(validatedArgs, metrics);
+        }
+        case "diagnostics": {
+          const validatedArgs = DiagnosticsArgsSchema.parse(args);
+          return await execute(load => handleDiagnostics(validatedArgs, load, {
+            backendName: appBackend.name,
+            config,
+            configPath: getConfigPath(),
+            queueDepth: () => scheduler.depth(),
+            toolNames: [...TOOL_NAMES, ...plugins.plugins.map(plugin => plugin.name)],
+          }));
+        }
+        default: {
+          const plugin = plugins.get(name);
+          if (!plugin) {
+            throw new InvalidInputError(`Unknown tool: ${name}`);
+          }
+          const validatedArgs = plugin.argsSchema.parse(args);
+          return await execute(load => runPlugin(plugin, validatedArgs, config, load, reportProgress));
         }
-        default:
-          return {
-            content: [{ type: "text", text: `Unknown tool: ${name}` }],
-            isError: true,
-          };
       }
     } catch (error: any) {
-      // Handle Zod validation errors specifically
-      if (error instanceof z.ZodError) {
-        return {
-          content: [{ type: "text", text: `Invalid arguments: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}` }],
-          isError: true,
-        };
-      }
-      // Handle other errors
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      };
+      // Zod validation errors get their own prefix; the code tells every other kind apart
+      return errorResult(error instanceof z.ZodError ? "Invalid arguments" : "Error", error);
+    }
+  };
+
+  // Run a write against a backend that only records, and return what it would have run.
+  // Errors raised before any script runs (invalid arguments, refused operations) come back as-is.
+  const dryRunTool = async (request: CallToolRequest, extra: RequestHandlerExtra<ServerRequest, ServerNotification>, operation: string) => {
+    const dryRunBackend = createDryRunBackend();
+    const result = await callTool(request, extra, dryRunBackend);
+    if (result.isError && dryRunBackend.calls.length === 0) {
+      return result;
+    }
+    return dryRunResult(request.params.name, operation, dryRunBackend.calls);
+  };
+
+  // Every write operation is recorded, whether it went through, was refused or failed.
+  // The audit log keeps the full text layout; format and maxOutputChars only change what the client gets back.
+  // Metrics count every call except dry runs, which never reach the apps.
+  server.setRequestHandler(CallToolRequestSchema, inSession(async (sentRequest, extra) => {
+    // Tools with a single operation may be called without naming it
+    const defaultOperation = soleOperation(sentRequest.params.name, plugins.plugins);
+    const request = defaultOperation && sentRequest.params.arguments?.operation === undefined ?
+      { ...sentRequest, params: { ...sentRequest.params, arguments: { operation: defaultOperation, ...sentRequest.params.arguments } } } :
+      sentRequest;
+    const { name, arguments: args = {} } = request.params;
+    const maxOutputChars = MaxOutputCharsArgSchema.safeParse(args.maxOutputChars).data ?? config.maxOutputChars;
+    const respond = (result: ToolResult) => fitOutput(applyFormat(result, args.format), args.format, maxOutputChars);
+
+    const isWrite = typeof args.operation === "string" && plugins.isWriteOperation(name, args.operation);
+    // Dry runs come back whole, as a script cut short can't be reviewed
+    if (isWrite && args.dryRun === true) {
+      return applyFormat(await dryRunTool(request, extra, args.operation as string), args.format);
     }
-  });
 
-  // Start the server transport
-  console.error("Setting up MCP server transport...");
+    // The arguments as the client sent them, before any defaults are filled in
+    const sentArgs = sanitizeArgs(sentRequest.params.arguments ?? {});
+    const received = Date.now();
+    const timing = { started: received };
+    const result = await callTool(request, extra, undefined, timing);
+    const durationMs = Date.now() - timing.started;
+    metrics.record(name, typeof args.operation === "string" ? args.operation : "", durationMs, result);
+    if (isWrite) {
+      // Even a failed write may have changed something, e.g. created the list before failing
+      responseCache?.invalidateAfter(name, args.operation as string);
+    }
+    if (config.auditLog.enabled && isWrite) {
+      await auditLog.record({
+        timestamp: new Date(received).toISOString(),
+        tool: name,
+        operation: args.operation as string,
+        args: sentArgs,
+        isError: result.isError,
+        result: summarizeResult(result.content),
+        durationMs,
+      });
+    }
+    return respond(result);
+  }));
+
+  return server;
+}
+
+// Serve a single client over stdin/stdout. Nothing but the protocol may write to stdout, so every module logs through src/logger.ts.
+function startStdio() {
+  const server = createServer();
 
   (async () => {
     try {
-      console.error("Initializing transport...");
-      const transport = new StdioServerTransport();
-
-      // Ensure stdout is only used for JSON messages
-      console.error("Setting up stdout filter...");
-      const originalStdoutWrite = process.stdout.write.bind(process.stdout);
-      process.stdout.write = (chunk: any, encoding?: any, callback?: any) => {
-        // Only allow JSON messages to pass through
-        if (typeof chunk === "string" && !chunk.startsWith("{")) {
-          console.error("Filtering non-JSON stdout message");
-          return true; // Silently skip non-JSON messages
-        }
-        return originalStdoutWrite(chunk, encoding, callback);
-      };
-
-      console.error("Connecting transport to server...");
-      await server.connect(transport);
-      console.error("Server connected successfully!");
+      log.debug("Connecting stdio transport to server...");
+      await server.connect(new StdioServerTransport());
+      log.info("Server connected successfully!");
     } catch (error) {
-      console.error("Failed to initialize MCP server:", error);
+      log.error("Failed to initialize MCP server", error);
       process.exit(1);
     }
   })();
 }
 
+// Serve any number of clients over streamable HTTP and legacy SSE
+function startHttp() {
+  const port = Number(cliOptions.port);
+  const host = cliOptions.host!;
+  // Prefer the environment variable so the token doesn't show up in process listings
+  const token = process.env.APPLE_MCP_TOKEN || cliOptions.token;
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    log.error(`Invalid port "${cliOptions.port}"`);
+    process.exit(1);
+  }
+  if (!token && !isLoopbackHost(host)) {
+    log.error(`Refusing to listen on ${host} without a bearer token. Set APPLE_MCP_TOKEN or pass --token.`);
+    process.exit(1);
+  }
+
+  startHttpServer(createServer, { port, host, token, metrics: () => metrics.toPrometheus() }).catch(error => {
+    log.error("Failed to start HTTP server", error);
+    process.exit(1);
+  });
+}
+
 // Helper functions for argument type checking (REMOVED)
@@ -0,0 +1,137 @@
+import { appendFile, mkdir, open } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import { createLogger } from "./logger";
+
+const log = createLogger("auditLog");
+
+// Longest argument string kept in an entry; message and email bodies are cut to this
+const MAX_ARG_LENGTH = 200;
+const MAX_RESULT_LENGTH = 300;
+
+// `recent` reads the log backwards this much at a time, and no further back than MAX_SCAN_BYTES
+const READ_CHUNK_BYTES = 64 * 1024;
+const MAX_SCAN_BYTES = 8 * 1024 * 1024;
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  operation: string;
+  args: Record<string, unknown>;
+  isError: boolean;
+  // Start of the text the tool returned
+  result: string;
+  durationMs: number;
+}
+
+export interface AuditLog {
+  path: string;
+  record(entry: AuditEntry): Promise<void>;
+  // Most recent entries first
+  recent(limit: number, filter?: { tool?: string; operation?: string }): Promise<AuditEntry[]>;
+}
+
+/**
+ * Where the audit log lives by default: $XDG_STATE_HOME/apple-mcp/audit.jsonl,
+ * or ~/.local/state/apple-mcp/audit.jsonl
+ */
+export function getDefaultAuditPath(env: NodeJS.ProcessEnv = process.env): string {
+  const stateHome = env.XDG_STATE_HOME || path.join(homedir(), ".local", "state");
+  return path.join(stateHome, "apple-mcp", "audit.jsonl");
+}
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max)}... (${text.length - max} more chars)` : text;
+
+/**
+ * Copy of the call arguments fit for the log: confirm tokens are dropped and long text is cut
+ */
+export function sanitizeArgs(args: Record<string, unknown>): Record<string, unknown> {
+  const sanitized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (key === "operation" || key === "confirmToken") continue;
+    sanitized[key] = typeof value === "string" ? truncate(value, MAX_ARG_LENGTH) : value;
+  }
+  return sanitized;
+}
+
+export function summarizeResult(content: { type: string; text?: string }[]): string {
+  return truncate(content.map(c => c.text ?? `[${c.type}]`).join("\n"), MAX_RESULT_LENGTH);
+}
+
+/**
+ * The lines of a file, last first, reading no more than its last `maxBytes`.
+ * A line that starts before that is left out rather than returned cut.
+ */
+async function* readLinesBackwards(filePath: string, maxBytes: number): AsyncGenerator<string> {
+  const file = await open(filePath, "r");
+  try {
+    let position = (await file.stat()).size;
+    const stop = Math.max(0, position - maxBytes);
+    // Bytes after the last newline found so far: the end of a line whose start isn't read yet
+    let rest = Buffer.alloc(0);
+    while (position > stop) {
+      const length = Math.min(READ_CHUNK_BYTES, position - stop);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      await file.read(chunk, 0, length, position);
+      const buffer = Buffer.concat([chunk, rest]);
+      let end = buffer.length;
+      for (let i = buffer.length - 1; i >= 0; i--) {
+        if (buffer[i] === 0x0a) {
+          yield buffer.subarray(i + 1, end).toString("utf8");
+          end = i;
+        }
+      }
+      rest = buffer.subarray(0, end);
+    }
+    if (position === 0) {
+      yield rest.toString("utf8");
+    }
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Append-only JSONL log of side-effecting tool calls. Failing to write the log is
+ * reported but never fails the call itself.
+ */
+export function createAuditLog(logPath: string = getDefaultAuditPath()): AuditLog {
+  return {
+    path: logPath,
+
+    async record(entry) {
+      try {
+        await mkdir(path.dirname(logPath), { recursive: true });
+        await appendFile(logPath, `${JSON.stringify(entry)}\n`, { encoding: "utf8", mode: 0o600 });
+      } catch (error) {
+        log.error(`Failed to write audit log ${logPath}`, error);
+      }
+    },
+
+    // Reads from the end of the log, so the cost depends on `limit` rather than the log's size
+    async recent(limit, filter = {}) {
+      const entries: AuditEntry[] = [];
+      try {
+        for await (const line of readLinesBackwards(logPath, MAX_SCAN_BYTES)) {
+          if (!line.trim()) continue;
+          try {
+            const entry = JSON.parse(line) as AuditEntry;
+            if (filter.tool && entry.tool !== filter.tool) continue;
+            if (filter.operation && entry.operation !== filter.operation) continue;
+            entries.push(entry);
+          } catch {
+            // Skip a line that was cut short, e.g. by a crash mid-write
+            continue;
+          }
+          if (entries.length >= limit) break;
+        }
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return [];
+        throw error;
+      }
+      return entries;
+    },
+  };
+}
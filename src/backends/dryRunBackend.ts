@@ -0,0 +1,55 @@
+import type { AutomationBackend } from "../types";
+
+export interface PlannedCall {
+  kind: "jxa" | "applescript" | "scriptFile" | "sqlite";
+  source: string;
+  args: unknown[];
+}
+
+export interface DryRunBackend extends AutomationBackend {
+  // Every invocation that would have run, in order
+  calls: PlannedCall[];
+}
+
+/**
+ * Create a backend that records what would run instead of running it.
+ * Every call succeeds with a neutral answer (`true` from JXA, "true" from AppleScript),
+ * which is what the utils modules' access checks look for, so a write goes all the
+ * way to the script that would make it.
+ */
+export function createDryRunBackend(): DryRunBackend {
+  const calls: PlannedCall[] = [];
+
+  const backend: DryRunBackend = {
+    name: "dry-run",
+    calls,
+
+    async runJxa<R = unknown>(fn: (...args: any[]) => unknown, ...args: any[]): Promise<R> {
+      // Record the arguments as osascript would receive them
+      calls.push({ kind: "jxa", source: fn.toString(), args: JSON.parse(JSON.stringify(args)) });
+      return true as R;
+    },
+
+    async runAppleScript(script) {
+      calls.push({ kind: "applescript", source: script, args: [] });
+      return "true";
+    },
+
+    async runScriptFile(scriptPath, args = []) {
+      calls.push({ kind: "scriptFile", source: scriptPath, args });
+      return "true";
+    },
+
+    async querySqlite<T = Record<string, unknown>>(dbPath: string, sql: string): Promise<T[]> {
+      calls.push({ kind: "sqlite", source: sql, args: [dbPath] });
+      return [];
+    },
+
+    // Nothing runs, so there is nothing to abort; keep recording into the same list
+    withSignal() {
+      return backend;
+    },
+  };
+
+  return backend;
+}
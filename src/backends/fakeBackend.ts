@@ -0,0 +1,782 @@
+import { devNull } from "node:os";
+import path from "node:path";
+import type { AutomationBackend } from "../types";
+
+// In-memory app data served by the fake backend. Field names follow the
+// JXA property names so fixtures read like what the real apps return.
+export interface FakeNotesFolder {
+  id?: string;
+  name: string;
+  account?: string;
+}
+
+export interface FakeNote {
+  id?: string;
+  name: string;
+  body: string;
+  folder?: string;
+}
+
+export interface FakeCalendarEvent {
+  uid?: string;
+  summary: string;
+  startDate: string;
+  endDate: string;
+  location?: string | null;
+  description?: string | null;
+  alldayEvent?: boolean;
+  url?: string | null;
+}
+
+export interface FakeCalendar {
+  name: string;
+  events: FakeCalendarEvent[];
+}
+
+export interface FakeReminder {
+  id?: string;
+  name: string;
+  body?: string | null;
+  completed?: boolean;
+  dueDate?: string | null;
+  completionDate?: string | null;
+  creationDate?: string | null;
+  modificationDate?: string | null;
+  remindMeDate?: string | null;
+  priority?: number;
+}
+
+export interface FakeReminderList {
+  id?: string;
+  name: string;
+  reminders: FakeReminder[];
+}
+
+export interface FakeMailMessage {
+  id?: number;
+  subject: string;
+  sender: string;
+  dateSent: string;
+  content: string;
+  readStatus?: boolean;
+}
+
+export interface FakeMailbox {
+  name: string;
+  messages: FakeMailMessage[];
+}
+
+export interface FakeMailAccount {
+  name: string;
+  mailboxes: FakeMailbox[];
+}
+
+export interface FakeOutgoingMail {
+  to: string;
+  cc?: string;
+  bcc?: string;
+  subject: string;
+  content: string;
+}
+
+export interface FakePerson {
+  name: string;
+  phones: string[];
+}
+
+export interface FakeChatMessage {
+  id?: number;
+  handle: string;
+  text: string;
+  date: string;
+  isFromMe?: boolean;
+  isRead?: boolean;
+  subject?: string | null;
+}
+
+export interface FakeSentMessage {
+  buddy: string;
+  text: string;
+}
+
+export interface FakeAppData {
+  notes: { folders: FakeNotesFolder[]; notes: FakeNote[] };
+  calendar: { calendars: FakeCalendar[] };
+  reminders: { lists: FakeReminderList[] };
+  mail: { accounts: FakeMailAccount[]; outbox: FakeOutgoingMail[] };
+  contacts: { people: FakePerson[] };
+  messages: { chat: FakeChatMessage[]; sent: FakeSentMessage[] };
+}
+
+export type FakeSeed = { [K in keyof FakeAppData]?: Partial<FakeAppData[K]> };
+
+export interface FakeCall {
+  kind: "jxa" | "applescript" | "scriptFile" | "sqlite";
+  source: string;
+  args: unknown[];
+}
+
+type Reply<A extends unknown[], R> = R | ((...args: A) => R);
+
+export interface FakeBackend extends AutomationBackend {
+  // Live app state; tests can inspect it after a call or mutate it before one
+  data: FakeAppData;
+  // Every invocation in order, for assertions
+  calls: FakeCall[];
+  // Answer AppleScript source matching `match`. Scripted replies win over the built-in ones.
+  onAppleScript(match: string | RegExp, reply: Reply<[script: string], string>): FakeBackend;
+  // Answer runs of a script file, matched by file name
+  onScriptFile(fileName: string, reply: Reply<[args: string[]], string>): FakeBackend;
+  // Answer sqlite queries matching `match`
+  onSqlite(match: string | RegExp, reply: Reply<[sql: string], Record<string, unknown>[]>): FakeBackend;
+  // Make an app behave as if Automation permission was refused
+  denyAccess(appName: string): FakeBackend;
+  // Make the Messages database unreadable, as when Full Disk Access was not granted
+  denyFullDiskAccess(): FakeBackend;
+}
+
+// Marks the data record behind an object specifier
+const RECORD = Symbol("record");
+
+type Specifier = { [key: string]: any; [RECORD]?: any };
+type WhoseFilter = Record<string, any>;
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// AppleScript comparisons ignore case by default, and so does `whose`
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string") return value.toLowerCase();
+  return value;
+}
+
+function compare(operator: string, actual: unknown, expected: unknown): boolean {
+  if (actual instanceof Date && typeof expected === "string") expected = new Date(expected);
+  const a = normalize(actual) as any;
+  const e = normalize(expected) as any;
+  switch (operator) {
+    case "_equals": return a === e;
+    case "_notEquals": return a !== e;
+    case "_contains": return typeof a === "string" && a.includes(String(e));
+    case "_beginsWith": return typeof a === "string" && a.startsWith(String(e));
+    case "_endsWith": return typeof a === "string" && a.endsWith(String(e));
+    case "_greaterThan": return a > e;
+    case "_greaterThanEquals": return a >= e;
+    case "_lessThan": return a < e;
+    case "_lessThanEquals": return a <= e;
+    default:
+      throw new Error(`Fake backend does not support the whose operator ${operator}`);
+  }
+}
+
+function matches(item: Specifier, filter: WhoseFilter): boolean {
+  if (filter._and) return filter._and.every((f: WhoseFilter) => matches(item, f));
+  if (filter._or) return filter._or.some((f: WhoseFilter) => matches(item, f));
+  if (filter._not) return !filter._not.every((f: WhoseFilter) => matches(item, f));
+
+  return Object.entries(filter).every(([key, condition]) => {
+    const value = typeof item[key] === "function" ? item[key]() : item[key];
+    if (condition !== null && typeof condition === "object" && !(condition instanceof Date)) {
+      return Object.entries(condition).every(([operator, expected]) => compare(operator, value, expected));
+    }
+    return compare("_equals", value, condition);
+  });
+}
+
+/**
+ * An element collection the way JXA exposes one: call it to get the array,
+ * filter it with `whose`, index it, or call a property on it to get that
+ * property of every element.
+ */
+function elements(list: () => Specifier[], insert?: (item: Specifier) => void): any {
+  return new Proxy(() => list(), {
+    apply: () => list(),
+    get(_target, prop) {
+      if (typeof prop !== "string") return undefined;
+      if (prop === "whose") {
+        return (filter: WhoseFilter) => elements(() => list().filter(item => matches(item, filter)), insert);
+      }
+      if (prop === "byId" || prop === "byName") {
+        const key = prop === "byId" ? "id" : "name";
+        return (value: string) => {
+          const found = list().find(item => item[key]() === value);
+          if (!found) throw new Error(`Can't get object with ${key} "${value}".`);
+          return found;
+        };
+      }
+      if (prop === "length") return list().length;
+      if (prop === "push") {
+        return (item: Specifier) => {
+          if (!insert) throw new Error("Can't make or move that element into that container.");
+          insert(item);
+        };
+      }
+      if (/^\d+$/.test(prop)) return list()[Number(prop)];
+      return () => list().map(item => item[prop]());
+    },
+  });
+}
+
+function unescapeAppleScript(text: string): string {
+  return text.replace(/\\(["\\])/g, "$1");
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "");
+}
+
+function emptyData(): FakeAppData {
+  return {
+    notes: { folders: [], notes: [] },
+    calendar: { calendars: [] },
+    reminders: { lists: [] },
+    mail: { accounts: [], outbox: [] },
+    contacts: { people: [] },
+    messages: { chat: [], sent: [] },
+  };
+}
+
+/**
+ * Create a backend that runs the utils modules against in-memory app data.
+ * JXA functions are executed locally against a small model of the Notes,
+ * Calendar, Reminders, Mail and Contacts object graphs; AppleScript, script
+ * files and sqlite queries are answered by scripted replies, with built-in
+ * answers for the fixed scripts the utils modules use.
+ */
+export function createFakeBackend(seed: FakeSeed = {}): FakeBackend {
+  const data = emptyData();
+  for (const key of Object.keys(data) as (keyof FakeAppData)[]) {
+    Object.assign(data[key] as object, clone(seed[key] ?? {}));
+  }
+
+  let idCounter = 0;
+  const nextId = (prefix: string) => `${prefix}${++idCounter}`;
+
+  // Fill in the IDs the real apps would have assigned
+  for (const folder of data.notes.folders) folder.id ??= nextId("x-coredata://fake/ICFolder/p");
+  for (const note of data.notes.notes) {
+    note.id ??= nextId("x-coredata://fake/ICNote/p");
+    note.folder ??= "Notes";
+    if (!data.notes.folders.some(f => f.name === note.folder)) {
+      data.notes.folders.push({ id: nextId("x-coredata://fake/ICFolder/p"), name: note.folder });
+    }
+  }
+  for (const calendar of data.calendar.calendars) {
+    for (const event of calendar.events) event.uid ??= nextId("FAKE-EVENT-");
+  }
+  for (const list of data.reminders.lists) {
+    list.id ??= nextId("x-apple-reminder://fake-list/");
+    for (const reminder of list.reminders) reminder.id ??= nextId("x-apple-reminder://fake/");
+  }
+  for (const account of data.mail.accounts) {
+    for (const box of account.mailboxes) {
+      for (const message of box.messages) message.id ??= ++idCounter;
+    }
+  }
+  data.messages.chat.forEach((message, index) => { message.id ??= index + 1; });
+
+  const calls: FakeCall[] = [];
+  const deniedApps = new Set<string>();
+  let fullDiskAccess = true;
+  const appleScriptReplies: [string | RegExp, Reply<[string], string>][] = [];
+  const scriptFileReplies = new Map<string, Reply<[string[]], string>>();
+  const sqliteReplies: [string | RegExp, Reply<[string], Record<string, unknown>[]>][] = [];
+
+  const assertAccess = (appName: string) => {
+    if (deniedApps.has(appName)) {
+      throw new Error(`Error: Not authorized to send Apple events to ${appName}. (-1743)`);
+    }
+  };
+
+  // --- Notes ---------------------------------------------------------------
+
+  const notesFolder = (folder: FakeNotesFolder): Specifier => ({
+    [RECORD]: folder,
+    id: () => folder.id,
+    name: () => folder.name,
+    class: () => "folder",
+    container: { name: () => folder.account ?? "iCloud", class: () => "account" },
+    notes: elements(() => data.notes.notes.filter(n => n.folder === folder.name).map(notesNote)),
+  });
+
+  const notesNote = (note: FakeNote): Specifier => ({
+    [RECORD]: note,
+    id: () => note.id,
+    name: () => note.name,
+    body: () => note.body,
+    plaintext: () => stripHtml(note.body),
+    class: () => "note",
+    container: notesFolder(data.notes.folders.find(f => f.name === note.folder) ?? { name: note.folder ?? "Notes" }),
+  });
+
+  const notesApp = () => ({
+    name: () => "Notes",
+    activate: () => {},
+    notes: elements(() => data.notes.notes.map(notesNote)),
+    folders: elements(() => data.notes.folders.map(notesFolder)),
+    make: ({ new: kind, withProperties = {}, at }: { new: string; withProperties?: any; at?: Specifier }) => {
+      if (kind === "folder") {
+        const folder: FakeNotesFolder = { id: nextId("x-coredata://fake/ICFolder/p"), name: withProperties.name };
+        data.notes.folders.push(folder);
+        return notesFolder(folder);
+      }
+      if (kind === "note") {
+        const note: FakeNote = {
+          id: nextId("x-coredata://fake/ICNote/p"),
+          name: withProperties.name ?? "New Note",
+          body: withProperties.body ?? "",
+          folder: at?.[RECORD]?.name ?? "Notes",
+        };
+        data.notes.notes.push(note);
+        return notesNote(note);
+      }
+      throw new Error(`Can't make class ${kind}.`);
+    },
+  });
+
+  // --- Calendar ------------------------------------------------------------
+
+  const calendarEvent = (event: FakeCalendarEvent): Specifier => ({
+    [RECORD]: event,
+    uid: () => event.uid,
+    summary: () => event.summary,
+    startDate: () => new Date(event.startDate),
+    endDate: () => new Date(event.endDate),
+    location: () => event.location ?? null,
+    description: () => event.description ?? null,
+    alldayEvent: () => event.alldayEvent ?? false,
+    url: () => event.url ?? null,
+    show: () => {},
+  });
+
+  const calendarCalendar = (calendar: FakeCalendar): Specifier => ({
+    [RECORD]: calendar,
+    name: () => calendar.name,
+    events: elements(
+      () => calendar.events.map(calendarEvent),
+      item => { calendar.events.push(item[RECORD]); },
+    ),
+  });
+
+  const toIso = (value: unknown) => new Date(value as string).toISOString();
+
+  const calendarApp = () => ({
+    name: () => "Calendar",
+    activate: () => {},
+    calendars: elements(() => data.calendar.calendars.map(calendarCalendar)),
+    Event: (props: any) => calendarEvent({
+      uid: nextId("FAKE-EVENT-"),
+      summary: props.summary ?? "New Event",
+      startDate: toIso(props.startDate),
+      endDate: toIso(props.endDate),
+      location: props.location || null,
+      description: props.description || null,
+      alldayEvent: Boolean(props.alldayEvent),
+      url: null,
+    }),
+  });
+
+  // --- Reminders -----------------------------------------------------------
+
+  const optionalDate = (value: string | null | undefined) => (value ? new Date(value) : null);
+
+  const remindersReminder = (reminder: FakeReminder): Specifier => ({
+    [RECORD]: reminder,
+    id: () => reminder.id,
+    name: () => reminder.name,
+    body: () => reminder.body ?? null,
+    completed: () => reminder.completed ?? false,
+    dueDate: () => optionalDate(reminder.dueDate),
+    completionDate: () => optionalDate(reminder.completionDate),
+    creationDate: () => optionalDate(reminder.creationDate),
+    modificationDate: () => optionalDate(reminder.modificationDate),
+    remindMeDate: () => optionalDate(reminder.remindMeDate),
+    priority: () => reminder.priority ?? 0,
+  });
+
+  const remindersList = (list: FakeReminderList): Specifier => ({
+    [RECORD]: list,
+    id: () => list.id,
+    name: () => list.name,
+    reminders: elements(() => list.reminders.map(remindersReminder)),
+    make: ({ new: kind, withProperties = {} }: { new: string; withProperties?: any }) => {
+      if (kind !== "reminder") throw new Error(`Can't make class ${kind}.`);
+      const reminder: FakeReminder = {
+        id: nextId("x-apple-reminder://fake/"),
+        name: withProperties.name ?? "New Reminder",
+        body: withProperties.body ?? null,
+        completed: false,
+        dueDate: withProperties.dueDate ? toIso(withProperties.dueDate) : null,
+        creationDate: new Date().toISOString(),
+        priority: 0,
+      };
+      list.reminders.push(reminder);
+      return remindersReminder(reminder);
+    },
+  });
+
+  const remindersApp = () => ({
+    name: () => "Reminders",
+    activate: () => {},
+    lists: elements(() => data.reminders.lists.map(remindersList)),
+    make: ({ new: kind, withProperties = {} }: { new: string; withProperties?: any }) => {
+      if (kind !== "list") throw new Error(`Can't make class ${kind}.`);
+      const list: FakeReminderList = { id: nextId("x-apple-reminder://fake-list/"), name: withProperties.name, reminders: [] };
+      data.reminders.lists.push(list);
+      return remindersList(list);
+    },
+  });
+
+  // --- Mail ----------------------------------------------------------------
+
+  const mailMessage = (message: FakeMailMessage, mailbox: Specifier): Specifier => ({
+    [RECORD]: message,
+    id: () => message.id,
+    subject: () => message.subject,
+    sender: () => message.sender,
+    dateSent: () => new Date(message.dateSent),
+    content: () => message.content,
+    readStatus: () => message.readStatus ?? false,
+    mailbox: mailbox,
+  });
+
+  const mailMailbox = (mailbox: FakeMailbox, account: FakeMailAccount): Specifier => {
+    const specifier: Specifier = {
+      [RECORD]: mailbox,
+      name: () => mailbox.name,
+      account: () => account.name,
+    };
+    specifier.messages = elements(() => mailbox.messages.map(m => mailMessage(m, specifier)));
+    return specifier;
+  };
+
+  const mailAccount = (account: FakeMailAccount): Specifier => ({
+    [RECORD]: account,
+    name: () => account.name,
+    mailboxes: elements(() => account.mailboxes.map(box => mailMailbox(box, account))),
+  });
+
+  const allMailboxes = () =>
+    data.mail.accounts.flatMap(account => account.mailboxes.map(box => mailMailbox(box, account)));
+
+  const mailOutgoing = () => {
+    const message = {
+      subject: "",
+      content: "",
+      visible: false,
+      toRecipients: [] as { address: string }[],
+      ccRecipients: [] as { address: string }[],
+      bccRecipients: [] as { address: string }[],
+      send: () => {
+        const addresses = (list: { address: string }[]) => list.map(r => r.address).join(", ") || undefined;
+        data.mail.outbox.push({
+          to: addresses(message.toRecipients) ?? "",
+          cc: addresses(message.ccRecipients),
+          bcc: addresses(message.bccRecipients),
+          subject: message.subject,
+          content: message.content,
+        });
+        return true;
+      },
+    };
+    return message;
+  };
+
+  const recipient = () => ({ make: () => ({ address: "" }) });
+
+  const mailApp = () => ({
+    name: () => "Mail",
+    version: () => "16.0",
+    activate: () => {},
+    accounts: elements(() => data.mail.accounts.map(mailAccount)),
+    mailboxes: elements(allMailboxes),
+    OutgoingMessage: () => ({ make: mailOutgoing }),
+    ToRecipient: recipient,
+    CcRecipient: recipient,
+    BccRecipient: recipient,
+  });
+
+  // --- Contacts ------------------------------------------------------------
+
+  const contactsPerson = (person: FakePerson): Specifier => ({
+    [RECORD]: person,
+    name: () => person.name,
+    phones: elements(() => person.phones.map(value => ({ value: () => value, label: () => "mobile" }))),
+  });
+
+  const contactsApp = () => ({
+    name: () => "Contacts",
+    activate: () => {},
+    people: elements(() => data.contacts.people.map(contactsPerson)),
+  });
+
+  // --- Messages ------------------------------------------------------------
+
+  // Only answers the access check; reading and sending go through chat.db and AppleScript
+  const messagesApp = () => ({
+    name: () => "Messages",
+  });
+
+  // --- JXA runtime ---------------------------------------------------------
+
+  const apps: Record<string, () => unknown> = {
+    Notes: notesApp,
+    Calendar: calendarApp,
+    Reminders: remindersApp,
+    Mail: mailApp,
+    Contacts: contactsApp,
+    Messages: messagesApp,
+  };
+
+  const Application = Object.assign(
+    (appName: string) => {
+      assertAccess(appName);
+      const app = apps[appName];
+      if (!app) throw new Error("Error: Application can't be found. (-2700)");
+      return app();
+    },
+    {
+      currentApplication: () => ({
+        includeStandardAdditions: false,
+        openLocation: () => {},
+      }),
+    },
+  );
+
+  const delay = () => {};
+
+  // --- Built-in AppleScript answers ----------------------------------------
+
+  const mailboxNames = (account?: FakeMailAccount) =>
+    (account ? account.mailboxes : data.mail.accounts.flatMap(a => a.mailboxes)).map(box => box.name);
+
+  const builtInAppleScript: [RegExp, (match: RegExpMatchArray) => string][] = [
+    [/application process "([^"]+)" exists/, () => "true"],
+    [/tell application "Mail" to activate/, () => ""],
+    [/if application "Mail" is not running then/, () => ""],
+    [/tell application "Mail"\s+count every mailbox/, () => String(mailboxNames().length)],
+    [/tell application "Mail"\s+return its version/, () => "16.0"],
+    [/repeat with a in accounts\s+set end of \w+ to name of a/, () => data.mail.accounts.map(a => a.name).join(", ")],
+    [/first account whose name is "((?:[^"\\]|\\.)*)"/, match => {
+      const name = unescapeAppleScript(match[1]);
+      const account = data.mail.accounts.find(a => a.name === name);
+      return account ? mailboxNames(account).join(", ") : `Error: Can't get account "${name}".`;
+    }],
+    [/set unreadCount to count \(messages of m whose read status is false\)/, () =>
+      data.mail.accounts
+        .flatMap(a => a.mailboxes)
+        .map(box => [box.name, box.messages.filter(m => !m.readStatus).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([name, count]) => `${name}, ${count}`)
+        .join(", ")],
+    [/tell application "Contacts"\s+count every person/, () => String(data.contacts.people.length)],
+    [/set targetBuddy to buddy "((?:[^"\\]|\\.)*)"\s+send "((?:[^"\\]|\\.)*)" to targetBuddy/, match => {
+      data.messages.sent.push({ buddy: unescapeAppleScript(match[1]), text: unescapeAppleScript(match[2]) });
+      return "";
+    }],
+  ];
+
+  // --- Built-in sqlite answers (Messages chat.db) --------------------------
+
+  const chatRows = (sql: string) => {
+    let rows = [...data.messages.chat];
+    const handles = sql.match(/h\.id IN \(([^)]*)\)/);
+    if (handles) {
+      const wanted = handles[1].split(",").map(h => h.trim().replace(/^'|'$/g, "").replace(/''/g, "'"));
+      rows = rows.filter(m => wanted.includes(m.handle));
+    }
+    if (/m\.is_read = 0/.test(sql)) rows = rows.filter(m => !m.isRead);
+    if (/m\.is_from_me = 0/.test(sql)) rows = rows.filter(m => !m.isFromMe);
+    rows.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    const limit = sql.match(/LIMIT (\d+)/);
+    if (limit) rows = rows.slice(0, Number(limit[1]));
+    return rows.map(m => ({
+      message_id: m.id,
+      content: m.text,
+      date: m.date,
+      sender: m.handle,
+      is_from_me: m.isFromMe ? 1 : 0,
+      is_audio_message: 0,
+      cache_has_attachments: 0,
+      subject: m.subject ?? null,
+      content_type: 0,
+    }));
+  };
+
+  const builtInSqlite: [RegExp, (sql: string) => Record<string, unknown>[]][] = [
+    [/^\s*SELECT 1;?\s*$/i, () => [{ "1": 1 }]],
+    [/sqlite_version\(\)/, () => [{ version: "3.43.2" }]],
+    [/FROM attachment/, () => []],
+    [/FROM message m/, chatRows],
+  ];
+
+  const matchesSource = (match: string | RegExp, source: string) =>
+    typeof match === "string" ? source.includes(match) : match.test(source);
+
+  const reply = <A extends unknown[], R>(value: Reply<A, R>, ...args: A): R =>
+    typeof value === "function" ? (value as (...args: A) => R)(...args) : value;
+
+  const backend: FakeBackend = {
+    name: "fake",
+    data,
+    calls,
+
+    async runJxa<R = unknown>(fn: (...args: any[]) => unknown, ...args: any[]): Promise<R> {
+      // Arguments and result cross a JSON boundary, and the function only sees
+      // the JXA globals, exactly as when @jxa/run ships it to osascript.
+      const jsonArgs = JSON.parse(JSON.stringify(args));
+      calls.push({ kind: "jxa", source: fn.toString(), args: jsonArgs });
+      const compiled = new Function("Application", "delay", `return (${fn.toString()});`)(Application, delay);
+      return clone(compiled(...jsonArgs)) as R;
+    },
+
+    async runAppleScript(script) {
+      calls.push({ kind: "applescript", source: script, args: [] });
+      for (const appName of script.matchAll(/tell application "([^"]+)"/g)) {
+        assertAccess(appName[1]);
+      }
+      for (let i = appleScriptReplies.length - 1; i >= 0; i--) {
+        const [match, value] = appleScriptReplies[i];
+        if (matchesSource(match, script)) return reply(value, script);
+      }
+      for (const [pattern, answer] of builtInAppleScript) {
+        const match = script.match(pattern);
+        if (match) return answer(match);
+      }
+      throw new Error(`Fake backend has no reply for AppleScript: ${script.trim().split("\n")[0]}`);
+    },
+
+    async runScriptFile(scriptPath, args = []) {
+      calls.push({ kind: "scriptFile", source: scriptPath, args });
+      const value = scriptFileReplies.get(path.basename(scriptPath));
+      if (value === undefined) {
+        throw new Error(`Fake backend has no reply for script file: ${path.basename(scriptPath)}`);
+      }
+      return reply(value, args);
+    },
+
+    async querySqlite<T = Record<string, unknown>>(dbPath: string, sql: string): Promise<T[]> {
+      calls.push({ kind: "sqlite", source: sql, args: [dbPath] });
+      // Any database but an empty one needs Full Disk Access, like chat.db under ~/Library
+      if (!fullDiskAccess && dbPath !== devNull) {
+        throw new Error(`Error: unable to open database "${dbPath}": authorization denied`);
+      }
+      for (let i = sqliteReplies.length - 1; i >= 0; i--) {
+        const [match, value] = sqliteReplies[i];
+        if (matchesSource(match, sql)) return reply(value, sql) as T[];
+      }
+      for (const [pattern, answer] of builtInSqlite) {
+        if (pattern.test(sql)) return answer(sql) as T[];
+      }
+      throw new Error(`Fake backend has no reply for query: ${sql.trim().split("\n")[0]}`);
+    },
+
+    onAppleScript(match, value) {
+      appleScriptReplies.push([match, value]);
+      return backend;
+    },
+
+    onScriptFile(fileName, value) {
+      scriptFileReplies.set(fileName, value);
+      return backend;
+    },
+
+    onSqlite(match, value) {
+      sqliteReplies.push([match, value]);
+      return backend;
+    },
+
+    denyAccess(appName) {
+      deniedApps.add(appName);
+      return backend;
+    },
+
+    denyFullDiskAccess() {
+      fullDiskAccess = false;
+      return backend;
+    },
+
+    // Same data and call log; calls made after `signal` fires fail like a killed osascript would
+    withSignal(signal) {
+      return {
+        ...backend,
+        runJxa: (fn, ...args) => { signal.throwIfAborted(); return backend.runJxa(fn, ...args); },
+        runAppleScript: script => { signal.throwIfAborted(); return backend.runAppleScript(script); },
+        runScriptFile: (scriptPath, args) => { signal.throwIfAborted(); return backend.runScriptFile(scriptPath, args); },
+        querySqlite: (dbPath, sql) => { signal.throwIfAborted(); return backend.querySqlite(dbPath, sql); },
+      };
+    },
+  };
+
+  return backend;
+}
+
+/**
+ * A small, fixed set of data for developing against the fake backend.
+ * Dates are relative to `now` so the default calendar and reminder ranges
+ * have something in them.
+ */
+export function createSampleFakeData(now = new Date()): FakeSeed {
+  const day = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const at = (days: number, hours: number) =>
+    new Date(day.getTime() + days * 86_400_000 + hours * 3_600_000).toISOString();
+
+  return {
+    notes: {
+      folders: [{ name: "Notes" }, { name: "Work" }],
+      notes: [
+        { name: "Shopping List", body: "Milk\nEggs\nBread", folder: "Notes" },
+        { name: "Project Kickoff", body: "Agenda: scope, timeline, owners", folder: "Work" },
+      ],
+    },
+    calendar: {
+      calendars: [
+        {
+          name: "Work",
+          events: [
+            { summary: "Team Standup", startDate: at(1, 9), endDate: at(1, 9.25), location: "Zoom" },
+            { summary: "Quarterly Review", startDate: at(2, 14), endDate: at(2, 15), location: "Conference Room A", description: "Bring the numbers" },
+          ],
+        },
+        { name: "Home", events: [{ summary: "Dentist", startDate: at(3, 10), endDate: at(3, 11) }] },
+      ],
+    },
+    reminders: {
+      lists: [
+        { name: "Reminders", reminders: [{ name: "Call the plumber", dueDate: at(1, 17) }] },
+        { name: "Shopping", reminders: [{ name: "Buy milk", body: "Organic" }, { name: "Buy coffee", completed: true }] },
+      ],
+    },
+    mail: {
+      accounts: [
+        {
+          name: "Work",
+          mailboxes: [
+            {
+              name: "INBOX",
+              messages: [
+                { subject: "Invoice #1042", sender: "billing@example.com", dateSent: at(0, 8), content: "Your invoice is attached." },
+                { subject: "Lunch?", sender: "alex@example.com", dateSent: at(-1, 12), content: "Free on Thursday?", readStatus: true },
+              ],
+            },
+            { name: "Archive", messages: [] },
+          ],
+        },
+      ],
+    },
+    contacts: {
+      people: [
+        { name: "Alex Appleseed", phones: ["+15555550100"] },
+        { name: "Sam Example", phones: ["+15555550123", "+15555550124"] },
+      ],
+    },
+    messages: {
+      chat: [
+        { handle: "+15555550100", text: "Running 5 minutes late", date: at(0, 8.5) },
+        { handle: "+15555550100", text: "No problem", date: at(0, 8.6), isFromMe: true, isRead: true },
+      ],
+    },
+  };
+}
@@ -0,0 +1,208 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import type { AutomationBackend } from "../types";
+import { createLogger } from "../logger";
+
+const log = createLogger("backends/fixtures");
+
+export interface FixtureCall {
+  kind: "jxa" | "applescript" | "scriptFile" | "sqlite";
+  // JXA function source, AppleScript source, script file name or SQL. The JXA source is
+  // `fn.toString()` of the function as bun transpiled it, so a fixture stops matching when
+  // the function is edited, and may when bun's output changes between versions
+  source: string;
+  args: unknown[];
+}
+
+/**
+ * One recorded invocation and what came back: `result` when it succeeded, `error` (the
+ * message, which is what `describeError` classifies) when it failed. A fixtures file
+ * holds one per line, in the order they ran.
+ */
+export interface Fixture extends FixtureCall {
+  result?: unknown;
+  error?: string;
+}
+
+export interface ReplayBackend extends AutomationBackend {
+  // Invocations no fixture answered, for finding gaps in a recording
+  misses: FixtureCall[];
+}
+
+// Script files are matched by name and databases relative to the home directory,
+// so a session recorded on one Mac replays from any checkout on any machine
+function normalize(call: FixtureCall, home = process.env.HOME): FixtureCall {
+  switch (call.kind) {
+    case "scriptFile":
+      return { ...call, source: path.basename(call.source) };
+    case "sqlite":
+      return { ...call, args: call.args.map(arg => home && typeof arg === "string" && arg.startsWith(home) ? `~${arg.slice(home.length)}` : arg) };
+    default:
+      return call;
+  }
+}
+
+const sourceKey = (call: FixtureCall) => JSON.stringify([call.kind, call.source]);
+const callKey = (call: FixtureCall) => JSON.stringify([call.kind, call.source, call.args]);
+
+const firstLine = (source: string) => source.trim().split("\n")[0];
+
+/**
+ * Read a fixtures file written by the recording backend
+ */
+export function loadFixtures(fixturesPath: string): Fixture[] {
+  return readFileSync(fixturesPath, "utf8")
+    .split("\n")
+    .filter(line => line.trim())
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as Fixture;
+      } catch (error) {
+        throw new Error(`Invalid fixture on line ${index + 1} of ${fixturesPath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+}
+
+/**
+ * Create a backend that runs every call on `inner` and appends it, with its result or
+ * error, to `fixturesPath`. Calls cut short by a timeout or cancellation say nothing
+ * about the apps and aren't recorded.
+ *
+ * Recordings hold whatever the apps returned (messages, emails, contacts), so the file
+ * is only readable by its owner; review it before sharing.
+ */
+export function createRecordingBackend(inner: AutomationBackend, fixturesPath: string): AutomationBackend {
+  const append = (fixture: Fixture) => {
+    try {
+      mkdirSync(path.dirname(fixturesPath), { recursive: true });
+      appendFileSync(fixturesPath, `${JSON.stringify(fixture)}\n`, { encoding: "utf8", mode: 0o600 });
+    } catch (error) {
+      log.error(`Failed to write fixture to ${fixturesPath}`, error);
+    }
+  };
+
+  const record = async <R>(call: FixtureCall, run: () => Promise<R>, signal?: AbortSignal): Promise<R> => {
+    try {
+      const result = await run();
+      append({ ...normalize(call), result });
+      return result;
+    } catch (error) {
+      if (!signal?.aborted) {
+        append({ ...normalize(call), error: error instanceof Error ? error.message : String(error) });
+      }
+      throw error;
+    }
+  };
+
+  const wrap = (backend: AutomationBackend, signal?: AbortSignal): AutomationBackend => ({
+    name: `record:${backend.name}`,
+
+    runJxa<R = unknown>(fn: (...args: any[]) => unknown, ...args: any[]): Promise<R> {
+      // Arguments as osascript receives them, so they compare equal on replay
+      const call: FixtureCall = { kind: "jxa", source: fn.toString(), args: JSON.parse(JSON.stringify(args)) };
+      return record(call, () => backend.runJxa<R>(fn, ...args), signal);
+    },
+
+    runAppleScript(script) {
+      return record({ kind: "applescript", source: script, args: [] }, () => backend.runAppleScript(script), signal);
+    },
+
+    runScriptFile(scriptPath, args = []) {
+      return record({ kind: "scriptFile", source: scriptPath, args }, () => backend.runScriptFile(scriptPath, args), signal);
+    },
+
+    querySqlite<T = Record<string, unknown>>(dbPath: string, sql: string): Promise<T[]> {
+      return record({ kind: "sqlite", source: sql, args: [dbPath] }, () => backend.querySqlite<T>(dbPath, sql), signal);
+    },
+
+    withSignal(callSignal) {
+      return wrap(backend.withSignal(callSignal), callSignal);
+    },
+  });
+
+  return wrap(inner);
+}
+
+/**
+ * Create a backend that answers from recorded fixtures instead of running anything, so
+ * the utils modules and handlers parse real app output on any OS.
+ *
+ * A call gets the fixtures recorded for the same source and arguments, in order, the last
+ * one repeating. Failing that, it gets those recorded for the same source with other
+ * arguments, as arguments often hold the current time (e.g. the range a calendar search
+ * defaults to). Anything else fails the way a missing fake reply does, and so does a
+ * script file that doesn't exist, as it would under osascript.
+ */
+export function createReplayBackend(fixtures: Fixture[]): ReplayBackend {
+  const byCall = new Map<string, Fixture[]>();
+  const bySource = new Map<string, Fixture[]>();
+  for (const fixture of fixtures) {
+    byCall.set(callKey(fixture), [...byCall.get(callKey(fixture)) ?? [], fixture]);
+    bySource.set(sourceKey(fixture), [...bySource.get(sourceKey(fixture)) ?? [], fixture]);
+  }
+  // How many fixtures of each group have been served
+  const served = new Map<Fixture[], number>();
+  const misses: FixtureCall[] = [];
+
+  const next = (group: Fixture[]): Fixture => {
+    const index = served.get(group) ?? 0;
+    served.set(group, index + 1);
+    return group[Math.min(index, group.length - 1)];
+  };
+
+  const replay = async <R>(rawCall: FixtureCall): Promise<R> => {
+    const call = normalize(rawCall);
+    const exact = byCall.get(callKey(call));
+    const similar = exact ? undefined : bySource.get(sourceKey(call));
+    if (!exact && !similar) {
+      misses.push(call);
+      throw new Error(`No fixture for ${call.kind}: ${firstLine(call.source)}`);
+    }
+    if (similar) {
+      log.debug(`No fixture with the same arguments for ${call.kind}: ${firstLine(call.source)}; replaying one with other arguments`);
+    }
+    const fixture = next((exact ?? similar)!);
+    if (fixture.error !== undefined) {
+      throw new Error(fixture.error);
+    }
+    return structuredClone(fixture.result) as R;
+  };
+
+  const backend: ReplayBackend = {
+    name: "replay",
+    misses,
+
+    runJxa<R = unknown>(fn: (...args: any[]) => unknown, ...args: any[]): Promise<R> {
+      return replay<R>({ kind: "jxa", source: fn.toString(), args: JSON.parse(JSON.stringify(args)) });
+    },
+
+    runAppleScript(script) {
+      return replay<string>({ kind: "applescript", source: script, args: [] });
+    },
+
+    runScriptFile(scriptPath, args = []) {
+      // Fixtures only hold the file name, so a path osascript couldn't open would still replay
+      if (!existsSync(scriptPath)) {
+        return Promise.reject(new Error(`Script file not found: ${scriptPath}`));
+      }
+      return replay<string>({ kind: "scriptFile", source: scriptPath, args });
+    },
+
+    querySqlite<T = Record<string, unknown>>(dbPath: string, sql: string): Promise<T[]> {
+      return replay<T[]>({ kind: "sqlite", source: sql, args: [dbPath] });
+    },
+
+    // Same fixtures and misses; calls made after `signal` fires fail like a killed osascript would
+    withSignal(signal) {
+      return {
+        ...backend,
+        runJxa: (fn, ...args) => { signal.throwIfAborted(); return backend.runJxa(fn, ...args); },
+        runAppleScript: script => { signal.throwIfAborted(); return backend.runAppleScript(script); },
+        runScriptFile: (scriptPath, args) => { signal.throwIfAborted(); return backend.runScriptFile(scriptPath, args); },
+        querySqlite: (dbPath, sql) => { signal.throwIfAborted(); return backend.querySqlite(dbPath, sql); },
+      };
+    },
+  };
+
+  return backend;
+}
@@ -0,0 +1,48 @@
+import { readFileSync } from "node:fs";
+import type { AutomationBackend } from "../types";
+import { osascriptBackend } from "./osascriptBackend";
+import { createFakeBackend, createSampleFakeData, type FakeSeed } from "./fakeBackend";
+import { createRecordingBackend, createReplayBackend, loadFixtures } from "./fixtureBackend";
+
+export { osascriptBackend } from "./osascriptBackend";
+export { createFakeBackend, createSampleFakeData } from "./fakeBackend";
+export { createDryRunBackend } from "./dryRunBackend";
+export { createRecordingBackend, createReplayBackend, loadFixtures } from "./fixtureBackend";
+export { createScheduledBackend, type ScheduledBackendOptions } from "./scheduledBackend";
+export type { FakeBackend, FakeAppData, FakeSeed, FakeCall } from "./fakeBackend";
+export type { DryRunBackend, PlannedCall } from "./dryRunBackend";
+export type { Fixture, FixtureCall, ReplayBackend } from "./fixtureBackend";
+
+/**
+ * Pick the automation backend from the environment.
+ * APPLE_MCP_BACKEND=fake serves in-memory data instead of the real apps;
+ * APPLE_MCP_FAKE_DATA points at a JSON seed for it (defaults to the sample data).
+ * APPLE_MCP_BACKEND=record drives the real apps and appends every call to the
+ * APPLE_MCP_FIXTURES file; APPLE_MCP_BACKEND=replay answers from that file instead.
+ */
+export function createBackendFromEnv(env: NodeJS.ProcessEnv = process.env): AutomationBackend {
+  const kind = env.APPLE_MCP_BACKEND || "osascript";
+
+  switch (kind) {
+    case "osascript":
+      return osascriptBackend;
+    case "fake": {
+      const seed: FakeSeed = env.APPLE_MCP_FAKE_DATA
+        ? JSON.parse(readFileSync(env.APPLE_MCP_FAKE_DATA, "utf8"))
+        : createSampleFakeData();
+      return createFakeBackend(seed);
+    }
+    case "record":
+    case "replay": {
+      const fixturesPath = env.APPLE_MCP_FIXTURES;
+      if (!fixturesPath) {
+        throw new Error(`APPLE_MCP_BACKEND=${kind} needs APPLE_MCP_FIXTURES set to the fixtures file`);
+      }
+      return kind === "record" ?
+        createRecordingBackend(osascriptBackend, fixturesPath) :
+        createReplayBackend(loadFixtures(fixturesPath));
+    }
+    default:
+      throw new Error(`Unknown automation backend "${kind}". Use "osascript", "fake", "record" or "replay".`);
+  }
+}
@@ -0,0 +1,94 @@
+import { runAppleScript } from "run-applescript";
+import { execFile } from "node:child_process";
+import { access } from "node:fs/promises";
+import { promisify } from "node:util";
+import type { AutomationBackend } from "../types";
+import { createLogger } from "../logger";
+
+const log = createLogger("backends/osascript");
+
+const execFileAsync = promisify(execFile);
+
+// Same as @jxa/run: results can be large (e.g. every note's body)
+const JXA_MAX_BUFFER = 100 * 1000 * 1000;
+
+// Run a JXA function in osascript the way @jxa/run does, but killable through `signal`
+function runJxaFunction<R>(fn: (...args: any[]) => unknown, args: unknown[], signal?: AbortSignal): Promise<R> {
+  const code = `
+ObjC.import('stdlib');
+var args = JSON.parse($.getenv('OSA_ARGS'));
+var fn   = (${fn.toString()});
+var out  = fn.apply(null, args);
+JSON.stringify({ result: out });
+`;
+
+  return new Promise<R>((resolve, reject) => {
+    const child = execFile(
+      "/usr/bin/osascript",
+      ["-l", "JavaScript"],
+      { env: { OSA_ARGS: JSON.stringify(args) }, maxBuffer: JXA_MAX_BUFFER, signal },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        if (stderr) {
+          log.debug("JXA stderr", stderr.trim());
+        }
+        const output = stdout.toString().trim();
+        if (!output) {
+          resolve(undefined as R);
+          return;
+        }
+        try {
+          resolve(JSON.parse(output).result as R);
+        } catch {
+          resolve(output as R);
+        }
+      }
+    );
+    child.stdin?.end(code);
+  });
+}
+
+/**
+ * Create a backend that drives the real apps through osascript and sqlite3. macOS only.
+ * With a `signal`, aborting it kills the running child process.
+ */
+export function createOsascriptBackend(signal?: AbortSignal): AutomationBackend {
+  return {
+    name: "osascript",
+
+    runJxa<R = unknown>(fn: (...args: any[]) => unknown, ...args: any[]): Promise<R> {
+      return runJxaFunction<R>(fn, args, signal);
+    },
+
+    async runAppleScript(script) {
+      return await runAppleScript(script, { signal });
+    },
+
+    async runScriptFile(scriptPath, args = []) {
+      const { stdout, stderr } = await execFileAsync("osascript", [scriptPath, ...args], { signal });
+      if (stderr) {
+        log.warning(`AppleScript stderr: ${stderr}`);
+      }
+      return stdout.trim();
+    },
+
+    async querySqlite<T = Record<string, unknown>>(dbPath: string, sql: string): Promise<T[]> {
+      // sqlite3 happily creates a missing database, so check it exists (and is readable) first
+      await access(dbPath);
+      const { stdout } = await execFileAsync("sqlite3", ["-json", dbPath, sql], { signal });
+      if (!stdout.trim()) {
+        return [];
+      }
+      return JSON.parse(stdout) as T[];
+    },
+
+    withSignal(callSignal) {
+      return createOsascriptBackend(callSignal);
+    },
+  };
+}
+
+export const osascriptBackend: AutomationBackend = createOsascriptBackend();
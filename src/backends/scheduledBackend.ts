@@ -0,0 +1,76 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import type { AutomationBackend } from "../types";
+import type { Scheduler } from "../scheduler";
+
+export interface ScheduledBackendOptions {
+  // Join identical calls already in flight; only safe for calls that don't change anything
+  shareInFlight: boolean;
+  // Stop waiting in the queue when this fires
+  signal?: AbortSignal;
+}
+
+// The first app a script addresses, as in `Application("Mail")` or `tell application "Mail"`
+const APP_PATTERN = /Application\(\s*["'`]([^"'`]+)["'`]\s*\)|application\s+"([^"]+)"/i;
+
+const scriptFileApps = new Map<string, string>();
+
+function appOf(source: string): string {
+  const match = source.match(APP_PATTERN);
+  return match?.[1] ?? match?.[2] ?? "other";
+}
+
+function appOfScriptFile(scriptPath: string): string {
+  let app = scriptFileApps.get(scriptPath);
+  if (!app) {
+    try {
+      app = appOf(readFileSync(scriptPath, "utf8"));
+    } catch {
+      app = "other";
+    }
+    scriptFileApps.set(scriptPath, app);
+  }
+  return app;
+}
+
+/**
+ * Wrap a backend so its scripts go through `scheduler`, queued per target app.
+ * sqlite3 queries are queued per database file.
+ */
+export function createScheduledBackend(
+  inner: AutomationBackend,
+  scheduler: Scheduler,
+  options: ScheduledBackendOptions
+): AutomationBackend {
+  const { shareInFlight, signal } = options;
+
+  const schedule = <T>(app: string, call: unknown[], task: () => Promise<T>): Promise<T> =>
+    shareInFlight ?
+      scheduler.runShared(app, JSON.stringify([inner.name, ...call]), task, signal) :
+      scheduler.run(app, task, signal);
+
+  return {
+    name: inner.name,
+
+    runJxa<R = unknown>(fn: (...args: any[]) => unknown, ...args: any[]): Promise<R> {
+      const source = fn.toString();
+      return schedule(appOf(source), ["jxa", source, args], () => inner.runJxa<R>(fn, ...args));
+    },
+
+    runAppleScript(script) {
+      return schedule(appOf(script), ["applescript", script], () => inner.runAppleScript(script));
+    },
+
+    runScriptFile(scriptPath, args = []) {
+      return schedule(appOfScriptFile(scriptPath), ["scriptFile", scriptPath, args], () => inner.runScriptFile(scriptPath, args));
+    },
+
+    querySqlite<T = Record<string, unknown>>(dbPath: string, sql: string): Promise<T[]> {
+      return schedule(`sqlite:${path.basename(dbPath)}`, ["sqlite", dbPath, sql], () => inner.querySqlite<T>(dbPath, sql));
+    },
+
+    withSignal(signal) {
+      return createScheduledBackend(inner.withSignal(signal), scheduler, { shareInFlight, signal });
+    },
+  };
+}
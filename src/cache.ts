@@ -0,0 +1,86 @@
+import { z } from "zod";
+
+// Accepted by every read operation whose answer may come from the cache
+export const CacheArgSchema = z.enum(["bypass"]).optional()
+  .describe("Set to \"bypass\" to query the app even if a cached answer is still fresh");
+
+/**
+ * Module functions whose results are cached: how long a result stays fresh by
+ * default, and the tool operations after which it is dropped
+ */
+export const CACHED_FUNCTIONS: Record<string, { ttlMs: number; invalidatedBy: string[] }> = {
+  "contacts.getAllNumbers": { ttlMs: 5 * 60 * 1000, invalidatedBy: [] },
+  "notes.listFolders": { ttlMs: 60 * 1000, invalidatedBy: ["notes.create", "notes.createFolder"] },
+  // Creating a reminder creates its list when it doesn't exist yet
+  "reminders.getAllLists": { ttlMs: 60 * 1000, invalidatedBy: ["reminders.create"] },
+  "mail.getAccounts": { ttlMs: 5 * 60 * 1000, invalidatedBy: [] },
+  "mail.getMailboxes": { ttlMs: 5 * 60 * 1000, invalidatedBy: [] },
+  "mail.getMailboxesForAccount": { ttlMs: 5 * 60 * 1000, invalidatedBy: [] },
+};
+
+export interface ResponseCache {
+  // The cached result of `fn(...args)`, calling `load` when it's missing, stale or bypassed
+  get<T>(fn: string, args: unknown[], load: () => Promise<T>, bypass?: boolean): Promise<T>;
+  // Drop every result the tool operation may have changed
+  invalidateAfter(tool: string, operation: string): void;
+}
+
+// What a module loader needs to serve cached functions for one call
+export interface CacheAccess {
+  cache: ResponseCache;
+  bypass: boolean;
+}
+
+/**
+ * Create the cache. `ttlMs` overrides the default lifetime per function,
+ * keyed like CACHED_FUNCTIONS ("notes.listFolders").
+ */
+export function createResponseCache(ttlMs: Record<string, number> = {}): ResponseCache {
+  const entries = new Map<string, { fn: string; value: unknown; expiresAt: number }>();
+
+  return {
+    async get<T>(fn: string, args: unknown[], load: () => Promise<T>, bypass = false): Promise<T> {
+      const key = JSON.stringify([fn, args]);
+      const entry = entries.get(key);
+      if (!bypass && entry && entry.expiresAt > Date.now()) {
+        // Callers get their own copy, so one can't change another's answer
+        return structuredClone(entry.value) as T;
+      }
+
+      // Failures aren't cached; the next call tries again
+      const value = await load();
+      entries.set(key, { fn, value: structuredClone(value), expiresAt: Date.now() + (ttlMs[fn] ?? CACHED_FUNCTIONS[fn].ttlMs) });
+      return value;
+    },
+
+    invalidateAfter(tool, operation) {
+      const write = `${tool}.${operation}`;
+      for (const [key, entry] of entries) {
+        if (CACHED_FUNCTIONS[entry.fn].invalidatedBy.includes(write)) {
+          entries.delete(key);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Route a module's cached functions through the cache. They're replaced on the module
+ * itself, because its other functions look them up there (findContactByPhone reads every
+ * number through `getAllNumbers`). Without `access` (e.g. on a dry run) the module is left as is.
+ */
+export function withCache<M extends Record<string, any>>(moduleName: string, module: M, access?: CacheAccess): M {
+  if (!access) {
+    return module;
+  }
+
+  const functions = module as Record<string, unknown>;
+  for (const fn of Object.keys(CACHED_FUNCTIONS)) {
+    const [owner, name] = fn.split(".");
+    const uncached = functions[name];
+    if (owner === moduleName && typeof uncached === "function") {
+      functions[name] = (...args: unknown[]) => access.cache.get(fn, args, () => uncached(...args), access.bypass);
+    }
+  }
+  return module;
+}
@@ -0,0 +1,191 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ElicitRequestSchema, type ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import { createInterface } from "node:readline/promises";
+import { SERVER_VERSION } from "./version";
+
+export const CLI_COMMANDS = ["call", "tools", "doctor"] as const;
+
+export type CliCommand = (typeof CLI_COMMANDS)[number];
+
+export interface CliOptions {
+  // Operation of `call`, merged into the arguments
+  op?: string;
+  // Arguments of `call` as a JSON object
+  json?: string;
+  // Approve sends without asking, for scripts and cron jobs
+  yes?: boolean;
+}
+
+export const CLI_USAGE = `Usage:
+  apple-mcp [--transport stdio|http] ...          Run the MCP server
+  apple-mcp call <tool> [--op <operation>] [--json '<arguments>'] [--yes]
+                                                  Call a tool once and print its text;
+                                                  --yes sends messages and email without asking
+  apple-mcp tools [<tool>]                        Print the enabled tools and their schemas as JSON
+  apple-mcp doctor                                Check permissions and setup (the diagnostics tool)`;
+
+// How long past the server's own deadline for a call to wait, so its timeout error arrives first
+const RESPONSE_MARGIN_MS = 5000;
+
+// Longest delay setTimeout takes; the SDK's request timer is pushed out to it as `CallTimer` keeps time instead
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Gives up on a call that gets no answer in time, counting neither the time spent on a y/N prompt nor that before the last progress
+interface CallTimer {
+  signal: AbortSignal;
+  // Count from zero again
+  restart(): void;
+  // Stop counting until the next restart
+  pause(): void;
+}
+
+function createCallTimer(name: string, timeoutMs: number): CallTimer {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const pause = () => clearTimeout(timer);
+  const restart = () => {
+    pause();
+    timer = setTimeout(() => controller.abort(new Error(`No answer from ${name} within ${Math.round(timeoutMs / 1000)} s`)), timeoutMs);
+  };
+  restart();
+  return { signal: controller.signal, restart, pause };
+}
+
+export function isCliCommand(command: string): command is CliCommand {
+  return (CLI_COMMANDS as readonly string[]).includes(command);
+}
+
+// Confirm a send: --yes approves it, a terminal asks, anything else declines
+async function confirmOnTerminal(message: string, options: CliOptions): Promise<ElicitResult> {
+  if (options.yes) {
+    return { action: "accept", content: { confirm: true } };
+  }
+  if (!process.stdin.isTTY) {
+    console.error(`${message}\n\nNot sent: pass --yes to send without a terminal to confirm on.`);
+    return { action: "decline" };
+  }
+  const terminal = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    const answer = await terminal.question(`${message}\n\nSend? [y/N] `);
+    return /^y(es)?$/i.test(answer.trim()) ? { action: "accept", content: { confirm: true } } : { action: "decline" };
+  } finally {
+    terminal.close();
+  }
+}
+
+function parseArguments(options: CliOptions): Record<string, unknown> {
+  let args: unknown = {};
+  if (options.json) {
+    try {
+      args = JSON.parse(options.json);
+    } catch (error) {
+      throw new Error(`--json is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (!args || typeof args !== "object" || Array.isArray(args)) {
+    throw new Error("--json must be a JSON object of tool arguments");
+  }
+  return options.op ? { ...args, operation: options.op } : args as Record<string, unknown>;
+}
+
+/**
+ * Run one CLI command against `server` and return the process exit code:
+ * 0 on success, 1 when the tool reported an error or doctor found problems, 2 on bad usage.
+ *
+ * The command talks MCP to the server in-process, so a call goes through exactly the
+ * checks, confirmation, audit log and output handling an assistant's call does. Sends
+ * are confirmed through elicitation like in any client that supports it, answered on
+ * the terminal (see `confirmOnTerminal`); a confirm token wouldn't outlive the process.
+ * A call is given up on `timeoutMs` of its tool and operation after it was sent, the
+ * last progress or the answer to a prompt, whichever came last.
+ */
+export async function runCli(
+  command: CliCommand,
+  positionals: string[],
+  options: CliOptions,
+  server: Server,
+  timeoutMs: (tool: string, operation?: string) => number
+): Promise<number> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "apple-mcp-cli", version: SERVER_VERSION }, { capabilities: { elicitation: {} } });
+
+  let callTimer: CallTimer | undefined;
+  client.setRequestHandler(ElicitRequestSchema, async request => {
+    callTimer?.pause();
+    try {
+      return await confirmOnTerminal(request.params.message, options);
+    } finally {
+      callTimer?.restart();
+    }
+  });
+
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const operation = typeof args.operation === "string" ? args.operation : undefined;
+    const timer = createCallTimer(name, timeoutMs(name, operation) + RESPONSE_MARGIN_MS);
+    callTimer = timer;
+    try {
+      return await client.callTool({ name, arguments: args }, undefined, {
+        signal: timer.signal,
+        timeout: MAX_TIMER_MS,
+        onprogress: () => timer.restart(),
+      });
+    } finally {
+      timer.pause();
+      callTimer = undefined;
+    }
+  };
+
+  try {
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    switch (command) {
+      case "call": {
+        const [name] = positionals;
+        if (!name) {
+          console.error(CLI_USAGE);
+          return 2;
+        }
+        let args: Record<string, unknown>;
+        try {
+          args = parseArguments(options);
+        } catch (error) {
+          console.error(error instanceof Error ? error.message : String(error));
+          return 2;
+        }
+        const result = await callTool(name, args);
+        const content = Array.isArray(result.content) ? result.content : [];
+        console.log(content.map(item => item.type === "text" ? item.text : JSON.stringify(item)).join("\n"));
+        return result.isError ? 1 : 0;
+      }
+
+      case "tools": {
+        const [name] = positionals;
+        const { tools } = await client.listTools();
+        if (!name) {
+          console.log(JSON.stringify(tools, null, 2));
+          return 0;
+        }
+        const tool = tools.find(t => t.name === name);
+        if (!tool) {
+          console.error(`Unknown or disabled tool "${name}". Enabled: ${tools.map(t => t.name).join(", ")}`);
+          return 2;
+        }
+        console.log(JSON.stringify(tool, null, 2));
+        return 0;
+      }
+
+      case "doctor": {
+        const result = await callTool("diagnostics", { operation: "check" });
+        const content = Array.isArray(result.content) ? result.content : [];
+        console.log(content.map(item => item.type === "text" ? item.text : "").join("\n"));
+        const remediation = (result.structuredContent as { remediation?: unknown[] } | undefined)?.remediation;
+        return result.isError || (remediation?.length ?? 0) > 0 ? 1 : 0;
+      }
+    }
+  } finally {
+    await client.close();
+  }
+}
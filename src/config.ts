@@ -0,0 +1,151 @@
+import { z } from "zod";
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+import { LogLevelSchema, createLogger } from "./logger";
+
+const log = createLogger("config");
+
+export const TOOL_NAMES = ["contacts", "notes", "messages", "mail", "reminders", "webSearch", "calendar", "maps", "audit", "metrics", "diagnostics"] as const;
+
+export type ToolName = (typeof TOOL_NAMES)[number];
+
+// Operations that change app data or act on the user's behalf, refused in read-only mode
+export const WRITE_OPERATIONS: ReadonlySet<string> = new Set([
+  "send", "schedule", "create", "createFolder", "save", "pin", "addToGuide", "createGuide", "setCenter",
+]);
+
+const ToolConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  // Only these operations are advertised and accepted; all operations when omitted
+  operations: z.array(z.string().min(1)).optional(),
+}).strict();
+
+export const ConfigSchema = z.object({
+  // Hide and refuse every write operation, e.g. for shared or demo setups
+  readOnly: z.boolean().default(false),
+  // Ask the user before a message or email is sent (elicitation, or a confirm token as fallback)
+  confirmOutbound: z.boolean().default(true),
+  // Most characters of text a tool call returns, unless the call sets maxOutputChars itself
+  maxOutputChars: z.number().int().positive().default(20000),
+  // Keyed by built-in or plugin tool name; unknown names are rejected once the plugins are loaded
+  tools: z.record(z.string(), ToolConfigSchema).default({}),
+  // Extra tools: every .ts, .js or .mjs file in `directory` (a "plugins" folder next to this file by default)
+  // and every entry of `packages` (package names, or paths relative to this file). `options` are per plugin tool.
+  plugins: z.object({
+    directory: z.string().min(1).optional(),
+    packages: z.array(z.string().min(1)).default([]),
+    options: z.record(z.string(), z.unknown()).default({}),
+  }).strict().default({}),
+  // JSONL log of every write operation; $XDG_STATE_HOME/apple-mcp/audit.jsonl unless `path` is set
+  auditLog: z.object({
+    enabled: z.boolean().default(true),
+    path: z.string().min(1).optional(),
+  }).strict().default({}),
+  notes: z.object({
+    defaultFolder: z.string().min(1).default("Claude"),
+  }).strict().default({}),
+  calendar: z.object({
+    // Calendar to create events in when none is given; the app's default calendar otherwise
+    defaultCalendar: z.string().min(1).optional(),
+    maxEventsPerCalendar: z.number().int().positive().default(50),
+  }).strict().default({}),
+  reminders: z.object({
+    defaultList: z.string().min(1).default("Reminders"),
+  }).strict().default({}),
+  timeouts: z.object({
+    // Applies to every tool call, resource read and prompt unless overridden below
+    defaultMs: z.number().int().positive().default(60000),
+    // Per tool ("mail") or per operation ("mail.search")
+    operations: z.record(z.string(), z.number().int().positive()).default({}),
+  }).strict().default({}),
+  cache: z.object({
+    enabled: z.boolean().default(true),
+    // Lifetime per cached function ("notes.listFolders"), overriding the built-in one
+    ttlMs: z.record(z.string(), z.number().int().nonnegative()).default({}),
+  }).strict().default({}),
+  // How many scripts may run at once against one app; others wait their turn
+  queue: z.object({
+    concurrency: z.number().int().positive().default(1),
+    // Per app, by the name scripts address it with ("Mail", "Contacts")
+    apps: z.record(z.string(), z.number().int().positive()).default({}),
+  }).strict().default({}),
+  logging: z.object({
+    // Least severe level written to stderr and the file; MCP clients pick their own with logging/setLevel
+    level: LogLevelSchema.default("info"),
+    // JSON lines log, rotated by size, in addition to stderr
+    file: z.object({
+      path: z.string().min(1),
+      maxBytes: z.number().int().positive().default(5 * 1024 * 1024),
+      maxFiles: z.number().int().nonnegative().default(3),
+    }).strict().optional(),
+  }).strict().default({}),
+  webSearch: z.object({
+    maxResults: z.number().int().positive().default(5),
+    searchTimeoutMs: z.number().int().positive().default(10000),
+    contentTimeoutMs: z.number().int().positive().default(15000),
+  }).strict().default({}),
+}).strict();
+
+export type Config = z.infer<typeof ConfigSchema>;
+
+export const DEFAULT_CONFIG: Config = ConfigSchema.parse({});
+
+/**
+ * Where the config file lives: $APPLE_MCP_CONFIG, or ~/.config/apple-mcp/config.json
+ */
+export function getConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.APPLE_MCP_CONFIG) {
+    return env.APPLE_MCP_CONFIG;
+  }
+  const configHome = env.XDG_CONFIG_HOME || path.join(homedir(), ".config");
+  return path.join(configHome, "apple-mcp", "config.json");
+}
+
+/**
+ * Load and validate the config file. A missing file means all defaults;
+ * a file that isn't valid JSON or doesn't match the schema is an error.
+ */
+export function loadConfig(configPath: string = getConfigPath()): Config {
+  let text: string;
+  try {
+    text = readFileSync(configPath, "utf8");
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      log.info(`No config file at ${configPath}, using defaults`);
+      return DEFAULT_CONFIG;
+    }
+    throw new Error(`Cannot read config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Config file ${configPath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = ConfigSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid config file ${configPath}: ${result.error.errors.map(e => `${e.path.join('.') || '(root)'}: ${e.message}`).join(', ')}`);
+  }
+  log.info(`Loaded config from ${configPath}`);
+  return result.data;
+}
+
+export function isToolEnabled(config: Config, tool: string): boolean {
+  return config.tools[tool]?.enabled ?? true;
+}
+
+export function isWriteOperation(operation: string): boolean {
+  return WRITE_OPERATIONS.has(operation);
+}
+
+// `isWrite` tells plugin tools' write operations apart, which the built-in list doesn't know
+export function isOperationEnabled(config: Config, tool: string, operation: string, isWrite = isWriteOperation(operation)): boolean {
+  if (config.readOnly && isWrite) {
+    return false;
+  }
+  const operations = config.tools[tool]?.operations;
+  return isToolEnabled(config, tool) && (!operations || operations.includes(operation));
+}
@@ -0,0 +1,152 @@
+import { randomUUID } from "node:crypto";
+import type { ElicitRequestFormParams, ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import type { LoadModuleFunction, ToolResult } from "./types";
+import { createLogger } from "./logger";
+
+const log = createLogger("confirmation");
+
+// How long a confirm token from the two-step fallback stays valid
+const CONFIRM_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+export type OutboundArgs = { operation: string; confirmToken?: string; dryRun?: boolean } & Record<string, unknown>;
+
+export interface ConfirmationContext {
+  // Ask the user through the client; undefined when the client doesn't support elicitation
+  elicit?: (params: ElicitRequestFormParams) => Promise<ElicitResult>;
+  pending: PendingActions;
+  loadModule: LoadModuleFunction;
+}
+
+export interface PendingActions {
+  // Remember an action and return the token that confirms it
+  issue(fingerprint: string): { token: string; expiresAt: Date };
+  // Consume a token; true if it was issued for exactly this action and hasn't expired
+  redeem(token: string, fingerprint: string): boolean;
+}
+
+/**
+ * Create the store of actions waiting for a confirm token. Tokens are single-use.
+ */
+export function createPendingActions(ttlMs = CONFIRM_TOKEN_TTL_MS): PendingActions {
+  const pending = new Map<string, { fingerprint: string; expiresAt: number }>();
+
+  return {
+    issue(fingerprint) {
+      const now = Date.now();
+      for (const [token, action] of pending) {
+        if (action.expiresAt <= now) pending.delete(token);
+      }
+      const token = randomUUID();
+      pending.set(token, { fingerprint, expiresAt: now + ttlMs });
+      return { token, expiresAt: new Date(now + ttlMs) };
+    },
+    redeem(token, fingerprint) {
+      const action = pending.get(token);
+      pending.delete(token);
+      return !!action && action.fingerprint === fingerprint && action.expiresAt > Date.now();
+    },
+  };
+}
+
+function isOutbound(tool: string, operation: string): boolean {
+  return (tool === "messages" && (operation === "send" || operation === "schedule")) ||
+    (tool === "mail" && operation === "send");
+}
+
+// The exact action a token confirms: everything but the token itself
+function fingerprint(tool: string, args: OutboundArgs): string {
+  const { confirmToken: _, ...action } = args;
+  return JSON.stringify([tool, action]);
+}
+
+// Spell out who gets what, so the user can catch a wrong recipient before anything is sent
+async function describeOutbound(tool: string, args: OutboundArgs, loadModule: LoadModuleFunction): Promise<string> {
+  if (tool === "messages") {
+    const recipient = String(args.phoneNumber);
+    let name: string | null = null;
+    if (/\d/.test(recipient)) {
+      try {
+        name = await (await loadModule("contacts")).findContactByPhone(recipient);
+      } catch (error) {
+        log.warning("Could not resolve message recipient", error);
+      }
+    }
+    return `To: ${recipient} (${name ?? "not in Contacts"})\n` +
+      `${args.scheduledTime ? `Send at: ${args.scheduledTime}\n` : ""}` +
+      `\n${args.message}`;
+  }
+
+  return `To: ${args.to}\n` +
+    `${args.cc ? `CC: ${args.cc}\n` : ""}` +
+    `${args.bcc ? `BCC: ${args.bcc}\n` : ""}` +
+    `Subject: ${args.subject}\n` +
+    `\n${args.body}`;
+}
+
+function notSent(text: string): ToolResult {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+/**
+ * Get the user's go-ahead for a message or email before it leaves the machine.
+ *
+ * Clients with elicitation get a confirmation form. Other clients get a confirm
+ * token back instead of a send; repeating the exact same call with `confirmToken`
+ * set sends it. Returns null when the call may proceed, otherwise the result to
+ * return in its place.
+ */
+export async function confirmOutbound(
+  tool: string,
+  args: OutboundArgs,
+  context: ConfirmationContext
+): Promise<ToolResult | null> {
+  // Dry runs send nothing, so there is nothing to confirm
+  if (!isOutbound(tool, args.operation) || args.dryRun === true) {
+    return null;
+  }
+
+  const action = fingerprint(tool, args);
+  if (args.confirmToken) {
+    return context.pending.redeem(args.confirmToken, action) ? null :
+      notSent("Nothing was sent: the confirm token is unknown, expired, already used, or was issued for different arguments.");
+  }
+
+  const what = tool === "mail" ? "email" : "message";
+  const summary = await describeOutbound(tool, args, context.loadModule);
+
+  if (context.elicit) {
+    try {
+      const answer = await context.elicit({
+        message: `Send this ${what}?\n\n${summary}`,
+        requestedSchema: {
+          type: "object",
+          properties: {
+            confirm: { type: "boolean", title: `Send ${what}`, description: `Check to send the ${what} exactly as shown` },
+          },
+          required: ["confirm"],
+        },
+      });
+      if (answer.action === "accept" && answer.content?.confirm === true) {
+        return null;
+      }
+      return notSent(`Nothing was sent: the user ${answer.action === "cancel" ? "dismissed" : "declined"} the ${what}.`);
+    } catch (error) {
+      log.warning("Elicitation failed, falling back to a confirm token", error);
+    }
+  }
+
+  const { token, expiresAt } = context.pending.issue(action);
+  return {
+    content: [{
+      type: "text",
+      text: `Nothing was sent yet. Show the user this ${what} and ask for approval:\n\n${summary}\n\n` +
+        `If they approve, repeat the same call with confirmToken "${token}" (valid until ${expiresAt.toISOString()}).`
+    }],
+    structuredContent: {
+      operation: args.operation,
+      confirmToken: token,
+      ...(tool === "messages" ? { phoneNumber: args.phoneNumber } : {}),
+    },
+    isError: false,
+  };
+}
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import type { PlannedCall } from "./backends/dryRunBackend";
+import type { ToolResult } from "./types";
+
+// Accepted by every write operation
+export const DryRunArgSchema = z.boolean().optional()
+  .describe("Only validate and return the scripts that would run, without changing anything");
+
+// Returned in place of the write's usual result on a dry run
+export const DryRunResultSchema = z.object({
+  calls: z.array(z.object({
+    kind: z.enum(["jxa", "applescript", "scriptFile", "sqlite"]),
+    source: z.string().describe("JXA function, AppleScript source, script file path or SQL"),
+    args: z.array(z.unknown()).describe("Arguments the script would receive, with defaults resolved"),
+  })),
+}).describe("What a dry run would have executed, in order");
+
+function describeCall(call: PlannedCall, index: number): string {
+  const label = { jxa: "JXA", applescript: "AppleScript", scriptFile: "Script file", sqlite: "SQL" }[call.kind];
+  const args = call.args.length > 0 ? ` with arguments ${JSON.stringify(call.args)}` : "";
+  return `${index + 1}. ${label}${args}:\n${call.source.trim()}`;
+}
+
+/**
+ * Turn the calls recorded during a dry run into the tool result
+ */
+export function dryRunResult(tool: string, operation: string, calls: PlannedCall[]): ToolResult {
+  return {
+    content: [{
+      type: "text",
+      text: `Dry run of ${tool}.${operation}: nothing was changed. ` +
+        (calls.length > 0 ?
+          `It would run:\n\n${calls.map(describeCall).join("\n\n")}` :
+          "No scripts would run right away.")
+    }],
+    structuredContent: {
+      operation,
+      // Maps results always carry success
+      ...(tool === "maps" ? { success: true } : {}),
+      dryRun: { calls },
+    },
+    isError: false,
+  };
+}
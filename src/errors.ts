@@ -0,0 +1,178 @@
+import { z } from "zod";
+import type { ToolResult } from "./types";
+
+export const ERROR_CODES = [
+  "PERMISSION_DENIED",
+  "APP_NOT_RUNNING",
+  "NOT_FOUND",
+  "TIMEOUT",
+  "INVALID_INPUT",
+  "SCRIPT_FAILURE",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+// Which macOS permission a PermissionDeniedError is missing; "config" when the server's own config refused the call
+export type Permission = "automation" | "fullDiskAccess" | "config";
+
+// Returned as `structuredContent.error` by every tool call that fails
+export const ToolErrorSchema = z.object({
+  code: z.enum(ERROR_CODES),
+  message: z.string(),
+  app: z.string().optional().describe("App the error came from, e.g. 'Messages'"),
+  hint: z.string().optional().describe("What the user can do about it"),
+}).describe("Set instead of the usual fields when the call failed");
+
+export type ToolError = z.infer<typeof ToolErrorSchema>;
+
+interface AppleMcpErrorOptions {
+  app?: string;
+  hint?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base of the errors the utils modules and handlers throw on purpose.
+ * Plain errors (osascript failures, sqlite3 exits) are classified by `describeError` instead.
+ */
+export class AppleMcpError extends Error {
+  readonly code: ErrorCode;
+  readonly app?: string;
+  readonly hint?: string;
+
+  constructor(code: ErrorCode, message: string, options: AppleMcpErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.app = options.app;
+    this.hint = options.hint;
+  }
+}
+
+export class PermissionDeniedError extends AppleMcpError {
+  readonly permission: Permission;
+
+  constructor(message: string, options: AppleMcpErrorOptions & { permission?: Permission } = {}) {
+    const permission = options.permission ?? "automation";
+    super("PERMISSION_DENIED", message, { hint: permissionHint(permission, options.app), ...options });
+    this.permission = permission;
+  }
+}
+
+export class AppNotRunningError extends AppleMcpError {
+  constructor(message: string, options: AppleMcpErrorOptions = {}) {
+    super("APP_NOT_RUNNING", message, options);
+  }
+}
+
+export class NotFoundError extends AppleMcpError {
+  constructor(message: string, options: AppleMcpErrorOptions = {}) {
+    super("NOT_FOUND", message, options);
+  }
+}
+
+export class TimeoutError extends AppleMcpError {
+  constructor(message: string, options: AppleMcpErrorOptions = {}) {
+    super("TIMEOUT", message, options);
+  }
+}
+
+export class InvalidInputError extends AppleMcpError {
+  constructor(message: string, options: AppleMcpErrorOptions = {}) {
+    super("INVALID_INPUT", message, options);
+  }
+}
+
+export class ScriptFailureError extends AppleMcpError {
+  constructor(message: string, options: AppleMcpErrorOptions = {}) {
+    super("SCRIPT_FAILURE", message, options);
+  }
+}
+
+function permissionHint(permission: Permission, app?: string): string {
+  switch (permission) {
+    case "fullDiskAccess":
+      return "Grant Full Disk Access to the app running this server in System Settings > Privacy & Security > Full Disk Access, then restart it";
+    case "automation":
+      return `Allow the app running this server to control ${app ?? "the app"} in System Settings > Privacy & Security > Automation`;
+    case "config":
+      return "The server's config file or --read-only flag does not allow this call";
+  }
+}
+
+function defaultHint(code: ErrorCode, app?: string): string | undefined {
+  switch (code) {
+    case "PERMISSION_DENIED":
+      return permissionHint("automation", app);
+    case "APP_NOT_RUNNING":
+      return `Open ${app ?? "the app"} and finish setting it up, then try again`;
+    case "TIMEOUT":
+      return "Try a smaller limit or a narrower search, or raise the timeout in the config";
+    case "SCRIPT_FAILURE":
+      return "Run the diagnostics tool to check the server's access to the apps";
+    default:
+      return undefined;
+  }
+}
+
+// Errors osascript, sqlite3 and the file system report, by what they mean
+const MESSAGE_PATTERNS: { pattern: RegExp; code: ErrorCode; permission?: Permission }[] = [
+  { pattern: /-1743|not authori[sz]ed to send apple events|not allowed assistive access/i, code: "PERMISSION_DENIED", permission: "automation" },
+  { pattern: /EACCES|EPERM|authorization denied|unable to open database/i, code: "PERMISSION_DENIED", permission: "fullDiskAccess" },
+  { pattern: /-600\b|isn[’']t running|is not running|-2700|application can[’']t be found/i, code: "APP_NOT_RUNNING" },
+  { pattern: /-1712|timed out/i, code: "TIMEOUT" },
+  { pattern: /-1728|-1719|can[’']t get/i, code: "NOT_FOUND" },
+];
+
+/**
+ * Turn anything a handler caught into the error it reports. Errors thrown on purpose
+ * keep their code, also when a util wrapped them (found through `cause`); others are
+ * classified by the osascript or system error in their message.
+ */
+export function describeError(error: unknown, app?: string): ToolError {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof z.ZodError) {
+    return {
+      code: "INVALID_INPUT",
+      message: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+      ...(app ? { app } : {}),
+    };
+  }
+
+  const chain: unknown[] = [];
+  for (let current: unknown = error; current !== undefined && !chain.includes(current); current = (current as Error)?.cause) {
+    chain.push(current);
+  }
+
+  const typed = chain.find((e): e is AppleMcpError => e instanceof AppleMcpError);
+  const matched = typed ? undefined : MESSAGE_PATTERNS.find(({ pattern }) =>
+    chain.some(e => pattern.test(e instanceof Error ? e.message : String(e)))
+  );
+  const code = typed?.code ?? matched?.code ?? "SCRIPT_FAILURE";
+  const errorApp = typed?.app ?? app;
+  const hint = typed?.hint ??
+    (matched?.permission ? permissionHint(matched.permission, errorApp) : defaultHint(code, errorApp));
+
+  return {
+    code,
+    message,
+    ...(errorApp ? { app: errorApp } : {}),
+    ...(hint ? { hint } : {}),
+  };
+}
+
+/**
+ * The tool result for a failed call: the error in the text, and with its code in `structuredContent.error`
+ */
+export function errorResult(prefix: string, error: unknown, app?: string): ToolResult {
+  const described = describeError(error, app);
+  return {
+    content: [{
+      type: "text",
+      text: `${prefix}: ${described.message}${described.hint ? `\n${described.hint}.` : ''}`
+    }],
+    structuredContent: { error: described },
+    isError: true,
+  };
+}
@@ -0,0 +1,55 @@
+import type { Config } from "./config";
+import { TimeoutError } from "./errors";
+
+// Operations that routinely walk every mailbox or calendar get longer by default
+const DEFAULT_OPERATION_TIMEOUTS_MS: Record<string, number> = {
+  "mail.search": 120000,
+  "mail.unread": 120000,
+  "calendar.search": 120000,
+};
+
+/**
+ * Timeout for one call: the config's "tool.operation" entry, then its "tool" entry,
+ * then the built-in per-operation default, then the config's default
+ */
+export function getTimeoutMs(config: Config, tool: string, operation?: string): number {
+  const key = operation ? `${tool}.${operation}` : tool;
+  return config.timeouts.operations[key] ??
+    config.timeouts.operations[tool] ??
+    DEFAULT_OPERATION_TIMEOUTS_MS[key] ??
+    config.timeouts.defaultMs;
+}
+
+/**
+ * Run `fn` with a signal that fires when `cancelSignal` does (the client sent
+ * `notifications/cancelled`) or `timeoutMs` passes. The returned promise rejects
+ * as soon as that happens, even if `fn` swallows the abort and keeps going.
+ */
+export async function runWithDeadline<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  cancelSignal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+  });
+
+  const onCancel = () => controller.abort(new Error("Request cancelled by the client"));
+  const timer = setTimeout(
+    () => controller.abort(new TimeoutError(`Timed out after ${timeoutMs} ms`)),
+    timeoutMs
+  );
+  if (cancelSignal?.aborted) {
+    onCancel();
+  } else {
+    cancelSignal?.addEventListener("abort", onCancel, { once: true });
+  }
+
+  try {
+    return await Promise.race([fn(controller.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    cancelSignal?.removeEventListener("abort", onCancel);
+  }
+}
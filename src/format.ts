@@ -0,0 +1,198 @@
+import { z } from "zod";
+import { moreResultsText, type Page } from "./pagination";
+import type { ToolResult } from "./types";
+import { MIN_CONTENT_CHARS, cutText, shortenFreeText } from "./outputBudget";
+
+export const OUTPUT_FORMATS = ["markdown", "json", "compact"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// json is the structured result as-is, so only these two are ever rendered as text
+export type TextFormat = Exclude<OutputFormat, "json">;
+
+// Accepted by every operation of every tool
+export const FormatArgSchema = z.enum(OUTPUT_FORMATS).optional()
+  .describe("Layout of the text result: markdown (default) to read, json for the structured result as JSON, compact for one line per item");
+
+// Long bodies (note text, email content, web pages) are cut to this in compact
+const COMPACT_BODY_CHARS = 200;
+
+type FieldValue = string | number | boolean | null | undefined;
+
+/**
+ * How to show one kind of item (a note, an email, an event...) in every text format
+ */
+export interface ItemRenderer<T> {
+  // Headline, e.g. a note's title
+  title(item: T, format: TextFormat): string;
+  // Short labelled details; empty values are left out
+  fields?(item: T, format: TextFormat): Record<string, FieldValue>;
+  // Long text such as a note body
+  body?(item: T, format: TextFormat): string | null | undefined;
+}
+
+export function textFormat(format: OutputFormat | undefined): TextFormat {
+  return format === "compact" ? "compact" : "markdown";
+}
+
+/**
+ * A date for people in markdown, and as a short UTC ISO timestamp in compact.
+ * Values that aren't dates are shown as they are.
+ */
+export function formatDate(value: string | number | Date | null | undefined, format: TextFormat): string | undefined {
+  if (value === null || value === undefined || value === "") {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return String(value);
+  }
+  return format === "compact" ? date.toISOString().replace(/:\d{2}\.\d{3}Z$/, "Z") : date.toLocaleString();
+}
+
+/**
+ * One item: a heading, a bullet per field and the body below in markdown;
+ * a single `|`-separated line in compact. `bodyChars` cuts the body shorter still.
+ */
+export function renderItem<T>(item: T, renderer: ItemRenderer<T>, format: TextFormat, bodyChars = Infinity): string {
+  const title = renderer.title(item, format);
+  const fields = Object.entries(renderer.fields?.(item, format) ?? {})
+    .filter(([, value]) => value !== undefined && value !== null && value !== "");
+  const body = renderer.body?.(item, format)?.trim();
+
+  if (format === "compact") {
+    return [
+      title,
+      ...fields.map(([label, value]) => `${label}: ${value}`),
+      ...(body ? [cutText(body.replace(/\s+/g, " "), Math.min(bodyChars, COMPACT_BODY_CHARS))] : []),
+    ].join(" | ");
+  }
+  return [
+    `### ${title}`,
+    ...fields.map(([label, value]) => `- **${label}:** ${value}`),
+    ...(body ? [`\n${cutText(body, bodyChars)}`] : []),
+  ].join("\n");
+}
+
+// A list's heading, or one built from how many items it ended up showing (e.g. "Found 4 notes")
+export type ListHeading = string | ((shown: number) => string);
+
+export interface ListOptions {
+  // Set when there is another page
+  nextCursor?: string;
+  // Cursor resuming at an item of the list, offered instead of nextCursor when items are left out
+  cursorAt?: (index: number) => string;
+  // Fit the list within this many characters
+  maxChars?: number;
+}
+
+interface FittedList {
+  text: string;
+  // How many items, from the start, the text shows
+  shown: number;
+  // The cursor the text offers, if any
+  nextCursor?: string;
+}
+
+function fitList<T>(
+  heading: ListHeading,
+  items: T[],
+  renderer: ItemRenderer<T>,
+  format: TextFormat,
+  { nextCursor, cursorAt, maxChars = Infinity }: ListOptions
+): FittedList {
+  const separator = format === "compact" ? "\n" : "\n\n";
+  const more = !nextCursor ? "" :
+    format === "compact" ? `\nnextCursor: ${nextCursor}` : moreResultsText(nextCursor);
+  const render = (shown: string[]) =>
+    `${typeof heading === "string" ? heading : heading(shown.length)}:${separator}${shown.join(separator)}`;
+
+  let rendered = items.map(item => renderItem(item, renderer, format));
+  if (render(rendered).length + more.length <= maxChars) {
+    return { text: render(rendered) + more, shown: items.length, nextCursor };
+  }
+
+  const bodyChars = Math.max(MIN_CONTENT_CHARS, Math.floor(maxChars / items.length / 2));
+  rendered = items.map(item => renderItem(item, renderer, format, bodyChars));
+  if (render(rendered).length + more.length <= maxChars) {
+    return { text: render(rendered) + more, shown: items.length, nextCursor };
+  }
+
+  const leftOut = (shown: number) => `${separator}${items.length - shown} more result(s) left out to stay within ${maxChars} characters. ` +
+    (cursorAt ?
+      `Repeat the call with cursor "${cursorAt(shown)}" to see them.` :
+      `Ask for fewer at a time (e.g. limit ${shown}) to see them.`);
+  let shown = 1;
+  while (shown < rendered.length && render(rendered.slice(0, shown + 1)).length + leftOut(shown + 1).length <= maxChars) {
+    shown++;
+  }
+  return { text: render(rendered.slice(0, shown)) + leftOut(shown), shown, nextCursor: cursorAt?.(shown) };
+}
+
+/**
+ * A heading followed by every item, and how to get the next page if there is one.
+ *
+ * A list longer than `maxChars` first gets an equal share of it for each item's body;
+ * if that isn't enough, items are left out from the end with a note saying how many.
+ * `nextCursor` isn't offered then, as it would skip the left-out items; the note offers
+ * `cursorAt` the first of them instead when given (see `renderPage`).
+ */
+export function renderList<T>(
+  heading: ListHeading,
+  items: T[],
+  renderer: ItemRenderer<T>,
+  format: TextFormat,
+  options: ListOptions = {}
+): string {
+  return fitList(heading, items, renderer, format, options).text;
+}
+
+/**
+ * `renderList` for a page from `fetchPage`, along with the items and cursor its text
+ * ended up with, for `structuredContent`: when items were left out to fit `maxChars`,
+ * those are dropped and the cursor resumes at the first of them.
+ *
+ * The items also have to fit as JSON, with their free text as short as `fitOutput` cuts it;
+ * the text then shows the same items and offers the cursor to the rest.
+ */
+export function renderPage<T>(
+  heading: ListHeading,
+  page: Page<T>,
+  renderer: ItemRenderer<T>,
+  format: TextFormat,
+  maxChars?: number
+): Page<T> & { text: string } {
+  let items = page.items;
+  let pageCursor = page.nextCursor;
+  if (maxChars !== undefined && page.cursorAt) {
+    let fitting = items.length;
+    while (fitting > 1 && JSON.stringify(shortenFreeText(items.slice(0, fitting), MIN_CONTENT_CHARS)).length > maxChars) {
+      fitting--;
+    }
+    if (fitting < items.length) {
+      items = items.slice(0, fitting);
+      pageCursor = page.cursorAt(fitting);
+    }
+  }
+
+  const { text, shown, nextCursor } = fitList(heading, items, renderer, format, { nextCursor: pageCursor, cursorAt: page.cursorAt, maxChars });
+  return { items: items.slice(0, shown), nextCursor, text };
+}
+
+/**
+ * Put the non-empty parts of a result one after another, with a blank line between them in markdown
+ */
+export function joinSections(format: TextFormat, ...sections: (string | false | undefined)[]): string {
+  return sections.filter(Boolean).join(format === "compact" ? "\n" : "\n\n");
+}
+
+/**
+ * Swap the text for the structured result when the caller asked for json.
+ * Results without one (e.g. a declined send) keep their text.
+ */
+export function applyFormat(result: ToolResult, format: unknown): ToolResult {
+  if (format !== "json" || !result.structuredContent) {
+    return result;
+  }
+  return { ...result, content: [{ type: "text", text: JSON.stringify(result.structuredContent) }] };
+}
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import type { ToolResult } from "./../types";
+import type { AuditLog } from "../auditLog";
+import { errorResult } from "../errors";
+import { FormatArgSchema, formatDate, renderList, textFormat, type ItemRenderer } from "../format";
+import { MaxOutputCharsArgSchema } from "../outputBudget";
+
+// Define the Zod schema for audit arguments
+export const AuditArgsSchema = z.discriminatedUnion("operation", [
+  z.object({
+    operation: z.literal("recent"),
+    limit: z.number().int().min(1).max(200).optional().describe("Number of entries to return (default 20)"),
+    tool: z.string().optional().describe("Only return calls of this tool, e.g. 'messages'"),
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("List the most recent side-effecting calls, newest first"),
+]);
+
+// Define the argument type from the schema
+type AuditArgs = z.infer<typeof AuditArgsSchema>;
+
+// Define the structured result returned alongside the text
+export const AuditResultSchema = z.object({
+  operation: z.enum(["recent"]),
+  entries: z.array(z.object({
+    timestamp: z.string(),
+    tool: z.string(),
+    operation: z.string(),
+    args: z.record(z.unknown()).describe("Call arguments, with long text cut short"),
+    isError: z.boolean(),
+    result: z.string().describe("Start of the text the tool returned"),
+    durationMs: z.number(),
+  })),
+});
+
+type AuditResult = z.infer<typeof AuditResultSchema>;
+
+const ENTRY: ItemRenderer<AuditResult["entries"][number]> = {
+  title: entry => `${entry.tool}.${entry.operation} ${entry.isError ? 'FAILED' : 'ok'}`,
+  fields: (entry, format) => ({
+    Time: formatDate(entry.timestamp, format),
+    Duration: `${entry.durationMs} ms`,
+    Args: JSON.stringify(entry.args),
+  }),
+  body: entry => entry.result,
+};
+
+export async function handleAudit(
+  args: AuditArgs,
+  auditLog: AuditLog
+): Promise<ToolResult> {
+  try {
+    const entries = await auditLog.recent(args.limit ?? 20, { tool: args.tool });
+    const format = textFormat(args.format);
+    return {
+      content: [{
+        type: "text",
+        text: entries.length > 0 ?
+          renderList(shown => `${shown} most recent side-effecting call(s)${args.tool ? ` of ${args.tool}` : ''}`, entries, ENTRY, format, { maxChars: args.maxOutputChars }) :
+          `No side-effecting calls recorded${args.tool ? ` for ${args.tool}` : ''}.`
+      }],
+      structuredContent: { operation: "recent", entries } satisfies AuditResult,
+      isError: false
+    };
+  } catch (error) {
+    return errorResult("Error reading audit log", error);
+  }
+}
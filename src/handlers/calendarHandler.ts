@@ -1,60 +1,112 @@
 import { z } from "zod";
 import type { LoadModuleFunction, ToolResult } from "./../types";
+import { DryRunArgSchema, DryRunResultSchema } from "../dryRun";
+import { CursorArgSchema, NextCursorSchema, fetchPage } from "../pagination";
+import { FormatArgSchema, formatDate, renderPage, textFormat, type ItemRenderer } from "../format";
+import { MaxOutputCharsArgSchema } from "../outputBudget";
+import { errorResult } from "../errors";
 
 // Define the Zod schema for calendar arguments
 export const CalendarArgsSchema = z.discriminatedUnion("operation", [
   z.object({ 
     operation: z.literal("search"), 
-    searchText: z.string().min(1), 
-    limit: z.number().optional(), 
-    fromDate: z.string().datetime().optional(), 
-    toDate: z.string().datetime().optional() 
-  }),
-  z.object({ operation: z.literal("open"), eventId: z.string().min(1) }),
+    searchText: z.string().min(1).describe("Text to search for in event titles, locations, and notes"), 
+    limit: z.number().int().positive().optional().describe("Number of events per page (default 10)"), 
+    fromDate: z.string().datetime().optional().describe("Start of the search range in ISO format (default now)"), 
+    toDate: z.string().datetime().optional().describe("End of the search range in ISO format (default 30 days from now)"),
+    cursor: CursorArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Search events in a date range"),
+  z.object({
+    operation: z.literal("open"),
+    eventId: z.string().min(1).describe("ID of the event to open"),
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Open an event in Calendar"),
   z.object({ 
     operation: z.literal("list"), 
-    limit: z.number().optional(), 
-    fromDate: z.string().datetime().optional(), 
-    toDate: z.string().datetime().optional() 
-  }),
+    limit: z.number().int().positive().optional().describe("Number of events per page (default 10)"), 
+    fromDate: z.string().datetime().optional().describe("Start of the range in ISO format (default now)"), 
+    toDate: z.string().datetime().optional().describe("End of the range in ISO format (default 7 days from now)"),
+    cursor: CursorArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("List upcoming events"),
   z.object({ 
     operation: z.literal("create"), 
-    title: z.string().min(1), 
-    startDate: z.string().datetime(), 
-    endDate: z.string().datetime(), 
-    location: z.string().optional(), 
-    notes: z.string().optional(), 
-    isAllDay: z.boolean().optional(), 
-    calendarName: z.string().optional() 
-  }),
+    title: z.string().min(1).describe("Title of the event"), 
+    startDate: z.string().datetime().describe("Start date/time of the event in ISO format"), 
+    endDate: z.string().datetime().describe("End date/time of the event in ISO format"), 
+    location: z.string().optional().describe("Location of the event"), 
+    notes: z.string().optional().describe("Additional notes for the event"), 
+    isAllDay: z.boolean().optional().describe("Whether the event is an all-day event (default false)"), 
+    calendarName: z.string().optional().describe("Calendar to create the event in (default from config, otherwise the first calendar)"),
+    dryRun: DryRunArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Create an event"),
 ]);
 
 // Define the argument type from the schema
 type CalendarArgs = z.infer<typeof CalendarArgsSchema>;
 
+const CalendarEventSchema = z.object({
+  id: z.string().describe("Event ID, accepted by the open operation"),
+  title: z.string(),
+  location: z.string().nullable(),
+  notes: z.string().nullable(),
+  startDate: z.string().nullable().describe("Start date/time in ISO format"),
+  endDate: z.string().nullable().describe("End date/time in ISO format"),
+  calendarName: z.string(),
+  isAllDay: z.boolean(),
+  url: z.string().nullable(),
+});
+
+// Define the structured result returned alongside the text
+export const CalendarResultSchema = z.object({
+  operation: z.enum(["search", "open", "list", "create"]),
+  events: z.array(CalendarEventSchema).optional().describe("Events found by search or list"),
+  nextCursor: NextCursorSchema,
+  success: z.boolean().optional().describe("Whether open or create succeeded"),
+  message: z.string().optional(),
+  eventId: z.string().optional().describe("ID of the opened or created event"),
+  dryRun: DryRunResultSchema.optional(),
+});
+
+type CalendarResult = z.infer<typeof CalendarResultSchema>;
+
+const EVENT: ItemRenderer<z.infer<typeof CalendarEventSchema>> = {
+  title: event => event.title,
+  fields: (event, format) => ({
+    When: `${formatDate(event.startDate, format) ?? 'Unknown'} - ${formatDate(event.endDate, format) ?? 'Unknown'}${event.isAllDay ? ' (all day)' : ''}`,
+    Location: event.location,
+    Calendar: event.calendarName,
+    ID: event.id,
+  }),
+  body: event => event.notes,
+};
+
 export async function handleCalendar(
   args: CalendarArgs,
   loadModule: LoadModuleFunction
 ): Promise<ToolResult> {
   try {
     const calendarModule = await loadModule("calendar");
+    const format = textFormat(args.format);
 
     switch (args.operation) {
       case "search": {
-        const events = await calendarModule.searchEvents(args.searchText, args.limit, args.fromDate, args.toDate);
+        const page = await fetchPage("calendar", args, args.limit ?? 10, count =>
+          calendarModule.searchEvents(args.searchText, count, args.fromDate, args.toDate)
+        );
+        const { items: events, nextCursor, text } = renderPage(shown => `Found ${shown} events matching "${args.searchText}"`, page, EVENT, format, args.maxOutputChars);
         return {
           content: [{
             type: "text",
-            text: events.length > 0 ? 
-              `Found ${events.length} events matching "${args.searchText}":\n\n${events.map(event => 
-                `${event.title} (${new Date(event.startDate!).toLocaleString()} - ${new Date(event.endDate!).toLocaleString()})\n` +
-                `Location: ${event.location || 'Not specified'}\n` +
-                `Calendar: ${event.calendarName}\n` +
-                `ID: ${event.id}\n` +
-                `${event.notes ? `Notes: ${event.notes}\n` : ''}`
-              ).join("\n\n")}` : 
-              `No events found matching "${args.searchText}".`
+            text: events.length > 0 ? text : `No events found matching "${args.searchText}".`
           }],
+          structuredContent: { operation: "search", events, nextCursor } satisfies CalendarResult,
           isError: false
         };
       }
@@ -68,27 +120,25 @@ export async function handleCalendar(
               result.message : 
               `Error opening event: ${result.message}`
           }],
+          structuredContent: { operation: "open", success: result.success, message: result.message, eventId: args.eventId } satisfies CalendarResult,
           isError: !result.success
         };
       }
       
       case "list": {
-        const events = await calendarModule.getEvents(args.limit, args.fromDate, args.toDate);
+        const page = await fetchPage("calendar", args, args.limit ?? 10, count =>
+          calendarModule.getEvents(count, args.fromDate, args.toDate)
+        );
         const startDateText = args.fromDate ? new Date(args.fromDate).toLocaleDateString() : 'today';
         const endDateText = args.toDate ? new Date(args.toDate).toLocaleDateString() : 'next 7 days';
+        const { items: events, nextCursor, text } = renderPage(shown => `Found ${shown} events from ${startDateText} to ${endDateText}`, page, EVENT, format, args.maxOutputChars);
         
         return {
           content: [{
             type: "text",
-            text: events.length > 0 ? 
-              `Found ${events.length} events from ${startDateText} to ${endDateText}:\n\n${events.map(event => 
-                `${event.title} (${new Date(event.startDate!).toLocaleString()} - ${new Date(event.endDate!).toLocaleString()})\n` +
-                `Location: ${event.location || 'Not specified'}\n` +
-                `Calendar: ${event.calendarName}\n` +
-                `ID: ${event.id}`
-              ).join("\n\n")}` : 
-              `No events found from ${startDateText} to ${endDateText}.`
+            text: events.length > 0 ? text : `No events found from ${startDateText} to ${endDateText}.`
           }],
+          structuredContent: { operation: "list", events, nextCursor } satisfies CalendarResult,
           isError: false
         };
       }
@@ -99,9 +149,10 @@ export async function handleCalendar(
           content: [{
             type: "text",
             text: result.success ? 
-              `${result.message} Event scheduled from ${new Date(args.startDate).toLocaleString()} to ${new Date(args.endDate).toLocaleString()}${result.eventId ? `\nEvent ID: ${result.eventId}` : ''}` : 
+              `${result.message} Event scheduled from ${formatDate(args.startDate, format)} to ${formatDate(args.endDate, format)}${result.eventId ? `\nEvent ID: ${result.eventId}` : ''}` : 
               `Error creating event: ${result.message}`
           }],
+          structuredContent: { operation: "create", success: result.success, message: result.message, eventId: result.eventId } satisfies CalendarResult,
           isError: !result.success
         };
       }
@@ -111,12 +162,6 @@ export async function handleCalendar(
         throw new Error(`Unknown calendar operation: ${(args as any).operation}`);
     }
   } catch (error) {
-    return {
-      content: [{
-        type: "text",
-        text: `Error in calendar tool: ${error instanceof Error ? error.message : String(error)}`
-      }],
-      isError: true
-    };
+    return errorResult("Error in calendar tool", error, "Calendar");
   }
 }
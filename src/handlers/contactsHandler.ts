@@ -1,20 +1,43 @@
 import { z } from "zod";
 import type { ModuleMap, LoadModuleFunction } from "./../types"; // Adjusted path
+import { CacheArgSchema } from "../cache";
+import { errorResult } from "../errors";
+import { FormatArgSchema, renderItem, renderList, textFormat, type ItemRenderer } from "../format";
+import { MaxOutputCharsArgSchema } from "../outputBudget";
 
 // Define the Zod schema for contacts arguments again here or import from index.ts/shared location
 export const ContactsArgsSchema = z.object({
-  name: z.string().optional(),
+  name: z.string().optional().describe("Name to search for (optional - if not provided, returns all contacts). Can be partial name to search."),
+  cache: CacheArgSchema,
+  format: FormatArgSchema,
+  maxOutputChars: MaxOutputCharsArgSchema,
 });
 
 // Define the argument type from the schema
 type ContactsArgs = z.infer<typeof ContactsArgsSchema>;
 
+// Define the structured result returned alongside the text
+export const ContactsResultSchema = z.object({
+  contacts: z.array(z.object({
+    name: z.string(),
+    phoneNumbers: z.array(z.string()),
+  })),
+});
+
+type ContactsResult = z.infer<typeof ContactsResultSchema>;
+
+const CONTACT: ItemRenderer<ContactsResult["contacts"][number]> = {
+  title: contact => contact.name,
+  fields: contact => ({ Phone: contact.phoneNumbers.join(", ") }),
+};
+
 export async function handleContacts(
   args: ContactsArgs,
   loadModule: LoadModuleFunction
 ) {
   try {
     const contactsModule = await loadModule('contacts');
+    const format = textFormat(args.format);
 
     if (args.name) {
       const numbers = await contactsModule.findNumber(args.name);
@@ -22,9 +45,12 @@ export async function handleContacts(
         content: [{
           type: "text",
           text: numbers.length ?
-            `${args.name}: ${numbers.join(", ")}` :
+            renderItem({ name: args.name, phoneNumbers: numbers }, CONTACT, format) :
             `No contact found for "${args.name}". Try a different name or use no name parameter to list all contacts.`
         }],
+        structuredContent: {
+          contacts: numbers.length ? [{ name: args.name, phoneNumbers: numbers }] : []
+        } satisfies ContactsResult,
         isError: false
       };
     } else {
@@ -37,32 +63,30 @@ export async function handleContacts(
             type: "text",
             text: "No contacts found in the address book. Please make sure you have granted access to Contacts."
           }],
+          structuredContent: { contacts: [] } satisfies ContactsResult,
           isError: false
         };
       }
 
-      // Explicitly type 'phones' as string[]
-      const formattedContacts = Object.entries(allNumbers)
-        .filter(([_, phones]) => (phones as string[]).length > 0) 
-        .map(([name, phones]) => `${name}: ${(phones as string[]).join(", ")}`);
+      // Drop phone values the app couldn't resolve to text
+      const contacts = Object.entries(allNumbers).map(([name, phones]) => ({
+        name,
+        phoneNumbers: phones.filter(phone => typeof phone === "string")
+      }));
+      const withNumbers = contacts.filter(contact => contact.phoneNumbers.length > 0);
 
       return {
         content: [{
           type: "text",
-          text: formattedContacts.length > 0 ?
-            `Found ${contactCount} contacts:\n\n${formattedContacts.join("\n")}` :
+          text: withNumbers.length > 0 ?
+            renderList(`Found ${contactCount} contacts`, withNumbers, CONTACT, format, { maxChars: args.maxOutputChars }) :
             "Found contacts but none have phone numbers. Try searching by name to see more details."
         }],
+        structuredContent: { contacts } satisfies ContactsResult,
         isError: false
       };
     }
   } catch (error) {
-    return {
-      content: [{
-        type: "text",
-        text: `Error accessing contacts: ${error instanceof Error ? error.message : String(error)}`
-      }],
-      isError: true
-    };
+    return errorResult("Error accessing contacts", error, "Contacts");
   }
 }
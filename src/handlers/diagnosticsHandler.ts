@@ -0,0 +1,239 @@
+import { z } from "zod";
+import { existsSync } from "node:fs";
+import { devNull, release } from "node:os";
+import type { LoadModuleFunction, ToolResult } from "./../types";
+import { isToolEnabled, type Config } from "../config";
+import type { QueueDepth } from "../scheduler";
+import { SERVER_VERSION } from "../version";
+import { describeError, errorResult } from "../errors";
+import { FormatArgSchema } from "../format";
+import { MaxOutputCharsArgSchema } from "../outputBudget";
+
+const APPS = ["Contacts", "Notes", "Messages", "Mail", "Reminders", "Calendar", "Maps"] as const;
+
+type App = (typeof APPS)[number];
+type Permission = "automation" | "fullDiskAccess";
+
+// Define the Zod schema for diagnostics arguments
+export const DiagnosticsArgsSchema = z.discriminatedUnion("operation", [
+  z.object({
+    operation: z.literal("check"),
+    apps: z.array(z.enum(APPS)).optional().describe("Only check these apps (default all)"),
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Check every app's permissions, sqlite3 and the server setup, with steps to fix what's missing"),
+]);
+
+// Define the argument type from the schema
+type DiagnosticsArgs = z.infer<typeof DiagnosticsArgsSchema>;
+
+// Define the structured result returned alongside the text
+export const DiagnosticsResultSchema = z.object({
+  operation: z.enum(["check"]),
+  server: z.object({
+    version: z.string(),
+    backend: z.string().describe("Automation backend: osascript for the real apps, fake for test data"),
+    platform: z.string(),
+    configPath: z.string(),
+    configFileFound: z.boolean().describe("False when running on defaults"),
+    readOnly: z.boolean(),
+    enabledTools: z.array(z.string()),
+  }),
+  permissions: z.array(z.object({
+    app: z.enum(APPS),
+    permission: z.enum(["automation", "fullDiskAccess"]),
+    status: z.enum(["granted", "denied", "error"]),
+    detail: z.string().optional(),
+  })),
+  sqlite3: z.object({
+    available: z.boolean(),
+    version: z.string().optional(),
+    detail: z.string().optional(),
+  }).describe("Needed to read Messages"),
+  queues: z.array(z.object({
+    app: z.string(),
+    running: z.number(),
+    queued: z.number(),
+    concurrency: z.number(),
+  })).describe("Scripts running and waiting per app"),
+  remediation: z.array(z.object({
+    problem: z.string(),
+    steps: z.array(z.string()),
+  })).describe("What to do about each problem found, in order"),
+});
+
+type DiagnosticsResult = z.infer<typeof DiagnosticsResultSchema>;
+type PermissionStatus = DiagnosticsResult["permissions"][number];
+type Remediation = DiagnosticsResult["remediation"][number];
+
+// What the server knows about itself, beyond what the modules can check
+export interface DiagnosticsContext {
+  backendName: string;
+  config: Config;
+  configPath: string;
+  queueDepth: () => QueueDepth[];
+  // Built-in and plugin tools
+  toolNames: string[];
+}
+
+// The access checks the modules run before each operation, one per app and permission
+const CHECKS: { app: App; permission: Permission; run: (loadModule: LoadModuleFunction) => Promise<boolean> }[] = [
+  { app: "Contacts", permission: "automation", run: async load => (await load("contacts")).checkAccess() },
+  { app: "Notes", permission: "automation", run: async load => (await load("notes")).checkAccess() },
+  { app: "Messages", permission: "automation", run: async load => (await load("message")).checkAppAccess() },
+  { app: "Messages", permission: "fullDiskAccess", run: async load => (await load("message")).checkDatabaseAccess() },
+  { app: "Mail", permission: "automation", run: async load => (await load("mail")).checkAccess() },
+  { app: "Reminders", permission: "automation", run: async load => (await load("reminders")).checkAccess() },
+  { app: "Calendar", permission: "automation", run: async load => (await load("calendar")).checkAccess() },
+  { app: "Maps", permission: "automation", run: async load => (await load("maps")).checkAccess() },
+];
+
+// Apps that also have their own Privacy & Security pane besides Automation
+const PRIVACY_PANES: Partial<Record<App, string>> = {
+  Contacts: "Contacts",
+  Reminders: "Reminders",
+  Calendar: "Calendars",
+};
+
+const PERMISSION_NAMES: Record<Permission, string> = {
+  automation: "Automation",
+  fullDiskAccess: "Full Disk Access",
+};
+
+async function runCheck(check: (typeof CHECKS)[number], loadModule: LoadModuleFunction): Promise<PermissionStatus> {
+  const { app, permission } = check;
+  try {
+    if (await check.run(loadModule)) {
+      return { app, permission, status: "granted" };
+    }
+    // Checks that return false have logged why; by far the most common cause is a missing permission
+    return {
+      app,
+      permission,
+      status: "denied",
+      detail: permission === "fullDiskAccess" ?
+        "The Messages database could not be read" :
+        `${app} refused or did not answer Apple events; the server log has the exact error`,
+    };
+  } catch (error) {
+    const { code, message } = describeError(error, app);
+    return { app, permission, status: code === "PERMISSION_DENIED" ? "denied" : "error", detail: message };
+  }
+}
+
+// Queries through the backend like Messages does, but on an empty database so no permission is involved
+async function checkSqlite(loadModule: LoadModuleFunction): Promise<DiagnosticsResult["sqlite3"]> {
+  try {
+    const backend = await loadModule("backend");
+    const [row] = await backend.querySqlite<{ version: string }>(devNull, "SELECT sqlite_version() AS version");
+    return { available: true, version: row?.version };
+  } catch (error: any) {
+    return {
+      available: false,
+      detail: error?.code === "ENOENT" ? "sqlite3 is not on the PATH" : String(error?.message ?? error),
+    };
+  }
+}
+
+function remediationFor(check: PermissionStatus): Remediation {
+  const problem = `${check.app}: ${PERMISSION_NAMES[check.permission]} ${check.status === "denied" ? "not granted" : "check failed"}`;
+
+  if (check.permission === "fullDiskAccess") {
+    return {
+      problem,
+      steps: [
+        "Open System Settings > Privacy & Security > Full Disk Access",
+        "Add the app that runs this server (e.g. Terminal, iTerm or Claude) and turn it on",
+        "Quit and reopen that app so the server starts with the new permission",
+      ],
+    };
+  }
+
+  if (check.status === "denied") {
+    const pane = PRIVACY_PANES[check.app];
+    return {
+      problem,
+      steps: [
+        "Open System Settings > Privacy & Security > Automation",
+        `Under the app that runs this server (e.g. Terminal, iTerm or Claude), turn on ${check.app}`,
+        ...(pane ? [`Also allow that app under System Settings > Privacy & Security > ${pane}`] : []),
+        `If it is already allowed, open ${check.app} once so it can finish setting up`,
+        "Restart the MCP client and run diagnostics again",
+      ],
+    };
+  }
+
+  return {
+    problem,
+    steps: [
+      `Open ${check.app} once and make sure it has finished setting up${check.app === "Mail" ? " (with at least one account)" : ""}`,
+      "Run diagnostics again; if it still fails, the server log has the full error",
+    ],
+  };
+}
+
+export async function handleDiagnostics(
+  args: DiagnosticsArgs,
+  loadModule: LoadModuleFunction,
+  context: DiagnosticsContext
+): Promise<ToolResult> {
+  try {
+    const checks = CHECKS.filter(check => !args.apps || args.apps.includes(check.app));
+    const [permissions, sqlite3] = await Promise.all([
+      Promise.all(checks.map(check => runCheck(check, loadModule))),
+      checkSqlite(loadModule),
+    ]);
+
+    const server: DiagnosticsResult["server"] = {
+      version: SERVER_VERSION,
+      backend: context.backendName,
+      platform: `${process.platform} ${release()}`,
+      configPath: context.configPath,
+      configFileFound: existsSync(context.configPath),
+      readOnly: context.config.readOnly,
+      enabledTools: context.toolNames.filter(tool => isToolEnabled(context.config, tool)),
+    };
+
+    const remediation: Remediation[] = [];
+    if (process.platform !== "darwin" && context.backendName === "osascript") {
+      remediation.push({
+        problem: "Not running on macOS",
+        steps: ["Run the server on a Mac; the apps it automates only exist there"],
+      });
+    }
+    remediation.push(...permissions.filter(check => check.status !== "granted").map(remediationFor));
+    if (!sqlite3.available) {
+      remediation.push({
+        problem: "sqlite3 not available, so Messages can't be read",
+        steps: ["Install the Xcode Command Line Tools: xcode-select --install", "Restart the MCP client"],
+      });
+    }
+
+    const queues = context.queueDepth();
+    const busy = queues.filter(queue => queue.running > 0 || queue.queued > 0);
+
+    return {
+      content: [{
+        type: "text",
+        text: `apple-mcp ${server.version} on ${server.platform}, ${server.backend} backend\n` +
+          `Config: ${server.configPath}${server.configFileFound ? '' : ' (not found, using defaults)'}${server.readOnly ? ', read-only' : ''}\n` +
+          `Enabled tools: ${server.enabledTools.join(", ")}\n\n` +
+          `Permissions:\n` +
+          permissions.map(check =>
+            `- ${check.app} (${PERMISSION_NAMES[check.permission]}): ${check.status}${check.detail ? ` - ${check.detail}` : ''}`
+          ).join("\n") +
+          `\n\nsqlite3: ${sqlite3.available ? sqlite3.version : `unavailable - ${sqlite3.detail}`}\n` +
+          `Queues: ${busy.length > 0 ? busy.map(queue => `${queue.app} ${queue.running} running, ${queue.queued} waiting`).join("; ") : 'idle'}` +
+          (remediation.length > 0 ?
+            `\n\nTo fix:\n` + remediation.map(item =>
+              `${item.problem}\n${item.steps.map((step, index) => `  ${index + 1}. ${step}`).join("\n")}`
+            ).join("\n\n") :
+            `\n\nEverything checked out.`)
+      }],
+      structuredContent: { operation: "check", server, permissions, sqlite3, queues, remediation } satisfies DiagnosticsResult,
+      isError: false
+    };
+  } catch (error) {
+    return errorResult("Error running diagnostics", error);
+  }
+}
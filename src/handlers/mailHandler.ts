@@ -1,157 +1,235 @@
 import { z } from "zod";
-// Remove runAppleScript import, use child_process instead
-import type { LoadModuleFunction, ToolResult } from "./../types";
-import fs from "fs/promises"; 
+import type { LoadModuleFunction, ProgressReporter, ToolResult } from "./../types";
 import path from "path"; 
-import { exec } from 'child_process'; // Import exec
-import { promisify } from 'util'; // Import promisify
+import { DryRunArgSchema, DryRunResultSchema } from "../dryRun";
+import { reportSearchProgress } from "../progress";
+import { CacheArgSchema } from "../cache";
+import { CursorArgSchema, NextCursorSchema, fetchPage } from "../pagination";
+import { FormatArgSchema, formatDate, renderPage, textFormat, type ItemRenderer } from "../format";
+import { MaxOutputCharsArgSchema } from "../outputBudget";
+import { errorResult } from "../errors";
+import { createLogger } from "../logger";
 
-const execAsync = promisify(exec); // Promisify exec
+const log = createLogger("handlers/mail");
 
 // Define the Zod schema for mail arguments
 export const MailArgsSchema = z.discriminatedUnion("operation", [
-  z.object({ operation: z.literal("unread"), account: z.string().optional(), mailbox: z.string().optional(), limit: z.number().optional() }),
-  z.object({ operation: z.literal("search"), searchTerm: z.string().min(1), account: z.string().optional(), mailbox: z.string().optional(), limit: z.number().optional() }),
-  z.object({ operation: z.literal("send"), to: z.string(), subject: z.string(), body: z.string(), cc: z.string().optional(), bcc: z.string().optional() }),
-  z.object({ operation: z.literal("mailboxes"), account: z.string().optional() }),
-  z.object({ operation: z.literal("accounts") }),
+  z.object({
+    operation: z.literal("unread"),
+    account: z.string().optional().describe("Email account to read from (optional - if not provided, reads across all accounts)"),
+    mailbox: z.string().optional().describe("Mailbox within the account (only used together with account, defaults to the inbox)"),
+    limit: z.number().int().positive().optional().describe("Number of emails per page (default 10)"),
+    cursor: CursorArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Read unread emails"),
+  z.object({
+    operation: z.literal("search"),
+    searchTerm: z.string().min(1).describe("Text to search for in email subjects, senders, and content"),
+    account: z.string().optional().describe("Not used for filtering yet - search always covers all accounts"),
+    mailbox: z.string().optional().describe("Not used for filtering yet - search always covers all mailboxes"),
+    limit: z.number().int().positive().optional().describe("Number of emails per page (default 10)"),
+    cursor: CursorArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Search emails"),
+  z.object({
+    operation: z.literal("send"),
+    to: z.string().describe("Recipient email address"),
+    subject: z.string().describe("Email subject"),
+    body: z.string().describe("Email body content"),
+    cc: z.string().optional().describe("CC email address"),
+    bcc: z.string().optional().describe("BCC email address"),
+    confirmToken: z.string().optional().describe("Token from an earlier unconfirmed call; repeat that call with it to confirm the send"),
+    dryRun: DryRunArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Send an email"),
+  z.object({
+    operation: z.literal("mailboxes"),
+    account: z.string().optional().describe("Email account to list mailboxes for (optional - if not provided, lists mailboxes of all accounts)"),
+    cache: CacheArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("List mailboxes"),
+  z.object({
+    operation: z.literal("accounts"),
+    cache: CacheArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("List email accounts"),
 ]);
 
 // Define the argument type from the schema
 type MailArgs = z.infer<typeof MailArgsSchema>;
 
+const EmailMessageSchema = z.object({
+  id: z.string().optional().describe("Message ID, usable as apple-mail://message/<id>"),
+  subject: z.string(),
+  sender: z.string(),
+  dateSent: z.string(),
+  content: z.string(),
+  isRead: z.boolean(),
+  mailbox: z.string(),
+});
+
+// Define the structured result returned alongside the text
+export const MailResultSchema = z.object({
+  operation: z.enum(["unread", "search", "send", "mailboxes", "accounts"]),
+  emails: z.array(EmailMessageSchema).optional().describe("Emails returned by unread or search"),
+  nextCursor: NextCursorSchema,
+  mailboxes: z.array(z.string()).optional(),
+  accounts: z.array(z.string()).optional(),
+  message: z.string().optional().describe("Status reported by send"),
+  confirmToken: z.string().optional().describe("Set when nothing was sent yet: repeat the call with this token once the user approves"),
+  dryRun: DryRunResultSchema.optional(),
+});
+
+type MailResult = z.infer<typeof MailResultSchema>;
+
+// Enough of each email to decide whether to open it
+const EMAIL_PREVIEW_CHARS = 500;
+
+const EMAIL: ItemRenderer<z.infer<typeof EmailMessageSchema>> = {
+  title: email => email.subject,
+  fields: (email, format) => ({
+    From: email.sender,
+    Date: formatDate(email.dateSent, format),
+    Mailbox: email.mailbox,
+    ID: email.id,
+  }),
+  body: email => email.content.length > EMAIL_PREVIEW_CHARS ?
+    `${email.content.substring(0, EMAIL_PREVIEW_CHARS)}...` :
+    email.content,
+};
+
+// Where a field of the records getUnreadMail.applescript returns starts
+const SCRIPT_RECORD_FIELD = /\}?,\s*\{?(?=(?:subject|sender|dateSent|mailboxName|content):)/;
+
+// osascript prints the script's list of records as "subject:…, sender:…, dateSent:…, mailboxName:…,
+// content:…, subject:…" (with braces around each record under -ss). Values hold commas and colons
+// too (dates, bodies), so split only where a field starts, and start a record when one repeats
+function parseScriptRecords(output: string): Array<Record<string, string>> {
+  const records: Array<Record<string, string>> = [];
+  let record: Record<string, string> = {};
+  for (const field of output.trim().replace(/^\{+/, '').replace(/\}+$/, '').split(SCRIPT_RECORD_FIELD)) {
+    const separator = field.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    const key = field.slice(0, separator).trim();
+    if (key in record) {
+      records.push(record);
+      record = {};
+    }
+    record[key] = field.slice(separator + 1).trim();
+  }
+  if (Object.keys(record).length > 0) {
+    records.push(record);
+  }
+  return records;
+}
+
 export async function handleMail(
   args: MailArgs,
-  loadModule: LoadModuleFunction
+  loadModule: LoadModuleFunction,
+  reportProgress?: ProgressReporter
 ): Promise<ToolResult> {
   try {
     const mailModule = await loadModule('mail');
+    const format = textFormat(args.format);
+    const onProgress = reportSearchProgress(reportProgress, "Mailbox",
+      (email: { sender: string; subject: string }) => `${email.sender}: ${email.subject}`);
 
     switch (args.operation) {
       case "unread": {
-        let emails;
-        if (args.account) {
-          console.error(`Getting unread emails for account: ${args.account}`);
+        const page = await fetchPage("mail", args, args.limit ?? 10, async count => {
+          if (args.account) {
+            log.debug(`Getting unread emails for account: ${args.account}`);
           
-          try {
-            const scriptPath = path.resolve(__dirname, '../../scripts/getUnreadMail.applescript'); // Path to the script file
+            try {
+              const scriptPath = path.resolve(__dirname, '../scripts/getUnreadMail.applescript'); // Path to the script file
             
-            // Prepare arguments for the script, ensuring proper shell quoting
-            const scriptArgs = [args.account];
-            if (args.mailbox) {
-              scriptArgs.push(args.mailbox);
-            }
-            if (args.limit) {
-              // Ensure limit is passed as a string if the script expects it that way
-              scriptArgs.push(String(args.limit));
-            }
-            const quotedArgs = scriptArgs.map(arg => `'${String(arg).replace(/'/g, "'\\''")}'`).join(' '); // Quote args
-
-            // Construct the osascript command
-            const command = `osascript '${scriptPath.replace(/'/g, "'\\''")}' ${quotedArgs}`;
-            console.error(`Executing command: ${command}`);
+              // Prepare arguments for the script: they're positional, and an empty mailbox means all of them
+              const scriptArgs = [args.account, args.mailbox ?? "", String(count)];
+              log.debug(`Executing script: ${scriptPath} ${scriptArgs.join(' ')}`);
 
-            // Execute the command using execAsync
-            const { stdout, stderr } = await execAsync(command);
-
-            if (stderr) {
-              console.error(`AppleScript stderr: ${stderr}`);
-              // Check if stdout also contains an error, prioritize stdout for AppleScript errors
-              if (stdout && stdout.trim().startsWith('Error:')) {
-                 throw new Error(stdout.trim());
+              // Run the script file through the automation backend
+              const backend = await loadModule('backend');
+              const asResult = await backend.runScriptFile(scriptPath, scriptArgs);
+              if (asResult && asResult.startsWith('Error:')) {
+                throw new Error(asResult);
               }
-              // Optionally throw based on stderr if stdout is clean, but let's rely on stdout check first
-            }
             
-            const asResult = stdout.trim(); // Use stdout as the result
-            if (asResult && asResult.startsWith('Error:')) {
-              throw new Error(asResult);
-            }
-            
-            const emailData = [];
-            // Use regex on the stdout result
-            const matches = asResult.match(/\{([^}]+)\}/g); 
-            if (matches && matches.length > 0) {
-              for (const match of matches) {
-                try {
-                  const props = match.substring(1, match.length - 1).split(',');
-                  const email: any = {};
-                  
-                  props.forEach(prop => {
-                    const parts = prop.split(':');
-                    if (parts.length >= 2) {
-                      const key = parts[0].trim();
-                      const value = parts.slice(1).join(':').trim();
-                      email[key] = value;
-                    }
+              const emailData = [];
+              for (const email of parseScriptRecords(asResult)) {
+                if (email.subject || email.sender) {
+                  emailData.push({
+                    subject: email.subject || "No subject",
+                    sender: email.sender || "Unknown sender",
+                    dateSent: email.dateSent || new Date().toString(),
+                    content: email.content || "[Content not available]",
+                    isRead: false,
+                    // Use mailboxName from script result
+                    mailbox: `${args.account} - ${email.mailboxName || "Unknown"}`
                   });
-                  
-                  if (email.subject || email.sender) {
-                    emailData.push({
-                      subject: email.subject || "No subject",
-                      sender: email.sender || "Unknown sender",
-                      dateSent: email.date || new Date().toString(),
-                      content: email.content || "[Content not available]",
-                      isRead: false,
-                              // Use mailboxName from script result
-                              mailbox: `${args.account} - ${email.mailboxName || "Unknown"}` 
-                    });
-                  }
-                } catch (parseError) {
-                  console.error('Error parsing email match:', parseError);
                 }
               }
-            }
             
-            emails = emailData;
-          } catch (error: any) { // Catch errors from execAsync or parsing
-            console.error('Error executing or processing AppleScript:', error);
-             // Check if the error object has stdout/stderr properties (from exec failure)
-             if (error.stderr) {
-               console.error(`Exec stderr: ${error.stderr}`);
-             }
-             if (error.stdout) {
-                console.error(`Exec stdout: ${error.stdout}`);
-                // If stdout contains the AppleScript error message, use that
-                if (error.stdout.trim().startsWith('Error:')) {
-                   // Re-throw the specific AppleScript error if found in stdout
-                   throw new Error(error.stdout.trim()); 
-                }
-             }
-            // Fallback if script execution failed
-            console.error('Falling back to general unread mail fetch due to script error.');
-            emails = await mailModule.getUnreadMails(args.limit); 
+              return emailData;
+            } catch (error: any) { // Catch errors from the script run or parsing
+              log.error('Error executing or processing AppleScript', error);
+               // Check if the error object has stdout/stderr properties (from osascript failure)
+               if (error.stderr) {
+                 log.error(`Exec stderr: ${error.stderr}`);
+               }
+               if (error.stdout) {
+                  log.error(`Exec stdout: ${error.stdout}`);
+                  // If stdout contains the AppleScript error message, use that
+                  if (error.stdout.trim().startsWith('Error:')) {
+                     // Re-throw the specific AppleScript error if found in stdout
+                     throw new Error(error.stdout.trim()); 
+                  }
+               }
+              // Fallback if script execution failed
+              log.warning('Falling back to general unread mail fetch due to script error.');
+              return await mailModule.getUnreadMails(count, onProgress);
+            }
+          } else {
+            return await mailModule.getUnreadMails(count, onProgress);
           }
-        } else {
-          emails = await mailModule.getUnreadMails(args.limit);
-        }
-        
+        });
+        const { items: emails, nextCursor, text } = renderPage(
+          shown => `Found ${shown} unread email(s)${args.account ? ` in account "${args.account}"` : ''}${args.mailbox ? ` and mailbox "${args.mailbox}"` : ''}`,
+          page, EMAIL, format, args.maxOutputChars
+        );
+
         return {
           content: [{ 
             type: "text", 
-            text: emails.length > 0 ? 
-              `Found ${emails.length} unread email(s)${args.account ? ` in account "${args.account}"` : ''}${args.mailbox ? ` and mailbox "${args.mailbox}"` : ''}:\n\n` +
-              emails.map((email: any) => 
-                `[${email.dateSent}] From: ${email.sender}\nMailbox: ${email.mailbox}\nSubject: ${email.subject}\n${email.content.substring(0, 500)}${email.content.length > 500 ? '...' : ''}`
-              ).join("\n\n") :
+            text: emails.length > 0 ? text :
               `No unread emails found${args.account ? ` in account "${args.account}"` : ''}${args.mailbox ? ` and mailbox "${args.mailbox}"` : ''}`
           }],
+          structuredContent: { operation: "unread", emails, nextCursor } satisfies MailResult,
           isError: false
         };
       }
 
       case "search": {
-        const emails = await mailModule.searchMails(args.searchTerm, args.limit);
+        const page = await fetchPage("mail", args, args.limit ?? 10, count =>
+          mailModule.searchMails(args.searchTerm, count, onProgress)
+        );
+        const { items: emails, nextCursor, text } = renderPage(
+          shown => `Found ${shown} email(s) for "${args.searchTerm}"${args.account ? ` in account "${args.account}"` : ''}${args.mailbox ? ` and mailbox "${args.mailbox}"` : ''}`,
+          page, EMAIL, format, args.maxOutputChars
+        );
         return {
           content: [{ 
             type: "text", 
-            text: emails.length > 0 ? 
-              `Found ${emails.length} email(s) for "${args.searchTerm}"${args.account ? ` in account "${args.account}"` : ''}${args.mailbox ? ` and mailbox "${args.mailbox}"` : ''}:\n\n` +
-              emails.map((email: any) => 
-                `[${email.dateSent}] From: ${email.sender}\nMailbox: ${email.mailbox}\nSubject: ${email.subject}\n${email.content.substring(0, 200)}${email.content.length > 200 ? '...' : ''}`
-              ).join("\n\n") :
+            text: emails.length > 0 ? text :
               `No emails found for "${args.searchTerm}"${args.account ? ` in account "${args.account}"` : ''}${args.mailbox ? ` and mailbox "${args.mailbox}"` : ''}`
           }],
+          structuredContent: { operation: "search", emails, nextCursor } satisfies MailResult,
           isError: false
         };
       }
@@ -161,6 +239,7 @@ export async function handleMail(
         return {
           // Ensure result is a string, provide default if null/undefined
           content: [{ type: "text", text: result ?? "Mail operation completed." }], 
+          structuredContent: { operation: "send", message: result ?? "Mail operation completed." } satisfies MailResult,
           isError: false
         };
       }
@@ -181,6 +260,7 @@ export async function handleMail(
               `Found ${mailboxesArray.length} mailboxes${args.account ? ` for account "${args.account}"` : ''}:\n\n${mailboxesArray.join("\n")}` :
               `No mailboxes found${args.account ? ` for account "${args.account}"` : ''}.`
           }],
+          structuredContent: { operation: "mailboxes", mailboxes: mailboxesArray } satisfies MailResult,
           isError: false
         };
       }
@@ -196,6 +276,7 @@ export async function handleMail(
               `Found ${accountsArray.length} email accounts:\n\n${accountsArray.join("\n")}` :
               "No email accounts found. Make sure Mail app is configured."
           }],
+          structuredContent: { operation: "accounts", accounts: accountsArray } satisfies MailResult,
           isError: false
         };
       }
@@ -205,12 +286,6 @@ export async function handleMail(
         throw new Error(`Unknown mail operation: ${(args as any).operation}`);
     }
   } catch (error) {
-    return {
-      content: [{
-        type: "text",
-        text: `Error with mail operation: ${error instanceof Error ? error.message : String(error)}`
-      }],
-      isError: true
-    };
+    return errorResult("Error with mail operation", error, "Mail");
   }
 }
@@ -1,48 +1,75 @@
 import { z } from "zod";
-import type { LoadModuleFunction, ToolResult } from "./../types";
-import { runAppleScript } from "run-applescript";
+import type { AutomationBackend, LoadModuleFunction, ToolResult } from "./../types";
 import * as path from "path";
 import * as fs from "fs";
+import { DryRunArgSchema, DryRunResultSchema } from "../dryRun";
+import { errorResult } from "../errors";
+import { CursorArgSchema, DEFAULT_PAGE_SIZE, NextCursorSchema, fetchPage } from "../pagination";
+import { FormatArgSchema, joinSections, renderItem, renderList, renderPage, textFormat, type ItemRenderer } from "../format";
+import { MaxOutputCharsArgSchema } from "../outputBudget";
+import { createLogger } from "../logger";
+
+const log = createLogger("handlers/maps");
 
 // Define the Zod schema for maps arguments
 export const MapsArgsSchema = z.discriminatedUnion("operation", [
   z.object({
     operation: z.literal("search"),
-    query: z.string().min(1),
-    limit: z.number().optional(),
-  }),
+    query: z.string().min(1).describe("Search query for locations"),
+    limit: z.number().int().positive().optional().describe(`Number of results per page (default ${DEFAULT_PAGE_SIZE})`),
+    cursor: CursorArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Search for locations"),
   z.object({
     operation: z.literal("save"),
-    name: z.string().min(1),
-    address: z.string().min(1),
-  }),
+    name: z.string().min(1).describe("Name of the location"),
+    address: z.string().min(1).describe("Address of the location"),
+    dryRun: DryRunArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Save a location to favorites"),
   z.object({
     operation: z.literal("pin"),
-    name: z.string().min(1),
-    address: z.string().min(1),
-  }),
+    name: z.string().min(1).describe("Name of the location"),
+    address: z.string().min(1).describe("Address of the location"),
+    dryRun: DryRunArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Drop a pin at a location"),
   z.object({
     operation: z.literal("directions"),
-    fromAddress: z.string().min(1),
-    toAddress: z.string().min(1),
-    transportType: z.enum(["driving", "walking", "transit"]).optional(),
-  }),
-  z.object({ operation: z.literal("listGuides") }),
+    fromAddress: z.string().min(1).describe("Starting address"),
+    toAddress: z.string().min(1).describe("Destination address"),
+    transportType: z.enum(["driving", "walking", "transit"]).optional().describe("Type of transport to use (default driving)"),
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Get directions between two addresses"),
+  z.object({ operation: z.literal("listGuides"), format: FormatArgSchema, maxOutputChars: MaxOutputCharsArgSchema }).describe("List guides"),
   z.object({
     operation: z.literal("addToGuide"),
-    address: z.string().min(1),
-    guideName: z.string().min(1),
-  }),
+    address: z.string().min(1).describe("Address of the location to add"),
+    guideName: z.string().min(1).describe("Name of the guide"),
+    dryRun: DryRunArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Add a location to a guide"),
   z.object({
     operation: z.literal("createGuide"),
-    guideName: z.string().min(1),
-  }),
-  z.object({ operation: z.literal("getCenter") }),
+    guideName: z.string().min(1).describe("Name of the guide"),
+    dryRun: DryRunArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Create a guide"),
+  z.object({ operation: z.literal("getCenter"), format: FormatArgSchema, maxOutputChars: MaxOutputCharsArgSchema }).describe("Get the current map center"),
   z.object({
     operation: z.literal("setCenter"),
-    latitude: z.number(),
-    longitude: z.number(),
-  }),
+    latitude: z.number().describe("Latitude for the center point"),
+    longitude: z.number().describe("Longitude for the center point"),
+    dryRun: DryRunArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Move the map center"),
 ]);
 
 // Define the argument type from the schema
@@ -95,6 +122,63 @@ interface CenterResponse {
   longitude?: number;
 }
 
+const MapLocationSchema = z.object({
+  name: z.string(),
+  address: z.string(),
+  latitude: z.number().nullable().optional(),
+  longitude: z.number().nullable().optional(),
+  category: z.string().nullable().optional(),
+});
+
+// Define the structured result returned alongside the text
+export const MapsResultSchema = z.object({
+  operation: z.enum(["search", "save", "pin", "directions", "listGuides", "addToGuide", "createGuide", "getCenter", "setCenter"]),
+  success: z.boolean(),
+  message: z.string().optional(),
+  locations: z.array(MapLocationSchema).optional().describe("Locations found by search"),
+  nextCursor: NextCursorSchema,
+  location: MapLocationSchema.optional().describe("Location that was saved or pinned"),
+  route: z.object({
+    startAddress: z.string(),
+    endAddress: z.string(),
+    distance: z.string(),
+    duration: z.string(),
+    transportType: z.enum(["driving", "walking", "transit"]),
+  }).optional(),
+  guides: z.array(z.object({ name: z.string(), itemCount: z.number() })).optional(),
+  guideName: z.string().optional(),
+  locationName: z.string().optional(),
+  center: z.object({ latitude: z.number(), longitude: z.number() }).optional().describe("Map center for getCenter and setCenter"),
+  dryRun: DryRunResultSchema.optional(),
+});
+
+type MapsResult = z.infer<typeof MapsResultSchema>;
+
+const LOCATION: ItemRenderer<z.infer<typeof MapLocationSchema>> = {
+  title: location => location.name,
+  fields: location => ({
+    Address: location.address,
+    Coordinates: location.latitude != null && location.longitude != null ?
+      `${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}` : undefined,
+    Category: location.category,
+  }),
+};
+
+const ROUTE: ItemRenderer<NonNullable<MapsResult["route"]>> = {
+  title: route => `${route.startAddress} to ${route.endAddress}`,
+  fields: route => ({ Distance: route.distance, Duration: route.duration, "Transport type": route.transportType }),
+};
+
+const GUIDE: ItemRenderer<NonNullable<MapsResult["guides"]>[number]> = {
+  title: guide => guide.name,
+  fields: guide => ({ Items: guide.itemCount }),
+};
+
+const CENTER: ItemRenderer<NonNullable<MapsResult["center"]>> = {
+  title: center => `${center.latitude.toFixed(6)}, ${center.longitude.toFixed(6)}`,
+  fields: center => ({ "Google Maps link": `https://www.google.com/maps?q=${center.latitude},${center.longitude}` }),
+};
+
 /**
  * Resolve the path to an AppleScript file
  * @param scriptName Name of the script file
@@ -127,13 +211,13 @@ function resolveScriptPath(scriptName: string): string {
   // Find the first path that exists
   for (const scriptPath of possiblePaths) {
     if (fs.existsSync(scriptPath)) {
-      console.log(`Found script at: ${scriptPath}`);
+      log.debug(`Found script at: ${scriptPath}`);
       return scriptPath;
     }
   }
 
   // Log all the paths we tried for debugging
-  console.error(`Could not find script: ${scriptName}. Tried paths:`, possiblePaths);
+  log.error(`Could not find script: ${scriptName}. Tried paths`, possiblePaths);
   
   // If no valid path is found, return the likely path
   return path.join('/Users/zach/Dev/MCP/apple/src/scripts', actualScriptName);
@@ -141,34 +225,33 @@ function resolveScriptPath(scriptName: string): string {
 
 /**
  * Run an AppleScript with proper error handling
+ * @param backend Automation backend to run the script with
  * @param scriptName Name of the script file
  * @param args Arguments to pass to the script
  * @returns Result of the script execution
  */
-async function runAppleScriptSafely(scriptName: string, args: string[] = []): Promise<string> {
+async function runAppleScriptSafely(backend: AutomationBackend, scriptName: string, args: string[] = []): Promise<string> {
   try {
     // Skip path resolution if full path provided
     const scriptPath = scriptName.includes('/') ? scriptName : resolveScriptPath(scriptName);
     
-    // Build the osascript command with proper escaping for all arguments
-    const escapedArgs = args.map(arg => `"${arg.replace(/"/g, '\\"')}"`).join(' ');
-    
     // Check if this is an AppleScript file
     if (scriptPath.endsWith('.applescript') || scriptPath.endsWith('.scpt')) {
       // For script files, use direct approach
-      console.log(`Executing AppleScript file: ${scriptPath}`);
+      log.debug(`Executing AppleScript file: ${scriptPath}`);
       // Use the script file directly with osascript
-      return await runAppleScript(`osascript "${scriptPath}" ${escapedArgs}`);
+      return await backend.runScriptFile(scriptPath, args);
     } else {
       // Original approach for non-file scripts
+      const escapedArgs = args.map(arg => `"${arg.replace(/"/g, '\\"')}"`).join(' ');
       const command = `${scriptPath} ${escapedArgs}`;
-      console.log(`Executing AppleScript: osascript -e ${command}`);
-      return await runAppleScript(command);
+      log.debug(`Executing AppleScript: osascript -e ${command}`);
+      return await backend.runAppleScript(command);
     }
   } catch (error) {
     // Enhance error message with more context
     const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Failed to execute AppleScript ${scriptName}: ${errorMessage}`);
+    throw new Error(`Failed to execute AppleScript ${scriptName}: ${errorMessage}`, { cause: error });
   }
 }
 
@@ -178,39 +261,27 @@ export async function handleMaps(
 ): Promise<ToolResult> {
   try {
     const mapsModule = await loadModule("maps");
+    const backend = await loadModule("backend");
+    const format = textFormat(args.format);
 
     switch (args.operation) {
       case "search": {
         const resultStr = await runAppleScriptSafely(
+          backend,
           "maps_search.scpt",
           [args.query]
         );
         const parsedResult: SearchResponse = JSON.parse(resultStr);
+        // The script always returns every match, so pages are cut from its full answer
+        const page = await fetchPage("maps", args, args.limit ?? DEFAULT_PAGE_SIZE, async () =>
+          parsedResult.locations ?? []
+        );
+        const { items: locations, nextCursor, text } = renderPage("Locations", page, LOCATION, format, args.maxOutputChars);
 
-        let detailedText = parsedResult.message || "Search completed";
-
-        if (parsedResult.locations && parsedResult.locations.length > 0) {
-          detailedText += "\n\n";
-          parsedResult.locations.forEach((location: any, index: number) => {
-            detailedText += `Location ${index + 1}:\n`;
-            detailedText += `• Name: ${location.name}\n`;
-            detailedText += `• Address: ${location.address}\n`;
-
-            if (location.latitude !== null && location.longitude !== null) {
-              detailedText += `• Coordinates: ${location.latitude.toFixed(
-                6
-              )}, ${location.longitude.toFixed(6)}\n`;
-            }
-
-            if (location.category) {
-              detailedText += `• Category: ${location.category}\n`;
-            }
-
-            if (index < parsedResult.locations.length - 1) {
-              detailedText += "\n";
-            }
-          });
-        }
+        const detailedText = joinSections(format,
+          parsedResult.message || "Search completed",
+          locations.length > 0 && text
+        );
 
         return {
           content: [
@@ -219,16 +290,20 @@ export async function handleMaps(
               text: detailedText,
             },
           ],
-          success: parsedResult.success,
-          locations: parsedResult.locations,
-          query: args.query,
-          limit: args.limit,
+          structuredContent: {
+            operation: "search",
+            success: parsedResult.success,
+            message: parsedResult.message,
+            locations,
+            nextCursor
+          } satisfies MapsResult,
           isError: !parsedResult.success,
         };
       }
 
       case "save": {
         const resultStr = await runAppleScriptSafely(
+          backend,
           "maps_save.scpt",
           [args.name, args.address]
         );
@@ -236,26 +311,31 @@ export async function handleMaps(
         if (parsedResult.guides && Array.isArray(parsedResult.guides) && parsedResult.guides.length > 0) {
           return {
             content: [{ type: "text", text: parsedResult.message || "Save operation completed" }],
-            success: parsedResult.success,
-            location: parsedResult.location,
-            name: args.name,
-            address: args.address,
+            structuredContent: {
+              operation: "save",
+              success: parsedResult.success,
+              message: parsedResult.message,
+              location: { name: args.name, address: args.address }
+            } satisfies MapsResult,
             isError: !parsedResult.success,
           };
         }
 
         return {
           content: [],
-          success: parsedResult.success,
-          location: parsedResult.location,
-          name: args.name,
-          address: args.address,
+          structuredContent: {
+            operation: "save",
+            success: parsedResult.success,
+            message: parsedResult.message,
+            location: { name: args.name, address: args.address }
+          } satisfies MapsResult,
           isError: !parsedResult.success,
         };
       }
 
       case "pin": {
         const resultStr = await runAppleScriptSafely(
+          backend,
           "maps_pin.scpt",
           [args.name, args.address]
         );
@@ -263,19 +343,23 @@ export async function handleMaps(
         if (parsedResult.guides && Array.isArray(parsedResult.guides) && parsedResult.guides.length > 0) {
           return {
             content: [{ type: "text", text: parsedResult.message || "Pin operation completed" }],
-            success: parsedResult.success,
-            location: parsedResult.location,
-            name: args.name,
-            address: args.address,
+            structuredContent: {
+              operation: "pin",
+              success: parsedResult.success,
+              message: parsedResult.message,
+              location: { name: args.name, address: args.address }
+            } satisfies MapsResult,
             isError: !parsedResult.success,
           };
         } else {
           return {
             content: [],
-            success: parsedResult.success,
-            location: parsedResult.location,
-            name: args.name,
-            address: args.address,
+            structuredContent: {
+              operation: "pin",
+              success: parsedResult.success,
+              message: parsedResult.message,
+              location: { name: args.name, address: args.address }
+            } satisfies MapsResult,
             isError: !parsedResult.success,
           };
         }
@@ -283,80 +367,78 @@ export async function handleMaps(
 
       case "directions": {
         const resultStr = await runAppleScriptSafely(
+          backend,
           "maps_directions.scpt",
           [args.fromAddress, args.toAddress, args.transportType || "driving"]
         );
         const parsedResult: DirectionsResponse = JSON.parse(resultStr);
 
-        let detailedText =
-          parsedResult.message || "Directions request completed";
-
-        if (parsedResult.success && parsedResult.route) {
-          detailedText += "\n\n";
-          detailedText += `• From: ${parsedResult.route.startAddress}\n`;
-          detailedText += `• To: ${parsedResult.route.endAddress}\n`;
-          detailedText += `• Distance: ${parsedResult.route.distance}\n`;
-          detailedText += `• Duration: ${parsedResult.route.duration}\n`;
-          detailedText += `• Transport Type: ${
-            args.transportType || "driving"
-          }\n`;
-        }
+        const route = parsedResult.route && { ...parsedResult.route, transportType: args.transportType || "driving" };
+        const detailedText = joinSections(format,
+          parsedResult.message || "Directions request completed",
+          parsedResult.success && route && renderItem(route, ROUTE, format)
+        );
 
         return {
           content: [{ type: "text", text: detailedText }],
-          success: parsedResult.success,
-          route: parsedResult.route,
-          fromAddress: args.fromAddress,
-          toAddress: args.toAddress,
-          transportType: args.transportType || "driving",
+          structuredContent: {
+            operation: "directions",
+            success: parsedResult.success,
+            message: parsedResult.message,
+            route
+          } satisfies MapsResult,
           isError: !parsedResult.success,
         };
       }
 
       case "listGuides": {
         const resultStr = await runAppleScriptSafely(
+          backend,
           "maps_list_guides.scpt"
         );
         const parsedResult: ListGuidesResponse = JSON.parse(resultStr);
 
-        let detailedText = parsedResult.message || "Guide listing completed";
-
-        if (parsedResult.success && parsedResult.guides && Array.isArray(parsedResult.guides) && parsedResult.guides.length > 0) {
-          detailedText += "\n\n";
-          detailedText += "Available guides:\n";
-          parsedResult.guides.forEach((guide: any, index: number) => {
-            detailedText += `${index + 1}. ${guide.name} (${
-              guide.itemCount
-            } items)\n`;
-          });
-        }
+        const detailedText = joinSections(format,
+          parsedResult.message || "Guide listing completed",
+          parsedResult.success && Array.isArray(parsedResult.guides) && parsedResult.guides.length > 0 &&
+            renderList("Available guides", parsedResult.guides, GUIDE, format, { maxChars: args.maxOutputChars })
+        );
 
         return {
           content: [{ type: "text", text: detailedText }],
-          success: parsedResult.success,
-          guides: parsedResult.guides,
+          structuredContent: {
+            operation: "listGuides",
+            success: parsedResult.success,
+            message: parsedResult.message,
+            guides: parsedResult.guides
+          } satisfies MapsResult,
           isError: !parsedResult.success,
         };
       }
 
       case "addToGuide": {
         const resultStr = await runAppleScriptSafely(
+          backend,
           "maps_add_to_guide.scpt",
           [args.address, args.guideName]
         );
         const parsedResult: GuideManipulationResponse = JSON.parse(resultStr);
         return {
           content: [{ type: "text", text: parsedResult.message || "Add to guide operation completed" }],
-          success: parsedResult.success,
-          guideName: parsedResult.guideName || args.guideName,
-          locationName: parsedResult.locationName,
-          address: args.address,
+          structuredContent: {
+            operation: "addToGuide",
+            success: parsedResult.success,
+            message: parsedResult.message,
+            guideName: parsedResult.guideName || args.guideName,
+            locationName: parsedResult.locationName
+          } satisfies MapsResult,
           isError: !parsedResult.success,
         };
       }
 
       case "createGuide": {
         const resultStr = await runAppleScriptSafely(
+          backend,
           "maps_create_guide.scpt",
           [args.guideName]
         );
@@ -364,8 +446,12 @@ export async function handleMaps(
 
         return {
           content: [{ type: "text", text: parsedResult.message || "Create guide operation completed" }],
-          success: parsedResult.success,
-          guideName: parsedResult.guideName || args.guideName,
+          structuredContent: {
+            operation: "createGuide",
+            success: parsedResult.success,
+            message: parsedResult.message,
+            guideName: parsedResult.guideName || args.guideName
+          } satisfies MapsResult,
           isError: !parsedResult.success,
         };
       }
@@ -373,23 +459,18 @@ export async function handleMaps(
       case "getCenter": {
         // Use the correct script filename
         const resultStr = await runAppleScriptSafely(
+          backend,
           "/Users/zach/Dev/MCP/apple/src/scripts/getMapCenterCoordinates.applescript"
         );
         const parsedResult: CenterResponse = JSON.parse(resultStr);
 
-        let detailedText =
-          parsedResult.message || "Get center operation completed";
-
-        if (
-          parsedResult.success &&
-          parsedResult.latitude !== undefined &&
-          parsedResult.longitude !== undefined
-        ) {
-          detailedText += "\n\n";
-          detailedText += `• Latitude: ${parsedResult.latitude.toFixed(6)}\n`;
-          detailedText += `• Longitude: ${parsedResult.longitude.toFixed(6)}\n`;
-          detailedText += `• Google Maps Link: https://www.google.com/maps?q=${parsedResult.latitude},${parsedResult.longitude}`;
-        }
+        const center = parsedResult.latitude !== undefined && parsedResult.longitude !== undefined
+          ? { latitude: parsedResult.latitude, longitude: parsedResult.longitude }
+          : undefined;
+        const detailedText = joinSections(format,
+          parsedResult.message || "Get center operation completed",
+          parsedResult.success && center && renderItem(center, CENTER, format)
+        );
 
         return {
           content: [
@@ -398,9 +479,12 @@ export async function handleMaps(
               text: detailedText,
             },
           ],
-          success: parsedResult.success,
-          latitude: parsedResult.latitude,
-          longitude: parsedResult.longitude,
+          structuredContent: {
+            operation: "getCenter",
+            success: parsedResult.success,
+            message: parsedResult.message,
+            center
+          } satisfies MapsResult,
           isError: !parsedResult.success,
         };
       }
@@ -411,20 +495,16 @@ export async function handleMaps(
         const longitudeStr = String(args.longitude);
         
         const resultStr = await runAppleScriptSafely(
+          backend,
           "/Users/zach/Dev/MCP/apple/src/scripts/setMapCenterCoordinates.applescript",
           [latitudeStr, longitudeStr]
         );
         const parsedResult: CenterResponse = JSON.parse(resultStr);
 
-        let detailedText =
-          parsedResult.message || "Set center operation completed";
-
-        if (parsedResult.success) {
-          detailedText += "\n\n";
-          detailedText += `• Latitude: ${args.latitude.toFixed(6)}\n`;
-          detailedText += `• Longitude: ${args.longitude.toFixed(6)}\n`;
-          detailedText += `• Google Maps Link: https://www.google.com/maps?q=${args.latitude},${args.longitude}`;
-        }
+        const detailedText = joinSections(format,
+          parsedResult.message || "Set center operation completed",
+          parsedResult.success && renderItem({ latitude: args.latitude, longitude: args.longitude }, CENTER, format)
+        );
 
         return {
           content: [
@@ -433,9 +513,12 @@ export async function handleMaps(
               text: detailedText,
             },
           ],
-          success: parsedResult.success,
-          latitude: args.latitude,
-          longitude: args.longitude,
+          structuredContent: {
+            operation: "setCenter",
+            success: parsedResult.success,
+            message: parsedResult.message,
+            center: { latitude: args.latitude, longitude: args.longitude }
+          } satisfies MapsResult,
           isError: !parsedResult.success,
         };
       }
@@ -458,14 +541,8 @@ export async function handleMaps(
                       "- The script execution syntax may need adjustment for your environment";
     }
     
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error in maps tool: ${errorMessage}${additionalInfo}`,
-        },
-      ],
-      isError: true,
-    };
+    const result = errorResult("Error in maps tool", error, "Maps");
+    result.content[0].text += additionalInfo;
+    return result;
   }
 }
\ No newline at end of file
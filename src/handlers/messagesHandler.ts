@@ -1,44 +1,114 @@
 import { z } from "zod";
 import type { LoadModuleFunction, ToolResult } from "./../types";
+import { DryRunArgSchema, DryRunResultSchema } from "../dryRun";
+import { CursorArgSchema, NextCursorSchema, fetchPage } from "../pagination";
+import { FormatArgSchema, formatDate, renderPage, textFormat, type ItemRenderer } from "../format";
+import { MaxOutputCharsArgSchema } from "../outputBudget";
+import { errorResult } from "../errors";
 
 // Define the Zod schema for messages arguments
 export const MessagesArgsSchema = z.discriminatedUnion("operation", [
-  z.object({ operation: z.literal("send"), phoneNumber: z.string(), message: z.string() }),
-  z.object({ operation: z.literal("read"), phoneNumber: z.string(), limit: z.number().optional() }),
-  z.object({ operation: z.literal("schedule"), phoneNumber: z.string(), message: z.string(), scheduledTime: z.string().datetime() }), // Assuming ISO 8601 format
-  z.object({ operation: z.literal("unread"), limit: z.number().optional() }),
+  z.object({
+    operation: z.literal("send"),
+    phoneNumber: z.string().describe("Phone number or email to send the message to"),
+    message: z.string().describe("Message to send"),
+    confirmToken: z.string().optional().describe("Token from an earlier unconfirmed call; repeat that call with it to confirm the send"),
+    dryRun: DryRunArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Send a message"),
+  z.object({
+    operation: z.literal("read"),
+    phoneNumber: z.string().describe("Phone number of the conversation to read"),
+    limit: z.number().int().positive().optional().describe("Number of messages per page (default 10)"),
+    cursor: CursorArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Read recent messages with a contact"),
+  z.object({
+    operation: z.literal("schedule"),
+    phoneNumber: z.string().describe("Phone number or email to send the message to"),
+    message: z.string().describe("Message to send"),
+    scheduledTime: z.string().datetime().describe("ISO string of when to send the message"), // Assuming ISO 8601 format
+    confirmToken: z.string().optional().describe("Token from an earlier unconfirmed call; repeat that call with it to confirm the send"),
+    dryRun: DryRunArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Schedule a message for later"),
+  z.object({
+    operation: z.literal("unread"),
+    limit: z.number().int().positive().optional().describe("Number of unread messages per page (default 10)"),
+    cursor: CursorArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Read unread messages"),
 ]);
 
 // Define the argument type from the schema
 type MessagesArgs = z.infer<typeof MessagesArgsSchema>;
 
+const MessageSchema = z.object({
+  content: z.string(),
+  date: z.string(),
+  sender: z.string().describe("Phone number or email of the sender"),
+  is_from_me: z.boolean(),
+  attachments: z.array(z.string()).optional(),
+  url: z.string().optional(),
+  displayName: z.string().optional().describe("Contact name of the sender (unread operation only)"),
+});
+
+// Define the structured result returned alongside the text
+export const MessagesResultSchema = z.object({
+  operation: z.enum(["send", "read", "schedule", "unread"]),
+  messages: z.array(MessageSchema).optional().describe("Messages returned by read or unread"),
+  nextCursor: NextCursorSchema,
+  phoneNumber: z.string().optional().describe("Recipient of a sent or scheduled message"),
+  scheduledTime: z.string().optional().describe("When a scheduled message will be sent, in ISO format"),
+  confirmToken: z.string().optional().describe("Set when nothing was sent yet: repeat the call with this token once the user approves"),
+  dryRun: DryRunResultSchema.optional(),
+});
+
+type MessagesResult = z.infer<typeof MessagesResultSchema>;
+
+const MESSAGE: ItemRenderer<z.infer<typeof MessageSchema>> = {
+  title: msg => msg.is_from_me ? "Me" : msg.displayName ?? msg.sender,
+  fields: (msg, format) => ({
+    Date: formatDate(msg.date, format),
+    Attachments: msg.attachments?.join(", "),
+    URL: msg.url,
+  }),
+  body: msg => msg.content,
+};
+
 export async function handleMessages(
   args: MessagesArgs,
   loadModule: LoadModuleFunction
 ): Promise<ToolResult> {
   try {
     const messageModule = await loadModule('message');
+    const format = textFormat(args.format);
 
     switch (args.operation) {
       case "send": {
         await messageModule.sendMessage(args.phoneNumber, args.message);
         return {
           content: [{ type: "text", text: `Message sent to ${args.phoneNumber}` }],
+          structuredContent: { operation: "send", phoneNumber: args.phoneNumber } satisfies MessagesResult,
           isError: false
         };
       }
 
       case "read": {
-        const messages = await messageModule.readMessages(args.phoneNumber, args.limit);
+        const page = await fetchPage("messages", args, args.limit ?? 10, count =>
+          messageModule.readMessages(args.phoneNumber, count)
+        );
+        const { items: messages, nextCursor, text } = renderPage(`Messages with ${args.phoneNumber}`, page, MESSAGE, format, args.maxOutputChars);
         return {
           content: [{ 
             type: "text", 
-            text: messages.length > 0 ? 
-              messages.map(msg => 
-                `[${new Date(msg.date).toLocaleString()}] ${msg.is_from_me ? 'Me' : msg.sender}: ${msg.content}`
-              ).join("\n") :
-              "No messages found"
+            text: messages.length > 0 ? text : "No messages found"
           }],
+          structuredContent: { operation: "read", messages, nextCursor } satisfies MessagesResult,
           isError: false
         };
       }
@@ -52,19 +122,26 @@ export async function handleMessages(
         return {
           content: [{ 
             type: "text", 
-            text: `Message scheduled to be sent to ${args.phoneNumber} at ${scheduledMsg.scheduledTime}` 
+            text: `Message scheduled to be sent to ${args.phoneNumber} at ${formatDate(scheduledMsg.scheduledTime, format)}` 
           }],
+          structuredContent: {
+            operation: "schedule",
+            phoneNumber: args.phoneNumber,
+            scheduledTime: scheduledMsg.scheduledTime.toISOString()
+          } satisfies MessagesResult,
           isError: false
         };
       }
 
       case "unread": {
-        const messages = await messageModule.getUnreadMessages(args.limit);
-        
-        // Look up contact names for all messages
+        const page = await fetchPage("messages", args, args.limit ?? 10, count =>
+          messageModule.getUnreadMessages(count)
+        );
+
+        // Look up contact names for the messages on this page
         const contactsModule = await loadModule('contacts'); // Need contacts module here
         const messagesWithNames = await Promise.all(
-          messages.map(async msg => {
+          page.items.map(async msg => {
             // Only look up names for messages not from me
             if (!msg.is_from_me) {
               const contactName = await contactsModule.findContactByPhone(msg.sender);
@@ -79,17 +156,16 @@ export async function handleMessages(
             };
           })
         );
+        const { items: messages, nextCursor, text } = renderPage(
+          shown => `Found ${shown} unread message(s)`, { ...page, items: messagesWithNames }, MESSAGE, format, args.maxOutputChars
+        );
 
         return {
           content: [{ 
             type: "text", 
-            text: messagesWithNames.length > 0 ? 
-              `Found ${messagesWithNames.length} unread message(s):\n` +
-              messagesWithNames.map(msg => 
-                `[${new Date(msg.date).toLocaleString()}] From ${msg.displayName}:\n${msg.content}`
-              ).join("\n\n") :
-              "No unread messages found"
+            text: messages.length > 0 ? text : "No unread messages found"
           }],
+          structuredContent: { operation: "unread", messages, nextCursor } satisfies MessagesResult,
           isError: false
         };
       }
@@ -99,12 +175,6 @@ export async function handleMessages(
         throw new Error(`Unknown messages operation: ${(args as any).operation}`);
     }
   } catch (error) {
-    return {
-      content: [{
-        type: "text",
-        text: `Error with messages operation: ${error instanceof Error ? error.message : String(error)}`
-      }],
-      isError: true
-    };
+    return errorResult("Error with messages operation", error, "Messages");
   }
 }
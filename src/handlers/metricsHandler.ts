@@ -0,0 +1,106 @@
+import { z } from "zod";
+import type { ToolResult } from "./../types";
+import { estimateQuantile, type Metrics } from "../metrics";
+import { errorResult } from "../errors";
+import { FormatArgSchema, formatDate, joinSections, renderList, textFormat, type ItemRenderer } from "../format";
+import { MaxOutputCharsArgSchema } from "../outputBudget";
+
+const SORT_ORDERS = ["totalTime", "p95", "errors", "calls"] as const;
+
+// Define the Zod schema for metrics arguments
+export const MetricsArgsSchema = z.discriminatedUnion("operation", [
+  z.object({
+    operation: z.literal("summary"),
+    tool: z.string().optional().describe("Only show operations of this tool, e.g. 'mail'"),
+    sortBy: z.enum(SORT_ORDERS).optional()
+      .describe("Order: totalTime (default, where the time goes), p95 (slowest calls), errors or calls"),
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Call counts, errors by type and latency per tool and operation since the server started"),
+]);
+
+// Define the argument type from the schema
+type MetricsArgs = z.infer<typeof MetricsArgsSchema>;
+
+// Define the structured result returned alongside the text
+export const MetricsResultSchema = z.object({
+  operation: z.enum(["summary"]),
+  since: z.string().describe("When the server started counting"),
+  operations: z.array(z.object({
+    tool: z.string(),
+    operation: z.string(),
+    calls: z.number(),
+    errors: z.number(),
+    errorsByCode: z.record(z.number()).describe("Failed calls by error code; OTHER for failures without one, e.g. a declined send"),
+    totalMs: z.number(),
+    meanMs: z.number(),
+    p50Ms: z.number().describe("Estimated from the latency histogram"),
+    p95Ms: z.number().describe("Estimated from the latency histogram"),
+    maxMs: z.number(),
+  })),
+});
+
+type MetricsResult = z.infer<typeof MetricsResultSchema>;
+type OperationSummary = MetricsResult["operations"][number];
+
+const SORT_KEYS: Record<(typeof SORT_ORDERS)[number], (entry: OperationSummary) => number> = {
+  totalTime: entry => entry.totalMs,
+  p95: entry => entry.p95Ms,
+  errors: entry => entry.errors,
+  calls: entry => entry.calls,
+};
+
+const OPERATION: ItemRenderer<OperationSummary> = {
+  title: entry => `${entry.tool}.${entry.operation}`,
+  fields: entry => ({
+    Calls: entry.calls,
+    Errors: entry.errors > 0 ?
+      `${entry.errors} (${Object.entries(entry.errorsByCode).map(([code, count]) => `${code} ${count}`).join(', ')})` :
+      undefined,
+    Latency: `mean ${entry.meanMs} ms, p50 ~${entry.p50Ms} ms, p95 ~${entry.p95Ms} ms, max ${entry.maxMs} ms`,
+    'Total time': `${(entry.totalMs / 1000).toFixed(1)} s`,
+  }),
+};
+
+export async function handleMetrics(
+  args: MetricsArgs,
+  metrics: Metrics
+): Promise<ToolResult> {
+  try {
+    const sortKey = SORT_KEYS[args.sortBy ?? "totalTime"];
+    const operations = metrics.snapshot()
+      .filter(entry => !args.tool || entry.tool === args.tool)
+      .map(entry => ({
+        tool: entry.tool,
+        operation: entry.operation,
+        calls: entry.calls,
+        errors: entry.errors,
+        errorsByCode: entry.errorsByCode,
+        totalMs: entry.totalMs,
+        meanMs: Math.round(entry.totalMs / entry.calls),
+        p50Ms: estimateQuantile(entry, 0.5),
+        p95Ms: estimateQuantile(entry, 0.95),
+        maxMs: entry.maxMs,
+      }))
+      .sort((a, b) => sortKey(b) - sortKey(a));
+    const since = metrics.since.toISOString();
+    const format = textFormat(args.format);
+
+    return {
+      content: [{
+        type: "text",
+        text: operations.length > 0 ?
+          joinSections(
+            format,
+            `Since ${formatDate(since, format)}`,
+            renderList(shown => `${shown} operation(s) called${args.tool ? ` of ${args.tool}` : ''}`, operations, OPERATION, format, { maxChars: args.maxOutputChars })
+          ) :
+          `No calls${args.tool ? ` of ${args.tool}` : ''} since ${formatDate(since, format)}.`
+      }],
+      structuredContent: { operation: "summary", since, operations } satisfies MetricsResult,
+      isError: false
+    };
+  } catch (error) {
+    return errorResult("Error reading metrics", error);
+  }
+}
@@ -1,61 +1,142 @@
 import { z } from "zod";
-import type { LoadModuleFunction, ToolResult } from "./../types";
+import type { LoadModuleFunction, ProgressReporter, ToolResult } from "./../types";
+import { DryRunArgSchema, DryRunResultSchema } from "../dryRun";
+import { reportSearchProgress } from "../progress";
+import { CacheArgSchema } from "../cache";
+import { CursorArgSchema, DEFAULT_PAGE_SIZE, NextCursorSchema, fetchPage } from "../pagination";
+import { FormatArgSchema, renderList, renderPage, textFormat, type ItemRenderer } from "../format";
+import { MaxOutputCharsArgSchema } from "../outputBudget";
+import { errorResult } from "../errors";
 
 // Define the Zod schema for notes arguments
 export const NotesArgsSchema = z.discriminatedUnion("operation", [
   // Add folderName to search and list
-  z.object({ operation: z.literal("search"), searchText: z.string().min(1), folderName: z.string().optional() }),
-  z.object({ operation: z.literal("list"), folderName: z.string().optional() }),
+  z.object({
+    operation: z.literal("search"),
+    searchText: z.string().min(1).describe("Text to search for in note titles and content"),
+    folderName: z.string().optional().describe("Only search notes in this folder"),
+    limit: z.number().int().positive().optional().describe(`Notes per page (default ${DEFAULT_PAGE_SIZE})`),
+    cursor: CursorArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Search notes"),
+  z.object({
+    operation: z.literal("list"),
+    folderName: z.string().optional().describe("Only list notes in this folder"),
+    limit: z.number().int().positive().optional().describe(`Notes per page (default ${DEFAULT_PAGE_SIZE})`),
+    cursor: CursorArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("List notes"),
   z.object({ 
     operation: z.literal("create"), 
-    title: z.string().min(1), 
-    body: z.string(),
-    folderName: z.string().min(1).optional(), // Keep optional for create (defaults to 'Claude')
-  }),
-  z.object({ operation: z.literal("listFolders") }), // Add listFolders operation
-  z.object({ operation: z.literal("createFolder"), folderName: z.string().min(1) }), // Add createFolder operation
+    title: z.string().min(1).describe("Title of the note to create"), 
+    body: z.string().describe("Content of the note to create"),
+    folderName: z.string().min(1).optional().describe("Folder to create the note in (default from config, 'Claude' unless set; created if missing)"), // Keep optional for create (defaults to the configured folder)
+    dryRun: DryRunArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Create a note"),
+  z.object({
+    operation: z.literal("listFolders"),
+    cache: CacheArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("List folders"),
+  z.object({
+    operation: z.literal("createFolder"),
+    folderName: z.string().min(1).describe("Name of the folder to create"),
+    dryRun: DryRunArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Create a folder"), // Add createFolder operation
 ]);
 
 // Define the argument type from the schema
 type NotesArgs = z.infer<typeof NotesArgsSchema>;
 
+const NoteSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  content: z.string(),
+  folderName: z.string(),
+});
+
+// Define the structured result returned alongside the text
+export const NotesResultSchema = z.object({
+  operation: z.enum(["search", "list", "create", "listFolders", "createFolder"]),
+  notes: z.array(NoteSchema).optional().describe("Notes found by search or list"),
+  nextCursor: NextCursorSchema,
+  folders: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    containerName: z.string(),
+  })).optional().describe("Folders returned by listFolders"),
+  note: NoteSchema.optional().describe("The created note"),
+  folderName: z.string().optional().describe("Folder the note or folder was created in"),
+  usedDefaultFolder: z.boolean().optional(),
+  success: z.boolean().optional().describe("Whether create or createFolder succeeded"),
+  message: z.string().optional(),
+  dryRun: DryRunResultSchema.optional(),
+});
+
+type NotesResult = z.infer<typeof NotesResultSchema>;
+
+const NOTE: ItemRenderer<z.infer<typeof NoteSchema>> = {
+  title: note => note.name,
+  fields: note => ({ Folder: note.folderName, ID: note.id }),
+  body: note => note.content,
+};
+
+const FOLDER: ItemRenderer<NonNullable<NotesResult["folders"]>[number]> = {
+  title: folder => folder.name,
+  fields: folder => ({ Container: folder.containerName, ID: folder.id }),
+};
+
 export async function handleNotes(
   args: NotesArgs,
-  loadModule: LoadModuleFunction
+  loadModule: LoadModuleFunction,
+  reportProgress?: ProgressReporter
 ): Promise<ToolResult> {
   try {
     const notesModule = await loadModule('notes');
+    const format = textFormat(args.format);
 
     switch (args.operation) {
       case "search": {
         // Pass folderName to findNote
-        const foundNotes = await notesModule.findNote(args.searchText, args.folderName); 
+        const page = await fetchPage("notes", args, args.limit ?? DEFAULT_PAGE_SIZE, () =>
+          notesModule.findNote(
+            args.searchText,
+            args.folderName,
+            reportSearchProgress(reportProgress, "Folder", (note: { name: string }) => note.name)
+          )
+        );
         const folderText = args.folderName ? ` in folder "${args.folderName}"` : '';
+        const { items: foundNotes, nextCursor, text } = renderPage(`Notes matching "${args.searchText}"${folderText}`, page, NOTE, format, args.maxOutputChars);
         return {
           content: [{
             type: "text",
-            text: foundNotes.length ?
-              // Include folder name in output
-              foundNotes.map(note => `Folder: ${note.folderName}\nName: ${note.name}\n${note.content}`).join("\n\n---\n\n") : 
-              `No notes found for "${args.searchText}"${folderText}`
+            text: foundNotes.length ? text : `No notes found for "${args.searchText}"${folderText}`
           }],
+          structuredContent: { operation: "search", notes: foundNotes, nextCursor } satisfies NotesResult,
           isError: false
         };
       }
 
       case "list": {
         // Pass folderName to getAllNotes
-        const notesInFolder = await notesModule.getAllNotes(args.folderName); 
+        const page = await fetchPage("notes", args, args.limit ?? DEFAULT_PAGE_SIZE, () =>
+          notesModule.getAllNotes(args.folderName)
+        );
         const folderText = args.folderName ? ` in folder "${args.folderName}"` : '';
+        const { items: notesInFolder, nextCursor, text } = renderPage(`Notes${folderText}`, page, NOTE, format, args.maxOutputChars);
         return {
           content: [{
             type: "text",
-            text: notesInFolder.length ?
-              // Include folder name in output
-              notesInFolder.map((note) => `Folder: ${note.folderName}\nName: ${note.name}\n${note.content}`) 
-              .join("\n\n---\n\n") : 
-              `No notes exist${folderText}.`
+            text: notesInFolder.length ? text : `No notes exist${folderText}.`
           }],
+          structuredContent: { operation: "list", notes: notesInFolder, nextCursor } satisfies NotesResult,
           isError: false
         };
       }
@@ -71,6 +152,14 @@ export async function handleNotes(
               `Created note "${args.title}" in folder "${createdFolderName}"${result.usedDefaultFolder ? ' (created new folder)' : ''}.` :
               `Failed to create note: ${result.message}`
           }],
+          structuredContent: {
+            operation: "create",
+            success: result.success,
+            message: result.message,
+            note: result.note,
+            folderName: result.folderName,
+            usedDefaultFolder: result.usedDefaultFolder
+          } satisfies NotesResult,
           isError: !result.success
         };
       }
@@ -82,9 +171,10 @@ export async function handleNotes(
            content: [{
              type: "text",
              text: folderDetails.length > 0 ? 
-               `Available folders:\n${folderDetails.map(f => `- Name: ${f.name}\n  Container: ${f.containerName}\n  ID: ${f.id}`).join('\n\n')}` :
+               renderList("Available folders", folderDetails, FOLDER, format, { maxChars: args.maxOutputChars }) :
                "No folders found."
            }],
+           structuredContent: { operation: "listFolders", folders: folderDetails } satisfies NotesResult,
            isError: false
           };
         }
@@ -99,6 +189,12 @@ export async function handleNotes(
                `Successfully created folder "${args.folderName}".` :
                `Failed to create folder "${args.folderName}": ${result.message}`
            }],
+           structuredContent: {
+             operation: "createFolder",
+             success: result.success,
+             message: result.message,
+             folderName: args.folderName
+           } satisfies NotesResult,
            isError: !result.success
          };
        }
@@ -108,12 +204,6 @@ export async function handleNotes(
         throw new Error(`Unknown notes operation: ${(args as any).operation}`);
     }
   } catch (error) {
-    return {
-      content: [{
-        type: "text",
-        text: `Error accessing notes: ${error instanceof Error ? error.message : String(error)}`
-      }],
-      isError: true
-    };
+    return errorResult("Error accessing notes", error, "Notes");
   }
 }
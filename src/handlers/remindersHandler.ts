@@ -1,70 +1,157 @@
 import { z } from "zod";
-import type { LoadModuleFunction, ToolResult } from "./../types";
+import type { LoadModuleFunction, ProgressReporter, ToolResult } from "./../types";
+import { DryRunArgSchema, DryRunResultSchema } from "../dryRun";
+import { reportSearchProgress } from "../progress";
+import { CacheArgSchema } from "../cache";
+import { CursorArgSchema, DEFAULT_PAGE_SIZE, NextCursorSchema, fetchPage } from "../pagination";
+import { FormatArgSchema, formatDate, joinSections, renderList, renderPage, textFormat, type ItemRenderer } from "../format";
+import { MaxOutputCharsArgSchema } from "../outputBudget";
+import { errorResult } from "../errors";
+import { createLogger } from "../logger";
+
+const log = createLogger("handlers/reminders");
 
 // Define the Zod schema for reminders arguments
 export const RemindersArgsSchema = z.discriminatedUnion("operation", [
-  z.object({ operation: z.literal("list") }),
-  z.object({ operation: z.literal("search"), searchText: z.string().min(1) }),
-  z.object({ operation: z.literal("open"), searchText: z.string().min(1) }),
+  z.object({
+    operation: z.literal("list"),
+    cache: CacheArgSchema,
+    limit: z.number().int().positive().optional().describe(`Reminders per page (default ${DEFAULT_PAGE_SIZE}); lists are always returned in full`),
+    cursor: CursorArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("List all reminder lists and reminders"),
+  z.object({
+    operation: z.literal("search"),
+    searchText: z.string().min(1).describe("Text to search for in reminder names and notes"),
+    limit: z.number().int().positive().optional().describe(`Reminders per page (default ${DEFAULT_PAGE_SIZE})`),
+    cursor: CursorArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Search reminders"),
+  z.object({
+    operation: z.literal("open"),
+    searchText: z.string().min(1).describe("Text identifying the reminder to open"),
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Open a reminder in Reminders"),
   z.object({ 
     operation: z.literal("create"), 
-    name: z.string().min(1), 
-    listName: z.string().optional(), 
-    notes: z.string().optional(), 
-    dueDate: z.string().datetime().optional() // Assuming ISO 8601 format
-  }),
-  z.object({ operation: z.literal("listById"), listId: z.string().min(1), props: z.array(z.string()).optional() }),
+    name: z.string().min(1).describe("Name of the reminder to create"), 
+    listName: z.string().optional().describe("Name of the list to create the reminder in (default from config, 'Reminders' unless set)"), 
+    notes: z.string().optional().describe("Additional notes for the reminder"), 
+    dueDate: z.string().datetime().optional().describe("Due date for the reminder in ISO format"), // Assuming ISO 8601 format
+    dryRun: DryRunArgSchema,
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Create a reminder"),
+  z.object({
+    operation: z.literal("listById"),
+    listId: z.string().min(1).describe("ID of the list to get reminders from"),
+    props: z.array(z.string()).optional().describe("Properties to include in the reminders"),
+    format: FormatArgSchema,
+    maxOutputChars: MaxOutputCharsArgSchema,
+  }).describe("Get the reminders of one list"),
 ]);
 
 // Define the argument type from the schema
 type RemindersArgs = z.infer<typeof RemindersArgsSchema>;
 
+const ReminderSchema = z.object({
+  name: z.string(),
+  id: z.string().optional().describe("Reminder ID (only missing when listById props leave it out)"),
+  body: z.string().nullable().optional(),
+  completed: z.boolean().optional(),
+  dueDate: z.string().nullable().optional(),
+  listName: z.string().optional(),
+  completionDate: z.string().nullable().optional(),
+  creationDate: z.string().nullable().optional(),
+  modificationDate: z.string().nullable().optional(),
+  remindMeDate: z.string().nullable().optional(),
+  priority: z.number().optional(),
+});
+
+// Define the structured result returned alongside the text
+export const RemindersResultSchema = z.object({
+  operation: z.enum(["list", "search", "open", "create", "listById"]),
+  lists: z.array(z.object({ name: z.string(), id: z.string() })).optional().describe("Reminder lists returned by list"),
+  reminders: z.array(ReminderSchema).optional().describe("Reminders returned by list, search or listById"),
+  nextCursor: NextCursorSchema,
+  reminder: ReminderSchema.optional().describe("The opened or created reminder"),
+  success: z.boolean().optional(),
+  message: z.string().optional(),
+  dryRun: DryRunResultSchema.optional(),
+});
+
+type RemindersResult = z.infer<typeof RemindersResultSchema>;
+
+const REMINDER: ItemRenderer<z.infer<typeof ReminderSchema>> = {
+  title: reminder => reminder.name,
+  fields: (reminder, format) => ({
+    List: reminder.listName,
+    Due: formatDate(reminder.dueDate, format),
+    Completed: reminder.completed ? "yes" : undefined,
+    Priority: reminder.priority || undefined,
+    ID: reminder.id,
+  }),
+  body: reminder => reminder.body,
+};
+
+const LIST: ItemRenderer<{ name: string; id: string; reminderCount: number }> = {
+  title: list => list.name,
+  fields: list => ({ Reminders: list.reminderCount, ID: list.id }),
+};
+
 export async function handleReminders(
   args: RemindersArgs,
-  loadModule: LoadModuleFunction
+  loadModule: LoadModuleFunction,
+  reportProgress?: ProgressReporter
 ): Promise<ToolResult> {
   try {
     const remindersModule = await loadModule('reminders');
+    const format = textFormat(args.format);
 
     switch (args.operation) {
       case "list": {
         const lists = await remindersModule.getAllLists();
         const allReminders = await remindersModule.getAllReminders();
+        const page = await fetchPage("reminders", args, args.limit ?? DEFAULT_PAGE_SIZE, async () => allReminders);
+        const { items: reminders, nextCursor, text } = renderPage("Reminders", page, REMINDER, format, args.maxOutputChars);
         
-        // Create a more detailed message that includes list names
-        let detailedText = `Found ${lists.length} lists and ${allReminders.length} reminders.\n\n`;
-        
-        // Add list details if any lists exist
-        if (lists.length > 0) {
-          detailedText += "Available lists:\n";
-          lists.forEach(list => {
-            const remindersInList = allReminders.filter(r => r.listName === list.name).length;
-            detailedText += `- ${list.name} (${remindersInList} reminders)\n`;
-          });
-        }
+        // Lists with how many reminders each holds, then this page of reminders
+        const listsWithCounts = lists.map(list => ({
+          ...list,
+          reminderCount: allReminders.filter(r => r.listName === list.name).length,
+        }));
         
         return {
           content: [{
             type: "text",
-            text: detailedText
+            text: joinSections(format,
+              `Found ${lists.length} lists and ${allReminders.length} reminders.`,
+              lists.length > 0 && renderList("Available lists", listsWithCounts, LIST, format, { maxChars: args.maxOutputChars }),
+              reminders.length > 0 && text
+            )
           }],
-          success: true,
-          lists, // Include lists in the result
-          reminders: allReminders, // Include reminders in the result
+          structuredContent: { operation: "list", lists, reminders, nextCursor } satisfies RemindersResult,
           isError: false
         };
       }
       
       case "search": {
-        const results = await remindersModule.searchReminders(args.searchText);
+        const page = await fetchPage("reminders", args, args.limit ?? DEFAULT_PAGE_SIZE, () =>
+          remindersModule.searchReminders(
+            args.searchText,
+            reportSearchProgress(reportProgress, "List", (reminder: { name: string }) => reminder.name)
+          )
+        );
+        const { items: results, nextCursor, text } = renderPage(shown => `Found ${shown} reminders matching "${args.searchText}"`, page, REMINDER, format, args.maxOutputChars);
         return {
           content: [{
             type: "text",
-            text: results.length > 0 
-              ? `Found ${results.length} reminders matching "${args.searchText}".` 
-              : `No reminders found matching "${args.searchText}".`
+            text: results.length > 0 ? text : `No reminders found matching "${args.searchText}".`
           }],
-          reminders: results, // Include results
+          structuredContent: { operation: "search", reminders: results, nextCursor } satisfies RemindersResult,
           isError: false
         };
       } 
@@ -78,7 +165,7 @@ export async function handleReminders(
               ? `Opened Reminders app. Found reminder: ${result.reminder?.name}` 
               : result.message
           }],
-          ...result, // Spread the result object which contains success, message, reminder?
+          structuredContent: { operation: "open", ...result } satisfies RemindersResult, // success, message, reminder?
           isError: !result.success
         };
       } 
@@ -88,10 +175,9 @@ export async function handleReminders(
         return {
           content: [{
             type: "text",
-            text: `Created reminder "${result.name}" ${args.listName ? `in list "${args.listName}"` : ''}.`
+            text: `Created reminder "${result.name}" in list "${result.listName}".`
           }],
-          success: true, // Explicitly set success
-          reminder: result, // Include the created reminder
+          structuredContent: { operation: "create", success: true, reminder: result } satisfies RemindersResult,
           isError: false
         };
       }
@@ -102,10 +188,10 @@ export async function handleReminders(
           content: [{
             type: "text",
             text: results.length > 0 
-              ? `Found ${results.length} reminders in list with ID "${args.listId}".` 
+              ? renderList(shown => `Found ${shown} reminders in list with ID "${args.listId}"`, results, REMINDER, format, { maxChars: args.maxOutputChars }) 
               : `No reminders found in list with ID "${args.listId}".`
           }],
-          reminders: results, // Include results
+          structuredContent: { operation: "listById", reminders: results } satisfies RemindersResult,
           isError: false
         };
       }
@@ -115,13 +201,7 @@ export async function handleReminders(
         throw new Error(`Unknown reminders operation: ${(args as any).operation}`);
     }
   } catch (error) {
-    console.error("Error in reminders tool:", error);
-    return {
-      content: [{
-        type: "text",
-        text: `Error in reminders tool: ${error instanceof Error ? error.message : String(error)}`
-      }],
-      isError: true
-    };
+    log.error("Error in reminders tool", error);
+    return errorResult("Error in reminders tool", error, "Reminders");
   }
 }
@@ -1,14 +1,41 @@
 import { z } from "zod";
 import type { LoadModuleFunction, ToolResult } from "./../types";
+import { errorResult } from "../errors";
+import { FormatArgSchema, renderList, textFormat, type ItemRenderer } from "../format";
+import { MaxOutputCharsArgSchema } from "../outputBudget";
 
 // Define the Zod schema for web search arguments
 export const WebSearchArgsSchema = z.object({
-  query: z.string().min(1),
+  query: z.string().min(1).describe("Search query to look up"),
+  format: FormatArgSchema,
+  maxOutputChars: MaxOutputCharsArgSchema,
 });
 
 // Define the argument type from the schema
 type WebSearchArgs = z.infer<typeof WebSearchArgsSchema>;
 
+// Define the structured result returned alongside the text
+export const WebSearchResultSchema = z.object({
+  query: z.string(),
+  results: z.array(z.object({
+    title: z.string(),
+    url: z.string(),
+    displayUrl: z.string(),
+    snippet: z.string(),
+    content: z.string().nullable().describe("Text content fetched from the result page"),
+    error: z.string().optional(),
+  })),
+  error: z.string().optional(),
+});
+
+type WebSearchResult = z.infer<typeof WebSearchResultSchema>;
+
+const SEARCH_RESULT: ItemRenderer<WebSearchResult["results"][number]> = {
+  title: result => result.title,
+  fields: result => ({ URL: result.url, Summary: result.snippet, Error: result.error }),
+  body: result => result.content,
+};
+
 export async function handleWebSearch(
   args: WebSearchArgs,
   loadModule: LoadModuleFunction
@@ -21,18 +48,13 @@ export async function handleWebSearch(
       content: [{
         type: "text",
         text: result.results.length > 0 ? 
-          `Found ${result.results.length} results for "${args.query}". ${result.results.map(r => `[${r.displayUrl}] ${r.title} - ${r.snippet} \n content: ${r.content}`).join("\n")}` : 
+          renderList(shown => `Found ${shown} results for "${args.query}"`, result.results, SEARCH_RESULT, textFormat(args.format), { maxChars: args.maxOutputChars }) : 
           `No results found for "${args.query}".`
       }],
+      structuredContent: { ...result } satisfies WebSearchResult,
       isError: false
     };
   } catch (error) {
-    return {
-      content: [{
-        type: "text",
-        text: `Error performing web search: ${error instanceof Error ? error.message : String(error)}`
-      }],
-      isError: true
-    };
+    return errorResult("Error performing web search", error);
   }
 }
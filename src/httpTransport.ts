@@ -0,0 +1,202 @@
+import { createServer, type IncomingMessage, type Server as HttpServer, type ServerResponse } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { createLogger } from "./logger";
+
+const log = createLogger("http");
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  // Clients must send `Authorization: Bearer <token>` when set
+  token?: string;
+  // Prometheus text served on GET /metrics, behind the same token
+  metrics?: () => string;
+  // Sessions without a request or an open stream for this long are closed, with their server
+  idleTimeoutMs?: number;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+interface Session<T> {
+  transport: T;
+  server: Server;
+  lastActive: number;
+  // GET streams the client is listening on; a session with one isn't idle
+  openStreams: number;
+}
+
+// Count `res` as an open stream of `session` until it closes, from when idle time counts again
+function holdStream(session: Session<unknown>, res: ServerResponse) {
+  session.openStreams++;
+  res.on("close", () => {
+    session.openStreams--;
+    session.lastActive = Date.now();
+  });
+}
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1", "[::1]"]);
+
+export const isLoopbackHost = (host: string) => LOOPBACK_HOSTS.has(host);
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+function hasValidToken(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// When bound to loopback, only accept loopback Host headers so a web page can't reach us via DNS rebinding
+function hasAllowedHost(req: IncomingMessage, options: HttpTransportOptions): boolean {
+  if (!isLoopbackHost(options.host)) return true;
+  const hostname = (req.headers.host ?? "").replace(/:\d+$/, "");
+  return isLoopbackHost(hostname);
+}
+
+/**
+ * Serve MCP over HTTP: streamable HTTP on /mcp and legacy SSE on /sse + /messages,
+ * and Prometheus metrics on /metrics when `options.metrics` is set.
+ * Every client session gets its own Server from `createMcpServer`, closed along with the
+ * session: when the client ends it, or after `idleTimeoutMs` without a request while no
+ * stream is open.
+ */
+export async function startHttpServer(createMcpServer: () => Server, options: HttpTransportOptions): Promise<HttpServer> {
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  const streamableSessions = new Map<string, Session<StreamableHTTPServerTransport>>();
+  const sseSessions = new Map<string, Session<SSEServerTransport>>();
+
+  // Forget a session and close its server. The server closing the transport calls back
+  // here, which finds the session already gone.
+  const endSession = <T>(sessions: Map<string, Session<T>>, id: string, label: string) => {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    log.info(`${label} session ${id} closed`);
+    session.server.close().catch(error => log.warning(`Failed to close ${label} session ${id}`, error));
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers["mcp-session-id"];
+    const existing = typeof sessionId === "string" ? streamableSessions.get(sessionId) : undefined;
+    if (existing) {
+      existing.lastActive = Date.now();
+      if (req.method === "GET") {
+        holdStream(existing, res);
+      }
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+    if (sessionId) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+
+    // No session yet: the transport only accepts an initialize request here
+    const server = createMcpServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        streamableSessions.set(id, { transport, server, lastActive: Date.now(), openStreams: 0 });
+        log.info(`HTTP session ${id} started`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        endSession(streamableSessions, transport.sessionId, "HTTP");
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+
+    if (!transport.sessionId) {
+      await server.close();
+    }
+  };
+
+  const handleSse = async (res: ServerResponse) => {
+    const server = createMcpServer();
+    const transport = new SSEServerTransport("/messages", res);
+    const session = { transport, server, lastActive: Date.now(), openStreams: 0 };
+    holdStream(session, res);
+    sseSessions.set(transport.sessionId, session);
+    transport.onclose = () => endSession(sseSessions, transport.sessionId, "SSE");
+    log.info(`SSE session ${transport.sessionId} started`);
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const session = sseSessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!session) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+    session.lastActive = Date.now();
+    await session.transport.handlePostMessage(req, res);
+  };
+
+  // Clients that go away without ending their session would otherwise keep it, and its server, forever.
+  // One listening on a stream is still there: the stream closing ends an SSE session, and starts the idle time of an HTTP one.
+  const closeIdleSessions = () => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [sessions, label] of [[streamableSessions, "HTTP"], [sseSessions, "SSE"]] as const) {
+      for (const [id, session] of sessions) {
+        if (session.openStreams === 0 && session.lastActive < cutoff) {
+          log.info(`${label} session ${id} idle for ${Math.round(idleTimeoutMs / 1000)} s`);
+          endSession<unknown>(sessions, id, label);
+        }
+      }
+    }
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+
+      if (!hasAllowedHost(req, options)) {
+        sendJsonRpcError(res, 403, "Forbidden host");
+        return;
+      }
+      if (options.token && !hasValidToken(req, options.token)) {
+        sendJsonRpcError(res, 401, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+        return;
+      }
+
+      if (url.pathname === "/mcp") {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSse(res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else if (url.pathname === "/metrics" && req.method === "GET" && options.metrics) {
+        res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+        res.end(options.metrics());
+      } else {
+        sendJsonRpcError(res, 404, "Not found");
+      }
+    } catch (error) {
+      log.error("Error handling HTTP request", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+  const idleTimer = setInterval(closeIdleSessions, Math.min(idleTimeoutMs, 60_000));
+  idleTimer.unref();
+  httpServer.on("close", () => clearInterval(idleTimer));
+  log.notice(`MCP server listening on http://${options.host}:${options.port} (streamable HTTP at /mcp, SSE at /sse${options.metrics ? ", metrics at /metrics" : ""})`);
+  return httpServer;
+}
@@ -0,0 +1,165 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFileSync, existsSync, mkdirSync, renameSync, statSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+// The MCP logging levels (RFC 5424 severities), least severe first
+export const LOG_LEVELS = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LogLevelSchema = z.enum(LOG_LEVELS);
+
+export interface LogRecord {
+  time: Date;
+  level: LogLevel;
+  // Module the record comes from, e.g. "mail" or "scheduler"
+  logger: string;
+  message: string;
+  // Error or extra values logged with the message
+  details?: unknown;
+}
+
+// Somewhere records go: stderr, the log file, or an MCP client
+export interface LogSink {
+  level: LogLevel;
+  // Only records logged within `withLogScope(scope, ...)`, e.g. one client session's requests; all records when unset
+  scope?: object;
+  write(record: LogRecord): void;
+}
+
+export interface Logger {
+  debug(message: string, details?: unknown): void;
+  info(message: string, details?: unknown): void;
+  notice(message: string, details?: unknown): void;
+  warning(message: string, details?: unknown): void;
+  error(message: string, details?: unknown): void;
+}
+
+export interface LogFileOptions {
+  path: string;
+  // The file is rotated (log.1, log.2...) before it grows past this
+  maxBytes: number;
+  // Rotated files kept besides the current one
+  maxFiles: number;
+}
+
+const sinks = new Set<LogSink>();
+
+// The scope of the code running now, carried across awaits
+const scopes = new AsyncLocalStorage<object>();
+
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Errors become their name, message and stack, so they survive JSON serialization
+ */
+export function serializeDetails(details: unknown): unknown {
+  if (details instanceof Error) {
+    return { name: details.name, message: details.message, stack: details.stack };
+  }
+  return details;
+}
+
+function formatDetails(details: unknown): string {
+  if (details === undefined) return "";
+  if (details instanceof Error) return ` ${details.stack ?? details.message}`;
+  if (typeof details === "string") return ` ${details}`;
+  try {
+    return ` ${JSON.stringify(details)}`;
+  } catch {
+    return ` ${String(details)}`;
+  }
+}
+
+/**
+ * Start sending records to `sink`; returns the function that stops it
+ */
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+/**
+ * Run `fn` with what it logs, including in everything it starts and awaits, attributed to `scope`
+ */
+export function withLogScope<T>(scope: object, fn: () => T): T {
+  return scopes.run(scope, fn);
+}
+
+/**
+ * A sink printing one line per record to stderr, the only output stdio mode leaves free
+ */
+export function createStderrSink(level: LogLevel): LogSink {
+  return {
+    level,
+    write: record => process.stderr.write(
+      `${record.level.toUpperCase()} [${record.logger}] ${record.message}${formatDetails(record.details)}\n`
+    ),
+  };
+}
+
+/**
+ * A sink appending JSON lines to a file, rotated by size. Writes are synchronous so
+ * records keep their order and the last ones before a crash aren't lost; a file that
+ * can't be written is reported on stderr once and then skipped.
+ */
+export function createFileSink(level: LogLevel, options: LogFileOptions): LogSink {
+  let failed = false;
+
+  const rotate = () => {
+    for (let index = options.maxFiles - 1; index >= 1; index--) {
+      if (existsSync(`${options.path}.${index}`)) {
+        renameSync(`${options.path}.${index}`, `${options.path}.${index + 1}`);
+      }
+    }
+    if (options.maxFiles > 0) {
+      renameSync(options.path, `${options.path}.1`);
+    }
+  };
+
+  return {
+    level,
+    write(record) {
+      if (failed) return;
+      const line = `${JSON.stringify({ ...record, details: serializeDetails(record.details) })}\n`;
+      try {
+        mkdirSync(path.dirname(options.path), { recursive: true });
+        if (existsSync(options.path) && statSync(options.path).size + line.length > options.maxBytes) {
+          rotate();
+        }
+        appendFileSync(options.path, line, { encoding: "utf8", mode: 0o600 });
+      } catch (error) {
+        failed = true;
+        process.stderr.write(`Cannot write log file ${options.path}, file logging is off: ${formatDetails(error)}\n`);
+      }
+    },
+  };
+}
+
+function emit(logger: string, level: LogLevel, message: string, details: unknown): void {
+  const record: LogRecord = { time: new Date(), level, logger, message, details };
+  const scope = scopes.getStore();
+  for (const sink of sinks) {
+    if ((!sink.scope || sink.scope === scope) && isLevelEnabled(level, sink.level)) {
+      sink.write(record);
+    }
+  }
+}
+
+/**
+ * Create the logger of one module. Records go to every sink whose level they reach.
+ */
+export function createLogger(name: string): Logger {
+  return {
+    debug: (message, details) => emit(name, "debug", message, details),
+    info: (message, details) => emit(name, "info", message, details),
+    notice: (message, details) => emit(name, "notice", message, details),
+    warning: (message, details) => emit(name, "warning", message, details),
+    error: (message, details) => emit(name, "error", message, details),
+  };
+}
@@ -0,0 +1,156 @@
+import type { ToolResult } from "./types";
+
+// Upper bounds of the latency histogram buckets; Mail and Calendar calls often take seconds
+export const LATENCY_BUCKETS_MS = [50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000] as const;
+
+// Error type of a failed call without a code, e.g. a send the user declined
+export const UNCLASSIFIED_ERROR = "OTHER";
+
+// Clients choose tool and operation names, so past this many pairs new ones are counted together
+const MAX_SERIES = 500;
+
+const OVERFLOW_LABEL = "other";
+
+export interface OperationMetrics {
+  tool: string;
+  operation: string;
+  calls: number;
+  errors: number;
+  // Failed calls by `structuredContent.error.code`
+  errorsByCode: Record<string, number>;
+  totalMs: number;
+  maxMs: number;
+  // Calls per LATENCY_BUCKETS_MS bucket (not cumulative), plus one for slower calls
+  buckets: number[];
+}
+
+export interface Metrics {
+  // When counting started, i.e. server start
+  since: Date;
+  record(tool: string, operation: string, durationMs: number, result: ToolResult): void;
+  // Copies of every tool and operation's counts, in the order they were first called
+  snapshot(): OperationMetrics[];
+  // Prometheus text exposition format, for the HTTP /metrics route
+  toPrometheus(): string;
+}
+
+/**
+ * The error type a result is counted under: its code, or UNCLASSIFIED_ERROR; undefined when it succeeded
+ */
+export function errorTypeOf(result: ToolResult): string | undefined {
+  if (!result.isError) {
+    return undefined;
+  }
+  const code = (result.structuredContent as { error?: { code?: unknown } } | undefined)?.error?.code;
+  return typeof code === "string" ? code : UNCLASSIFIED_ERROR;
+}
+
+/**
+ * Latency below which about `quantile` of the calls finished, estimated from the
+ * histogram as the bound of the bucket it falls in (the slowest call past the last bound)
+ */
+export function estimateQuantile(metrics: OperationMetrics, quantile: number): number {
+  const target = Math.max(1, Math.ceil(metrics.calls * quantile));
+  let seen = 0;
+  for (let index = 0; index < LATENCY_BUCKETS_MS.length; index++) {
+    seen += metrics.buckets[index];
+    if (seen >= target) {
+      return Math.min(LATENCY_BUCKETS_MS[index], metrics.maxMs);
+    }
+  }
+  return metrics.maxMs;
+}
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function labels(values: Record<string, string>): string {
+  return `{${Object.entries(values).map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(",")}}`;
+}
+
+/**
+ * In-memory call counts, error counts and latency histograms per tool and operation.
+ * Shared by every session; counting starts over when the server restarts.
+ */
+export function createMetrics(): Metrics {
+  const series = new Map<string, OperationMetrics>();
+
+  const seriesFor = (tool: string, operation: string): OperationMetrics => {
+    let key = JSON.stringify([tool, operation]);
+    if (!series.has(key) && series.size >= MAX_SERIES) {
+      [tool, operation] = [OVERFLOW_LABEL, OVERFLOW_LABEL];
+      key = JSON.stringify([tool, operation]);
+    }
+    let entry = series.get(key);
+    if (!entry) {
+      entry = {
+        tool,
+        operation,
+        calls: 0,
+        errors: 0,
+        errorsByCode: {},
+        totalMs: 0,
+        maxMs: 0,
+        buckets: new Array(LATENCY_BUCKETS_MS.length + 1).fill(0),
+      };
+      series.set(key, entry);
+    }
+    return entry;
+  };
+
+  const snapshot = () => [...series.values()].map(entry => ({
+    ...entry,
+    errorsByCode: { ...entry.errorsByCode },
+    buckets: [...entry.buckets],
+  }));
+
+  return {
+    since: new Date(),
+
+    record(tool, operation, durationMs, result) {
+      const entry = seriesFor(tool, operation);
+      entry.calls++;
+      entry.totalMs += durationMs;
+      entry.maxMs = Math.max(entry.maxMs, durationMs);
+      const bucket = LATENCY_BUCKETS_MS.findIndex(bound => durationMs <= bound);
+      entry.buckets[bucket === -1 ? LATENCY_BUCKETS_MS.length : bucket]++;
+
+      const errorType = errorTypeOf(result);
+      if (errorType) {
+        entry.errors++;
+        entry.errorsByCode[errorType] = (entry.errorsByCode[errorType] ?? 0) + 1;
+      }
+    },
+
+    snapshot,
+
+    toPrometheus() {
+      const entries = snapshot();
+      const lines = [
+        "# HELP apple_mcp_tool_calls_total Tool calls by tool and operation.",
+        "# TYPE apple_mcp_tool_calls_total counter",
+        ...entries.map(entry => `apple_mcp_tool_calls_total${labels({ tool: entry.tool, operation: entry.operation })} ${entry.calls}`),
+        "# HELP apple_mcp_tool_errors_total Failed tool calls by tool, operation and error code.",
+        "# TYPE apple_mcp_tool_errors_total counter",
+        ...entries.flatMap(entry => Object.entries(entry.errorsByCode).map(([code, count]) =>
+          `apple_mcp_tool_errors_total${labels({ tool: entry.tool, operation: entry.operation, code })} ${count}`
+        )),
+        "# HELP apple_mcp_tool_duration_seconds Tool call latency by tool and operation.",
+        "# TYPE apple_mcp_tool_duration_seconds histogram",
+      ];
+      for (const entry of entries) {
+        const base = { tool: entry.tool, operation: entry.operation };
+        let cumulative = 0;
+        LATENCY_BUCKETS_MS.forEach((bound, index) => {
+          cumulative += entry.buckets[index];
+          lines.push(`apple_mcp_tool_duration_seconds_bucket${labels({ ...base, le: String(bound / 1000) })} ${cumulative}`);
+        });
+        lines.push(
+          `apple_mcp_tool_duration_seconds_bucket${labels({ ...base, le: "+Inf" })} ${entry.calls}`,
+          `apple_mcp_tool_duration_seconds_sum${labels(base)} ${entry.totalMs / 1000}`,
+          `apple_mcp_tool_duration_seconds_count${labels(base)} ${entry.calls}`,
+        );
+      }
+      return `${lines.join("\n")}\n`;
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import type { AutomationBackend, LoadModuleFunction, ModuleMap } from "./types";
+import { DEFAULT_CONFIG, type Config } from "./config";
+import { withCache, type CacheAccess } from "./cache";
+import { createLogger } from "./logger";
+
+const log = createLogger("moduleLoader");
+
+/**
+ * Create a lazy module loader whose modules all run against `backend`,
+ * with the defaults and limits from `config`, and the expensive reads served from `cache` when given.
+ * Each loader keeps its own module instances, so tests can build one per fake backend.
+ */
+export function createModuleLoader(
+  backend: AutomationBackend,
+  config: Config = DEFAULT_CONFIG,
+  cache?: CacheAccess
+): LoadModuleFunction {
+  const loaded: Partial<ModuleMap> = { backend };
+
+  // Add the generic type parameter back here
+  return async <T extends keyof ModuleMap>(moduleName: T): Promise<ModuleMap[T]> => {
+    if (loaded[moduleName]) {
+      return loaded[moduleName] as ModuleMap[T];
+    }
+
+    // Always lazy load now
+    log.debug(`Loading ${moduleName} module on demand...`);
+
+    try {
+      switch (moduleName) {
+        case 'contacts':
+          loaded.contacts = withCache('contacts', (await import('../utils/contacts')).createContacts(backend), cache);
+          break;
+        case 'notes':
+          loaded.notes = withCache('notes', (await import('../utils/notes')).createNotes(backend, config.notes), cache);
+          break;
+        case 'message':
+          loaded.message = (await import('../utils/message')).createMessages(backend);
+          break;
+        case 'mail':
+          loaded.mail = withCache('mail', (await import('../utils/mail')).createMail(backend), cache);
+          break;
+        case 'reminders':
+          loaded.reminders = withCache('reminders', (await import('../utils/reminders')).createReminders(backend, config.reminders), cache);
+          break;
+        case 'webSearch':
+          loaded.webSearch = (await import('../utils/webSearch')).createWebSearch(config.webSearch);
+          break;
+        case 'calendar':
+          loaded.calendar = (await import('../utils/calendar')).createCalendar(backend, config.calendar);
+          break;
+        case 'maps':
+          loaded.maps = (await import('../utils/maps')).createMaps(backend);
+          break;
+        default:
+          throw new Error(`Unknown module: ${moduleName}`);
+      }
+      return loaded[moduleName] as ModuleMap[T];
+    } catch (e) {
+      log.error(`Error loading module ${moduleName}`, e);
+      throw e;
+    }
+  };
+}
@@ -0,0 +1,97 @@
+import { z } from "zod";
+import type { ToolResult } from "./types";
+
+// Below this a list can't show even one item with some of its content
+const MIN_OUTPUT_CHARS = 500;
+
+// Long content (a note body, a web page) is never cut shorter than this
+export const MIN_CONTENT_CHARS = 200;
+
+// Accepted by every operation of every tool; the server's maxOutputChars setting applies when omitted
+export const MaxOutputCharsArgSchema = z.number().int().min(MIN_OUTPUT_CHARS).optional()
+  .describe("Most characters of text to return (about 4 per token). Long content is shortened first, then results are left out");
+
+/**
+ * `text` cut to at most `maxChars`, ending in an ellipsis when anything was cut
+ */
+export function cutText(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1).trimEnd()}…` : text;
+}
+
+function notice(maxChars: number): string {
+  return `\n\n[Output cut at ${maxChars} characters. Ask for fewer results or raise maxOutputChars to see the rest.]`;
+}
+
+// Fields holding free text (a note or email body, event notes, a web page), the only strings
+// shortened to fit; names, IDs, dates and dry-run scripts are always returned whole
+const FREE_TEXT_FIELDS = new Set(["content", "body", "notes", "snippet"]);
+
+/**
+ * `value` with every free-text field in it cut to at most `maxChars`
+ */
+export function shortenFreeText(value: unknown, maxChars: number): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => shortenFreeText(item, maxChars));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      FREE_TEXT_FIELDS.has(key) && typeof item === "string" ? cutText(item, maxChars) : shortenFreeText(item, maxChars),
+    ]));
+  }
+  return value;
+}
+
+const fits = (value: unknown, maxChars: number) => JSON.stringify(value).length <= maxChars;
+
+// Free text halved until the whole serializes within `maxChars`, then items left out from the end
+// of its longest list, keeping one. A page with a nextCursor keeps its items, as leaving some out
+// would make the cursor skip them (`renderPage` fits those). Past that it is left over budget.
+function shortenToFit(structured: Record<string, unknown>, maxChars: number): Record<string, unknown> {
+  let fitted = structured;
+  for (let cap = maxChars; !fits(fitted, maxChars) && cap > MIN_CONTENT_CHARS;) {
+    cap = Math.max(MIN_CONTENT_CHARS, Math.floor(cap / 2));
+    fitted = shortenFreeText(structured, cap) as Record<string, unknown>;
+  }
+  if (fits(fitted, maxChars) || fitted.nextCursor !== undefined) {
+    return fitted;
+  }
+
+  const lists = Object.entries(fitted).filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]));
+  if (lists.length === 0) {
+    return fitted;
+  }
+  const [key, items] = lists.reduce((longest, list) => list[1].length > longest[1].length ? list : longest);
+  let shown = items.length;
+  while (shown > 1 && !fits({ ...fitted, [key]: items.slice(0, shown) }, maxChars)) {
+    shown--;
+  }
+  return { ...fitted, [key]: items.slice(0, shown) };
+}
+
+/**
+ * Keep a result within `maxChars`. Lists already fit themselves (see `renderList`),
+ * so this is the last resort for everything else, e.g. one very long note.
+ *
+ * `structuredContent` has its free text shortened, then list items left out, until it fits,
+ * so it stays valid against the output schema, and json text is rebuilt from it.
+ * Other text is cut at the last line break that leaves room for a notice saying so.
+ */
+export function fitOutput(result: ToolResult, format: unknown, maxChars: number): ToolResult {
+  const fitted = result.structuredContent ?
+    { ...result, structuredContent: shortenToFit(result.structuredContent, maxChars) } :
+    result;
+  const text = fitted.content.map(item => item.text).join("\n");
+  if (text.length <= maxChars) {
+    return fitted;
+  }
+
+  if (format === "json" && fitted.structuredContent) {
+    return { ...fitted, content: [{ type: "text", text: JSON.stringify(fitted.structuredContent) }] };
+  }
+
+  const room = maxChars - notice(maxChars).length;
+  const lineBreak = text.lastIndexOf("\n", room);
+  const kept = text.slice(0, lineBreak > room / 2 ? lineBreak : room).trimEnd();
+  return { ...fitted, content: [{ type: "text", text: kept + notice(maxChars) }] };
+}
@@ -0,0 +1,76 @@
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { InvalidInputError } from "./errors";
+
+// Page size of operations that used to return everything
+export const DEFAULT_PAGE_SIZE = 50;
+
+// Accepted by every list and search operation
+export const CursorArgSchema = z.string().min(1).optional()
+  .describe("nextCursor from the previous page, to get the page after it. Keep the other arguments the same");
+
+// Returned alongside a page that isn't the last one
+export const NextCursorSchema = z.string().optional()
+  .describe("Pass as cursor to get the next page; absent on the last page");
+
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+  // Cursor resuming at the page's item `index`, for a page that had to be cut short
+  cursorAt?: (index: number) => string;
+}
+
+// Cursors are tied to the query, so a cursor can't silently skip through a different search.
+// The page size, output format and maxOutputChars may change between pages.
+function fingerprint(tool: string, args: Record<string, unknown>): string {
+  const { cursor: _, limit: __, format: ___, maxOutputChars: ____, ...query } = args;
+  return createHash("sha256").update(JSON.stringify([tool, query])).digest("base64url").slice(0, 12);
+}
+
+function encodeCursor(offset: number, query: string): string {
+  return Buffer.from(JSON.stringify({ o: offset, q: query })).toString("base64url");
+}
+
+function decodeCursor(cursor: string, query: string): number {
+  let state: { o?: unknown; q?: unknown };
+  try {
+    state = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidInputError("Invalid cursor: pass nextCursor exactly as it was returned");
+  }
+  if (!Number.isInteger(state.o) || (state.o as number) < 0 || typeof state.q !== "string") {
+    throw new InvalidInputError("Invalid cursor: pass nextCursor exactly as it was returned");
+  }
+  if (state.q !== query) {
+    throw new InvalidInputError("This cursor belongs to a different query; repeat the original arguments with it");
+  }
+  return state.o as number;
+}
+
+/**
+ * Get the page `args.cursor` points at (the first page without one).
+ * `fetch` is asked for up to `count` items from the start, one past the end of
+ * the page, so whether there is a next page is known without another call.
+ * Sources that can't limit their results may ignore `count`.
+ */
+export async function fetchPage<T>(
+  tool: string,
+  args: { cursor?: string } & Record<string, unknown>,
+  pageSize: number,
+  fetch: (count: number) => Promise<T[]>
+): Promise<Page<T>> {
+  const query = fingerprint(tool, args);
+  const offset = args.cursor ? decodeCursor(args.cursor, query) : 0;
+  const items = await fetch(offset + pageSize + 1);
+  const end = offset + pageSize;
+  return {
+    items: items.slice(offset, end),
+    nextCursor: items.length > end ? encodeCursor(end, query) : undefined,
+    cursorAt: index => encodeCursor(offset + index, query),
+  };
+}
+
+// Line appended to a page's text when there is more to fetch
+export function moreResultsText(nextCursor: string | undefined): string {
+  return nextCursor ? `\n\nMore results available. Repeat the call with cursor "${nextCursor}" for the next page.` : "";
+}
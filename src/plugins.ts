@@ -0,0 +1,174 @@
+import type { z } from "zod";
+import { existsSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { TOOL_NAMES, isWriteOperation, type Config } from "./config";
+import type { AutomationBackend, LoadModuleFunction, ProgressReporter, ToolResult } from "./types";
+import { createLogger } from "./logger";
+
+const log = createLogger("plugins");
+
+// Files in the plugins directory that are loaded; anything else there is ignored
+const PLUGIN_FILE = /\.(ts|js|mjs)$/;
+
+const TOOL_NAME = /^[A-Za-z][A-Za-z0-9_-]*$/;
+
+/**
+ * What a plugin's handler gets for one call
+ */
+export interface PluginContext<M> {
+  // The plugin's module, created on first use against this call's backend (timeouts, queues and dry runs apply)
+  module(): Promise<M>;
+  // The built-in modules, e.g. to look up a contact
+  loadModule: LoadModuleFunction;
+  // Set when the client asked for progress notifications
+  reportProgress?: ProgressReporter;
+}
+
+/**
+ * A tool from outside the server, e.g. a company directory. Default-export one
+ * (or an array of them) from a file in the plugins directory or a package listed
+ * under `plugins.packages` in the config.
+ */
+export interface ToolPlugin<Args = unknown, M = unknown> {
+  // Tool name; must not clash with a built-in tool or another plugin
+  name: string;
+  description: string;
+  // Like the built-in tools, a discriminated union on "operation" gets per-operation config and read-only support
+  argsSchema: z.ZodType<Args, z.ZodTypeDef, unknown>;
+  resultSchema: z.AnyZodObject;
+  // Operations that change data: refused in read-only mode, audited, and dry-runnable
+  writeOperations?: string[];
+  // Validates `plugins.options.<name>` from the config before it reaches createModule
+  optionsSchema?: z.ZodTypeAny;
+  // Build the plugin's module for a backend, like the utils modules' create functions
+  createModule?(backend: AutomationBackend, options: unknown): M | Promise<M>;
+  handler(args: Args, context: PluginContext<M>): Promise<ToolResult>;
+}
+
+/**
+ * Identity function that lets TypeScript infer a plugin's argument and module types
+ */
+export function definePlugin<Args, M = unknown>(plugin: ToolPlugin<Args, M>): ToolPlugin<Args, M> {
+  return plugin;
+}
+
+export interface PluginRegistry {
+  plugins: ToolPlugin[];
+  get(name: string): ToolPlugin | undefined;
+  // Whether a call changes data, for built-in tools and plugins alike
+  isWriteOperation(tool: string, operation: string): boolean;
+}
+
+export function createPluginRegistry(plugins: ToolPlugin[] = []): PluginRegistry {
+  const byName = new Map(plugins.map(plugin => [plugin.name, plugin]));
+  return {
+    plugins,
+    get: name => byName.get(name),
+    isWriteOperation(tool, operation) {
+      const plugin = byName.get(tool);
+      return plugin ? plugin.writeOperations?.includes(operation) ?? false : isWriteOperation(operation);
+    },
+  };
+}
+
+// Plugins may bring their own copy of zod, so schemas are recognized by shape rather than instanceof
+function isSchema(value: unknown): boolean {
+  return typeof (value as z.ZodTypeAny | undefined)?.safeParse === "function";
+}
+
+function checkPlugin(value: unknown, source: string, taken: Set<string>): ToolPlugin {
+  const plugin = value as Partial<ToolPlugin> | undefined;
+  const problem =
+    typeof plugin?.name !== "string" || !TOOL_NAME.test(plugin.name) ? "name must be letters, digits, _ or -, starting with a letter" :
+    taken.has(plugin.name) ? `tool "${plugin.name}" already exists` :
+    typeof plugin.description !== "string" ? "description is missing" :
+    !isSchema(plugin.argsSchema) || !isSchema(plugin.resultSchema) ? "argsSchema and resultSchema must be Zod schemas" :
+    plugin.optionsSchema !== undefined && !isSchema(plugin.optionsSchema) ? "optionsSchema must be a Zod schema" :
+    typeof plugin.handler !== "function" ? "handler is missing" :
+    undefined;
+  if (problem) {
+    throw new Error(`Invalid plugin in ${source}: ${problem}`);
+  }
+  return plugin as ToolPlugin;
+}
+
+// Everything to import: the files in the plugins directory, then the configured packages
+function pluginSources(config: Config, configPath: string): string[] {
+  const configDir = path.dirname(configPath);
+  const directory = path.resolve(configDir, config.plugins.directory ?? "plugins");
+  const files = existsSync(directory) ?
+    readdirSync(directory).filter(file => PLUGIN_FILE.test(file)).sort().map(file => path.join(directory, file)) :
+    [];
+  // Paths are relative to the config file; anything else is a package name
+  const packages = config.plugins.packages.map(name =>
+    name.startsWith(".") || path.isAbsolute(name) ? path.resolve(configDir, name) : name
+  );
+  return [...files, ...packages];
+}
+
+/**
+ * Import every plugin the config points at and check it can be served.
+ * Like an invalid config, a plugin that fails to load stops the server.
+ */
+export async function loadPlugins(config: Config, configPath: string): Promise<PluginRegistry> {
+  const taken = new Set<string>(TOOL_NAMES);
+  const plugins: ToolPlugin[] = [];
+
+  for (const source of pluginSources(config, configPath)) {
+    let exported: unknown;
+    try {
+      exported = (await import(path.isAbsolute(source) ? pathToFileURL(source).href : source)).default;
+    } catch (error) {
+      throw new Error(`Cannot load plugin ${source}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    for (const value of Array.isArray(exported) ? exported : [exported]) {
+      const plugin = checkPlugin(value, source, taken);
+      taken.add(plugin.name);
+      plugins.push(plugin);
+      log.info(`Loaded plugin tool ${plugin.name} from ${source}`);
+    }
+  }
+
+  const unknown = Object.keys(config.plugins.options).filter(name => !plugins.some(plugin => plugin.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`plugins.options names tools no plugin provides: ${unknown.join(", ")}`);
+  }
+  for (const plugin of plugins) {
+    const options = config.plugins.options[plugin.name];
+    const result = plugin.optionsSchema?.safeParse(options);
+    if (result && !result.success) {
+      throw new Error(`Invalid plugins.options.${plugin.name}: ${result.error.errors.map(e => `${e.path.join('.') || '(root)'}: ${e.message}`).join(', ')}`);
+    }
+  }
+
+  return createPluginRegistry(plugins);
+}
+
+/**
+ * Run a plugin's handler for one call. Its module is only built if the handler asks for it.
+ */
+export async function runPlugin(
+  plugin: ToolPlugin,
+  args: unknown,
+  config: Config,
+  loadModule: LoadModuleFunction,
+  reportProgress?: ProgressReporter
+): Promise<ToolResult> {
+  let module: Promise<unknown> | undefined;
+  const options = plugin.optionsSchema ?
+    plugin.optionsSchema.parse(config.plugins.options[plugin.name]) :
+    config.plugins.options[plugin.name];
+
+  return plugin.handler(args, {
+    module: () => {
+      if (!plugin.createModule) {
+        return Promise.reject(new Error(`Plugin ${plugin.name} has no module`));
+      }
+      module ??= loadModule("backend").then(backend => plugin.createModule!(backend, options));
+      return module;
+    },
+    loadModule,
+    reportProgress,
+  });
+}
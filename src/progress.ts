@@ -0,0 +1,59 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { ProgressReporter, SearchProgressCallback } from "./types";
+import { createLogger } from "./logger";
+
+const log = createLogger("progress");
+
+// How many of one step's matches are spelled out in its progress message
+const MAX_ITEMS_PER_MESSAGE = 5;
+
+/**
+ * Create a reporter that sends `notifications/progress` for the request, or
+ * undefined when the client didn't ask for progress by setting a progressToken
+ */
+export function createProgressReporter(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ProgressReporter | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  return async (progress, total, message) => {
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message },
+      });
+    } catch (error) {
+      // A lost notification shouldn't fail the search itself
+      log.warning("Could not send progress notification", error);
+    }
+  };
+}
+
+/**
+ * Adapt a reporter to a utils search. Each step becomes a message such as
+ * `Mailbox 7/42 "Work - INBOX": 2 match(es)` followed by those matches, so the
+ * client sees partial results and can cancel once it has what it needs.
+ */
+export function reportSearchProgress<T>(
+  report: ProgressReporter | undefined,
+  unit: string,
+  describe: (item: T) => string
+): SearchProgressCallback<T> | undefined {
+  if (!report) {
+    return undefined;
+  }
+
+  return ({ completed, total, container, found }) => {
+    const shown = found.slice(0, MAX_ITEMS_PER_MESSAGE).map(item => `\n- ${describe(item)}`).join("");
+    const more = found.length > MAX_ITEMS_PER_MESSAGE ? `\n- and ${found.length - MAX_ITEMS_PER_MESSAGE} more` : "";
+    return report(
+      completed,
+      total,
+      `${unit} ${completed}/${total} "${container}": ${found.length} match(es)${shown}${more}`
+    );
+  };
+}
@@ -0,0 +1,191 @@
+import {
+  ErrorCode,
+  McpError,
+  type GetPromptResult,
+  type Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { LoadModuleFunction } from "./types";
+import { createLogger } from "./logger";
+
+const log = createLogger("prompts");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Personal-assistant workflows that embed fresh data from the apps
+export const PROMPTS: Prompt[] = [
+  {
+    name: "dailyBriefing",
+    description: "Brief me on today: meetings, reminders due, unread mail and messages",
+  },
+  {
+    name: "triageInbox",
+    description: "Triage my unread mail into reply, delegate, schedule and archive",
+    arguments: [
+      { name: "limit", description: "Number of unread emails to triage (default 20)", required: false },
+    ],
+  },
+  {
+    name: "prepareForMeeting",
+    description: "Prepare me for a calendar event using related notes and mail",
+    arguments: [
+      { name: "eventId", description: "ID of the calendar event, as returned by the calendar tool", required: true },
+    ],
+  },
+  {
+    name: "weeklyReview",
+    description: "Review the past week and plan the next one from my calendar and reminders",
+  },
+];
+
+// Render a section, turning a failing app into a note instead of failing the whole prompt
+async function section(title: string, fetch: () => Promise<string>): Promise<string> {
+  try {
+    return `## ${title}\n\n${await fetch()}`;
+  } catch (error) {
+    log.warning(`Error loading ${title} for prompt`, error);
+    return `## ${title}\n\n(Could not load: ${error instanceof Error ? error.message : String(error)})`;
+  }
+}
+
+const list = (items: string[], empty: string) => items.length > 0 ? items.join("\n") : empty;
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+async function eventsSection(loadModule: LoadModuleFunction, title: string, from: Date, to: Date): Promise<string> {
+  return section(title, async () => {
+    const events = await (await loadModule("calendar")).getEvents(50, from.toISOString(), to.toISOString());
+    return list(
+      events.map(e => `- ${e.startDate ?? "?"} - ${e.endDate ?? "?"}: ${e.title}` +
+        `${e.location ? ` @ ${e.location}` : ""} [${e.calendarName}, ID: ${e.id}]`),
+      "No events."
+    );
+  });
+}
+
+async function remindersSection(loadModule: LoadModuleFunction, title: string, dueBefore?: Date): Promise<string> {
+  return section(title, async () => {
+    const reminders = (await (await loadModule("reminders")).getAllReminders())
+      .filter(r => !r.completed && (!dueBefore || (r.dueDate && new Date(r.dueDate) < dueBefore)));
+    return list(
+      reminders.map(r => `- ${r.name}${r.dueDate ? ` (due ${r.dueDate})` : ""} [${r.listName}]`),
+      "No open reminders."
+    );
+  });
+}
+
+async function unreadMailSection(loadModule: LoadModuleFunction, limit: number, contentLength: number): Promise<string> {
+  return section("Unread mail", async () => {
+    const emails = await (await loadModule("mail")).getUnreadMails(limit);
+    return list(
+      emails.map(e => `- [${e.dateSent}] From: ${e.sender} | Subject: ${e.subject} | Mailbox: ${e.mailbox}` +
+        `${e.id ? ` | ID: ${e.id}` : ""}\n  ${e.content.substring(0, contentLength).replace(/\s+/g, " ")}`),
+      "No unread mail."
+    );
+  });
+}
+
+async function unreadMessagesSection(loadModule: LoadModuleFunction): Promise<string> {
+  return section("Unread messages", async () => {
+    const messages = await (await loadModule("message")).getUnreadMessages(20);
+    return list(messages.map(m => `- [${m.date}] ${m.sender}: ${m.content}`), "No unread messages.");
+  });
+}
+
+/**
+ * Render a prompt with the current app data
+ */
+export async function getPrompt(
+  name: string,
+  args: Record<string, string> | undefined,
+  loadModule: LoadModuleFunction
+): Promise<GetPromptResult> {
+  const prompt = PROMPTS.find(p => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} not found`);
+  }
+  for (const argument of prompt.arguments ?? []) {
+    if (argument.required && !args?.[argument.name]) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument "${argument.name}" for prompt ${name}`);
+    }
+  }
+
+  const now = new Date();
+  let text: string;
+
+  switch (name) {
+    case "dailyBriefing": {
+      const today = startOfDay(now);
+      const tomorrow = new Date(today.getTime() + DAY_MS);
+      const sections = await Promise.all([
+        eventsSection(loadModule, "Today's calendar", today, tomorrow),
+        remindersSection(loadModule, "Reminders due today or overdue", tomorrow),
+        unreadMailSection(loadModule, 10, 200),
+        unreadMessagesSection(loadModule),
+      ]);
+      text = `It is ${now.toString()}. Give me a concise daily briefing: what my day looks like, ` +
+        `what needs my attention first, and anything I should reply to or prepare. ` +
+        `Flag conflicts and overdue items.\n\n${sections.join("\n\n")}`;
+      break;
+    }
+
+    case "triageInbox": {
+      const limit = Number(args?.limit) || 20;
+      const mail = await unreadMailSection(loadModule, limit, 500);
+      text = `Triage my unread email. Sort every message into one of: Reply now, Delegate, ` +
+        `Schedule (needs time on my calendar), Read later, Archive. For "Reply now" items draft a short reply; ` +
+        `for "Schedule" items suggest a reminder or calendar entry. Don't send anything without asking me.\n\n${mail}`;
+      break;
+    }
+
+    case "prepareForMeeting": {
+      const eventId = args!.eventId;
+      const event = await (await loadModule("calendar")).getEvent(eventId);
+      if (!event) {
+        throw new McpError(ErrorCode.InvalidParams, `No calendar event found with ID: ${eventId}`);
+      }
+      const sections = await Promise.all([
+        section("Related notes", async () => {
+          const notes = await (await loadModule("notes")).findNote(event.title);
+          return list(notes.map(n => `### ${n.name} (${n.folderName})\n${n.content}`), "No related notes.");
+        }),
+        section("Related mail", async () => {
+          const emails = await (await loadModule("mail")).searchMails(event.title, 10);
+          return list(
+            emails.map(e => `- [${e.dateSent}] From: ${e.sender} | Subject: ${e.subject}\n  ${e.content.substring(0, 300).replace(/\s+/g, " ")}`),
+            "No related mail."
+          );
+        }),
+      ]);
+      text = `Help me prepare for this meeting: summarize the context, list open questions and decisions ` +
+        `to make, and suggest an agenda and anything I should bring or read beforehand.\n\n` +
+        `## Event\n\n${event.title}\nStart: ${event.startDate ?? "Unknown"}\nEnd: ${event.endDate ?? "Unknown"}\n` +
+        `Location: ${event.location || "Not specified"}\nCalendar: ${event.calendarName}\nID: ${event.id}` +
+        `${event.notes ? `\nNotes: ${event.notes}` : ""}\n\n${sections.join("\n\n")}`;
+      break;
+    }
+
+    case "weeklyReview": {
+      const today = startOfDay(now);
+      const sections = await Promise.all([
+        eventsSection(loadModule, "Past 7 days", new Date(today.getTime() - 7 * DAY_MS), now),
+        eventsSection(loadModule, "Next 7 days", now, new Date(today.getTime() + 8 * DAY_MS)),
+        remindersSection(loadModule, "Open reminders"),
+      ]);
+      text = `Run my weekly review. Summarize what happened last week, call out open loops and ` +
+        `overdue reminders, and propose priorities and time blocks for next week.\n\n${sections.join("\n\n")}`;
+      break;
+    }
+
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} not found`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
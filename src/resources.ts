@@ -0,0 +1,169 @@
+import {
+  ErrorCode,
+  McpError,
+  type ReadResourceResult,
+  type Resource,
+  type ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { LoadModuleFunction } from "./types";
+import { createLogger } from "./logger";
+
+const log = createLogger("resources");
+
+// URI templates for the app items clients can attach as context
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "apple-notes://folder/{folderName}/{noteId}",
+    name: "Apple Notes note",
+    description: "A note in an Apple Notes folder",
+    mimeType: "text/plain",
+  },
+  {
+    uriTemplate: "apple-calendar://event/{eventId}",
+    name: "Apple Calendar event",
+    description: "An event from Apple Calendar",
+    mimeType: "text/plain",
+  },
+  {
+    uriTemplate: "apple-reminders://list/{listId}",
+    name: "Apple Reminders list",
+    description: "The reminders in an Apple Reminders list",
+    mimeType: "text/plain",
+  },
+  {
+    uriTemplate: "apple-mail://message/{messageId}",
+    name: "Apple Mail message",
+    description: "An email from Apple Mail",
+    mimeType: "text/plain",
+  },
+];
+
+// IDs contain slashes and colons (e.g. x-coredata://...), so every URI segment is encoded
+const segment = (value: string) => encodeURIComponent(value);
+
+export const noteUri = (folderName: string, noteId: string) =>
+  `apple-notes://folder/${segment(folderName)}/${segment(noteId)}`;
+export const eventUri = (eventId: string) => `apple-calendar://event/${segment(eventId)}`;
+export const reminderListUri = (listId: string) => `apple-reminders://list/${segment(listId)}`;
+export const mailUri = (messageId: string) => `apple-mail://message/${segment(messageId)}`;
+
+/**
+ * List the concrete resources currently available: all notes, the next week of events,
+ * every reminder list and unread mail. An app that can't be reached is skipped.
+ */
+export async function listResources(loadModule: LoadModuleFunction): Promise<Resource[]> {
+  const resources: Resource[] = [];
+
+  const collect = async (app: string, fetch: () => Promise<Resource[]>) => {
+    try {
+      resources.push(...await fetch());
+    } catch (error) {
+      log.warning(`Skipping ${app} resources`, error);
+    }
+  };
+
+  await collect("notes", async () => {
+    const notes = await (await loadModule("notes")).getAllNotes();
+    return notes.map(note => ({
+      uri: noteUri(note.folderName, note.id),
+      name: note.name,
+      description: `Note in folder "${note.folderName}"`,
+      mimeType: "text/plain",
+    }));
+  });
+
+  await collect("calendar", async () => {
+    const events = await (await loadModule("calendar")).getEvents();
+    return events.map(event => ({
+      uri: eventUri(event.id),
+      name: event.title,
+      description: `${event.calendarName} event starting ${event.startDate ?? "at an unknown time"}`,
+      mimeType: "text/plain",
+    }));
+  });
+
+  await collect("reminders", async () => {
+    const lists = await (await loadModule("reminders")).getAllLists();
+    return lists.map(list => ({
+      uri: reminderListUri(list.id),
+      name: list.name,
+      description: "Reminders list",
+      mimeType: "text/plain",
+    }));
+  });
+
+  await collect("mail", async () => {
+    const emails = await (await loadModule("mail")).getUnreadMails();
+    // Only messages whose id could be read are addressable
+    return emails.filter(email => email.id).map(email => ({
+      uri: mailUri(email.id!),
+      name: email.subject,
+      description: `Unread email from ${email.sender}`,
+      mimeType: "text/plain",
+    }));
+  });
+
+  return resources;
+}
+
+/**
+ * Read one resource by URI
+ */
+export async function readResource(uri: string, loadModule: LoadModuleFunction): Promise<ReadResourceResult> {
+  const text = await readResourceText(uri, loadModule);
+  if (text === null) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+  }
+  return { contents: [{ uri, mimeType: "text/plain", text }] };
+}
+
+async function readResourceText(uri: string, loadModule: LoadModuleFunction): Promise<string | null> {
+  let match: RegExpMatchArray | null;
+
+  if ((match = uri.match(/^apple-notes:\/\/folder\/([^/]+)\/([^/]+)$/))) {
+    const [folderName, noteId] = [decodeURIComponent(match[1]), decodeURIComponent(match[2])];
+    const notes = await (await loadModule("notes")).getAllNotes(folderName);
+    const note = notes.find(n => n.id === noteId);
+    return note ? `${note.name}\n\n${note.content}` : null;
+  }
+
+  if ((match = uri.match(/^apple-calendar:\/\/event\/([^/]+)$/))) {
+    const event = await (await loadModule("calendar")).getEvent(decodeURIComponent(match[1]));
+    if (!event) return null;
+    return `${event.title}\n` +
+      `Start: ${event.startDate ?? "Unknown"}\n` +
+      `End: ${event.endDate ?? "Unknown"}\n` +
+      `${event.isAllDay ? "All day\n" : ""}` +
+      `Location: ${event.location || "Not specified"}\n` +
+      `Calendar: ${event.calendarName}\n` +
+      `ID: ${event.id}` +
+      `${event.url ? `\nURL: ${event.url}` : ""}` +
+      `${event.notes ? `\n\n${event.notes}` : ""}`;
+  }
+
+  if ((match = uri.match(/^apple-reminders:\/\/list\/([^/]+)$/))) {
+    const listId = decodeURIComponent(match[1]);
+    const remindersModule = await loadModule("reminders");
+    const list = (await remindersModule.getAllLists()).find(l => l.id === listId);
+    if (!list) return null;
+    const reminders = await remindersModule.getRemindersFromListById(listId);
+    return `${list.name} (${reminders.length} reminders)\n\n` +
+      reminders.map(r =>
+        `- [${r.completed ? "x" : " "}] ${r.name}` +
+        `${r.dueDate ? ` (due ${r.dueDate})` : ""}` +
+        `${r.body ? `\n  ${r.body}` : ""}`
+      ).join("\n");
+  }
+
+  if ((match = uri.match(/^apple-mail:\/\/message\/([^/]+)$/))) {
+    const email = await (await loadModule("mail")).getMail(decodeURIComponent(match[1]));
+    if (!email) return null;
+    return `From: ${email.sender}\n` +
+      `Date: ${email.dateSent}\n` +
+      `Mailbox: ${email.mailbox}\n` +
+      `Subject: ${email.subject}\n\n` +
+      email.content;
+  }
+
+  return null;
+}
@@ -0,0 +1,132 @@
+import { createLogger } from "./logger";
+
+const log = createLogger("scheduler");
+
+export interface SchedulerOptions {
+  // Scripts that may run at once against one app
+  concurrency: number;
+  // Per-app overrides, keyed by the name scripts address the app with ("Mail", "Contacts")
+  apps: Record<string, number>;
+}
+
+export interface QueueDepth {
+  app: string;
+  running: number;
+  queued: number;
+  concurrency: number;
+}
+
+export interface Scheduler {
+  // Run `task` once one of the app's slots is free. Rejects if `signal` fires while it waits.
+  run<T>(app: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+  // Like `run`, but a call with the same key that's already queued or running is joined instead
+  runShared<T>(app: string, key: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+  // Running and waiting scripts per app, for diagnostics
+  depth(): QueueDepth[];
+}
+
+interface AppQueue {
+  running: number;
+  waiting: (() => void)[];
+}
+
+/**
+ * Create a scheduler that queues scripts per target app, so concurrent tool calls
+ * don't pile parallel osascript processes onto the same app
+ */
+export function createScheduler(options: SchedulerOptions): Scheduler {
+  const queues = new Map<string, AppQueue>();
+  const inFlight = new Map<string, { promise: Promise<unknown>; signal?: AbortSignal }>();
+
+  const concurrencyOf = (app: string) => options.apps[app] ?? options.concurrency;
+
+  const queueOf = (app: string) => {
+    let queue = queues.get(app);
+    if (!queue) {
+      queue = { running: 0, waiting: [] };
+      queues.set(app, queue);
+    }
+    return queue;
+  };
+
+  // Wait for a slot; a finishing script hands its slot straight to the next in line
+  const acquire = (app: string, signal?: AbortSignal): Promise<void> => {
+    const queue = queueOf(app);
+    if (queue.running < concurrencyOf(app)) {
+      queue.running++;
+      return Promise.resolve();
+    }
+
+    log.debug(`Queueing ${app} script behind ${queue.running} running and ${queue.waiting.length} waiting`);
+    return new Promise((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        queue.waiting.splice(queue.waiting.indexOf(start), 1);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      queue.waiting.push(start);
+    });
+  };
+
+  const release = (app: string) => {
+    const queue = queueOf(app);
+    const next = queue.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      queue.running--;
+    }
+  };
+
+  const run = async <T>(app: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    signal?.throwIfAborted();
+    await acquire(app, signal);
+    try {
+      return await task();
+    } finally {
+      release(app);
+    }
+  };
+
+  const runShared = <T>(app: string, key: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    const existing = inFlight.get(key);
+    if (existing) {
+      return existing.promise.then(
+        // Each caller gets its own copy, as if it had run the script itself
+        result => structuredClone(result) as T,
+        error => {
+          // The call we joined was cancelled by its own caller rather than failing; run it for ourselves
+          if (existing.signal?.aborted) {
+            return runShared(app, key, task, signal);
+          }
+          throw error;
+        }
+      );
+    }
+
+    const entry: { promise: Promise<T>; signal?: AbortSignal } = { promise: run(app, task, signal), signal };
+    inFlight.set(key, entry);
+    entry.promise.then(
+      () => inFlight.get(key) === entry && inFlight.delete(key),
+      () => inFlight.get(key) === entry && inFlight.delete(key)
+    );
+    return entry.promise;
+  };
+
+  return {
+    run,
+    runShared,
+    depth() {
+      return [...queues].map(([app, queue]) => ({
+        app,
+        running: queue.running,
+        queued: queue.waiting.length,
+        concurrency: concurrencyOf(app),
+      }));
+    },
+  };
+}
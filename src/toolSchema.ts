@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ToolErrorSchema } from "./errors";
+
+type JsonSchema = Record<string, any>;
+
+function toJsonSchema(schema: z.ZodTypeAny, removeAdditionalStrategy: "passthrough" | "strict" = "passthrough"): JsonSchema {
+  const json = zodToJsonSchema(schema, { $refStrategy: "none", removeAdditionalStrategy }) as JsonSchema;
+  delete json.$schema;
+  return json;
+}
+
+// Plugins may bring their own copy of zod, so unions are recognized by type name rather than instanceof
+function isDiscriminatedUnion(schema: z.ZodTypeAny): schema is z.ZodDiscriminatedUnion<string, z.AnyZodObject[]> {
+  return schema._def?.typeName === z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion;
+}
+
+/**
+ * The operations a tool's args schema accepts; none for tools without an `operation` union
+ */
+export function operationsOf(schema: z.ZodTypeAny): string[] {
+  if (!isDiscriminatedUnion(schema)) {
+    return [];
+  }
+  return [...schema.optionsMap.keys()].map(String);
+}
+
+/**
+ * Build a tool's `inputSchema` from the Zod schema its handler validates with.
+ *
+ * Discriminated unions become one `oneOf` branch per operation, each with its real
+ * `required` fields. The top level still lists every property so clients that
+ * ignore `oneOf` keep seeing the full argument set. Passing `operations` keeps
+ * only those branches. A tool with a single operation doesn't require it.
+ */
+export function toInputSchema(schema: z.ZodTypeAny, operations?: string[]): Tool["inputSchema"] {
+  if (!isDiscriminatedUnion(schema)) {
+    return toJsonSchema(schema) as Tool["inputSchema"];
+  }
+
+  const discriminator: string = schema.discriminator;
+  const soleOperation = schema.options.length === 1;
+  const branches: JsonSchema[] = schema.options
+    .map((option: z.ZodTypeAny) => toJsonSchema(option))
+    .map((branch: JsonSchema) => soleOperation ?
+      { ...branch, required: branch.required?.filter((key: string) => key !== discriminator) } :
+      branch)
+    .filter((branch: JsonSchema) => !operations || operations.includes(branch.properties[discriminator].const));
+  const values = branches.map(branch => branch.properties[discriminator].const as string);
+
+  // Merge the branch properties, noting which operations accept each one;
+  // the branches themselves carry the exact per-operation rules
+  const usage = new Map<string, { property: JsonSchema; descriptions: Set<string>; operations: string[] }>();
+  branches.forEach((branch, i) => {
+    for (const [key, property] of Object.entries<JsonSchema>(branch.properties)) {
+      if (key === discriminator) continue;
+      const entry = usage.get(key) ?? { property, descriptions: new Set<string>(), operations: [] };
+      if (property.description) entry.descriptions.add(property.description);
+      entry.operations.push(`'${values[i]}'`);
+      usage.set(key, entry);
+    }
+  });
+
+  const properties: Record<string, JsonSchema> = {};
+  for (const [key, { property, descriptions, operations }] of usage) {
+    const usedBy = `Used by ${operations.join(", ")}`;
+    properties[key] = {
+      ...property,
+      description: descriptions.size === 1 ? `${[...descriptions][0].replace(/\.$/, "")}. ${usedBy}` : usedBy,
+    };
+  }
+
+  const operationList = branches
+    .map((branch, i) => branch.description ? `'${values[i]}' (${branch.description})` : `'${values[i]}'`)
+    .join(", ");
+
+  return {
+    type: "object",
+    properties: {
+      [discriminator]: {
+        type: "string",
+        description: `Operation to perform: ${operationList}`,
+        enum: values,
+      },
+      ...properties,
+    },
+    required: soleOperation ? [] : [discriminator],
+    oneOf: branches,
+  };
+}
+
+/**
+ * Build a tool's `outputSchema` from the Zod schema of its `structuredContent`.
+ * Objects are left open because the apps can report more fields than the schema lists.
+ * Failed calls return only `error`, so the usual required fields are required unless it is set.
+ */
+export function toOutputSchema(schema: z.AnyZodObject): NonNullable<Tool["outputSchema"]> {
+  const { required, ...json }: JsonSchema = toJsonSchema(schema.extend({ error: ToolErrorSchema.optional() }), "strict");
+  if (required?.length) {
+    json.anyOf = [{ required }, { required: ["error"] }];
+  }
+  return json as NonNullable<Tool["outputSchema"]>;
+}
@@ -8,14 +8,49 @@ export type ModuleMap = {
   webSearch: typeof import('../utils/webSearch').default;
   calendar: typeof import('../utils/calendar').default;
   maps: typeof import('../utils/maps').default;
+  backend: AutomationBackend;
 };
 
 // Type for the module loading function
 export type LoadModuleFunction = <T extends keyof ModuleMap>(moduleName: T) => Promise<ModuleMap[T]>;
 
+// Everything the utils modules need from the machine they automate.
+// The osascript backend talks to the real apps; the fake backend serves an in-memory copy.
+export interface AutomationBackend {
+  name: string;
+  // Run a JXA function. Arguments and result are JSON round-tripped, like `run` from @jxa/run.
+  runJxa<R = unknown>(fn: (...args: any[]) => unknown, ...args: any[]): Promise<R>;
+  // Run AppleScript source and return its trimmed output
+  runAppleScript(script: string): Promise<string>;
+  // Run an AppleScript file with positional arguments and return its trimmed output
+  runScriptFile(scriptPath: string, args?: string[]): Promise<string>;
+  // Run a read-only sqlite3 query and return the rows
+  querySqlite<T = Record<string, unknown>>(dbPath: string, sql: string): Promise<T[]>;
+  // The same backend with every call tied to `signal`: calls fail once it fires,
+  // and a running osascript or sqlite3 process is killed
+  withSignal(signal: AbortSignal): AutomationBackend;
+}
+
+// One step of a search that visits mailboxes, lists or folders one at a time
+export interface SearchProgress<T> {
+  completed: number;
+  total: number;
+  // Mailbox, list or folder just searched
+  container: string;
+  // Matches found in that container
+  found: T[];
+}
+
+export type SearchProgressCallback<T> = (progress: SearchProgress<T>) => Promise<void>;
+
+// Send an MCP progress notification for the request being handled
+export type ProgressReporter = (progress: number, total: number, message: string) => Promise<void>;
+
 // Generic type for tool handler results
 export interface ToolResult {
   content: { type: string; text: string }[];
   isError: boolean;
+  // Typed counterpart of the text, matching the tool's outputSchema
+  structuredContent?: Record<string, unknown>;
   [key: string]: any; // Allow for additional properties like lists, reminders, etc.
 }
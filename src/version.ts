@@ -0,0 +1,4 @@
+import packageJson from "../package.json";
+
+// Reported to clients on initialize and by the diagnostics tool
+export const SERVER_VERSION: string = packageJson.version;
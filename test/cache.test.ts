@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { createResponseCache } from "../src/cache";
+import { createFakeBackend, createSampleFakeData } from "../src/backends";
+import { createModuleLoader } from "../src/moduleLoader";
+
+afterEach(() => {
+  setSystemTime();
+});
+
+// A loader that counts how often it ran
+function counter<T>(value: T) {
+  const load = async () => { load.calls++; return value; };
+  load.calls = 0;
+  return load;
+}
+
+describe("createResponseCache", () => {
+  test("serves a fresh result without loading it again", async () => {
+    const cache = createResponseCache();
+    const load = counter(["Notes", "Work"]);
+    await cache.get("notes.listFolders", [], load);
+    expect(await cache.get("notes.listFolders", [], load)).toEqual(["Notes", "Work"]);
+    expect(load.calls).toBe(1);
+  });
+
+  test("keys results by their arguments", async () => {
+    const cache = createResponseCache();
+    const load = counter(["INBOX"]);
+    await cache.get("mail.getMailboxesForAccount", ["Work"], load);
+    await cache.get("mail.getMailboxesForAccount", ["Home"], load);
+    expect(load.calls).toBe(2);
+  });
+
+  test("loads again once the TTL has passed", async () => {
+    const cache = createResponseCache({ "notes.listFolders": 1000 });
+    const load = counter(["Notes"]);
+    setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    await cache.get("notes.listFolders", [], load);
+    setSystemTime(new Date("2026-01-01T00:00:00.999Z"));
+    await cache.get("notes.listFolders", [], load);
+    expect(load.calls).toBe(1);
+    setSystemTime(new Date("2026-01-01T00:00:01Z"));
+    await cache.get("notes.listFolders", [], load);
+    expect(load.calls).toBe(2);
+  });
+
+  test("loads again when bypassed, and keeps the new result", async () => {
+    const cache = createResponseCache();
+    const load = counter(["Notes"]);
+    await cache.get("notes.listFolders", [], load);
+    await cache.get("notes.listFolders", [], load, true);
+    await cache.get("notes.listFolders", [], load);
+    expect(load.calls).toBe(2);
+  });
+
+  test("drops what a write may have changed, and nothing else", async () => {
+    const cache = createResponseCache();
+    const folders = counter(["Notes"]);
+    const lists = counter(["Reminders"]);
+    await cache.get("notes.listFolders", [], folders);
+    await cache.get("reminders.getAllLists", [], lists);
+
+    cache.invalidateAfter("notes", "createFolder");
+    await cache.get("notes.listFolders", [], folders);
+    await cache.get("reminders.getAllLists", [], lists);
+    expect(folders.calls).toBe(2);
+    expect(lists.calls).toBe(1);
+  });
+
+  test("doesn't keep failures", async () => {
+    const cache = createResponseCache();
+    await expect(cache.get("notes.listFolders", [], async () => { throw new Error("Notes is busy"); })).rejects.toThrow("Notes is busy");
+    expect(await cache.get("notes.listFolders", [], async () => ["Notes"])).toEqual(["Notes"]);
+  });
+
+  test("hands out copies, so callers can't change each other's answer", async () => {
+    const cache = createResponseCache();
+    const first = await cache.get<string[]>("notes.listFolders", [], async () => ["Notes"]);
+    first.push("Changed");
+    expect(await cache.get<string[]>("notes.listFolders", [], async () => [])).toEqual(["Notes"]);
+  });
+});
+
+describe("withCache", () => {
+  test("serves lookups the modules make internally from the cache", async () => {
+    const backend = createFakeBackend(createSampleFakeData());
+    const load = createModuleLoader(backend, undefined, { cache: createResponseCache(), bypass: false });
+    const contacts = await load("contacts");
+
+    await contacts.findContactByPhone("+15555550100");
+    const callsAfterFirst = backend.calls.length;
+    expect(await contacts.findContactByPhone("+15555550123")).toBe("Sam Example");
+    await contacts.getAllNumbers();
+    expect(backend.calls.length).toBe(callsAfterFirst);
+  });
+});
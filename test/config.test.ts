@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { ConfigSchema, DEFAULT_CONFIG, getConfigPath, isOperationEnabled, isToolEnabled, loadConfig } from "../src/config";
+import { createTools } from "../tools";
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(path.join(tmpdir(), "apple-mcp-config-"));
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+// Write `content` (JSON unless it's a string) to a config file and return its path
+function configFile(content: unknown): string {
+  const file = path.join(directory, "config.json");
+  writeFileSync(file, typeof content === "string" ? content : JSON.stringify(content));
+  return file;
+}
+
+describe("loadConfig", () => {
+  test("uses the defaults when there is no file", () => {
+    expect(loadConfig(path.join(directory, "missing.json"))).toEqual(DEFAULT_CONFIG);
+  });
+
+  test("fills in defaults around the keys the file sets", () => {
+    const config = loadConfig(configFile({ readOnly: true, timeouts: { operations: { "mail.search": 180000 } } }));
+    expect(config.readOnly).toBe(true);
+    expect(config.timeouts).toEqual({ defaultMs: 60000, operations: { "mail.search": 180000 } });
+    expect(config.notes.defaultFolder).toBe("Claude");
+  });
+
+  test("rejects a file that isn't JSON", () => {
+    expect(() => loadConfig(configFile("{ readOnly: true"))).toThrow("is not valid JSON");
+  });
+
+  test("names every invalid key", () => {
+    expect(() => loadConfig(configFile({ maxOutputChars: -1, queue: { concurrency: "2" } })))
+      .toThrow(/maxOutputChars: .*queue\.concurrency: /);
+  });
+
+  test("rejects unknown keys, so typos don't go unnoticed", () => {
+    expect(() => loadConfig(configFile({ readonly: true }))).toThrow("Unrecognized key(s) in object: 'readonly'");
+    expect(() => loadConfig(configFile({ notes: { defaultFolders: "Work" } }))).toThrow("notes");
+  });
+});
+
+describe("getConfigPath", () => {
+  test("prefers $APPLE_MCP_CONFIG, then $XDG_CONFIG_HOME", () => {
+    expect(getConfigPath({ APPLE_MCP_CONFIG: "/etc/apple-mcp.json", XDG_CONFIG_HOME: "/config" })).toBe("/etc/apple-mcp.json");
+    expect(getConfigPath({ XDG_CONFIG_HOME: "/config" })).toBe("/config/apple-mcp/config.json");
+  });
+});
+
+describe("isOperationEnabled", () => {
+  test("refuses writes in read-only mode", () => {
+    const config = ConfigSchema.parse({ readOnly: true });
+    expect(isOperationEnabled(config, "notes", "search")).toBe(true);
+    expect(isOperationEnabled(config, "notes", "create")).toBe(false);
+  });
+
+  test("limits a tool to the operations the config lists", () => {
+    const config = ConfigSchema.parse({ tools: { mail: { operations: ["unread"] }, maps: { enabled: false } } });
+    expect(isOperationEnabled(config, "mail", "unread")).toBe(true);
+    expect(isOperationEnabled(config, "mail", "send")).toBe(false);
+    expect(isToolEnabled(config, "maps")).toBe(false);
+    expect(isOperationEnabled(config, "maps", "search")).toBe(false);
+  });
+});
+
+describe("createTools", () => {
+  test("leaves out disabled tools and operations the config doesn't allow", () => {
+    const tools = createTools(ConfigSchema.parse({ readOnly: true, tools: { maps: { enabled: false } } }));
+    expect(tools.map(tool => tool.name)).not.toContain("maps");
+    const notes = tools.find(tool => tool.name === "notes")!;
+    expect((notes.inputSchema.properties?.operation as { enum: string[] }).enum).toEqual(["search", "list", "listFolders"]);
+  });
+
+  test("rejects tools and operations that don't exist", () => {
+    expect(() => createTools(ConfigSchema.parse({ tools: { calender: { enabled: false } } }))).toThrow("Unknown tool(s) in config: calender");
+    expect(() => createTools(ConfigSchema.parse({ tools: { notes: { operations: ["delete"] } } }))).toThrow("Unknown notes operation(s) in config: delete");
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { confirmOutbound, createPendingActions, type ConfirmationContext } from "../src/confirmation";
+import { createFakeBackend, createSampleFakeData } from "../src/backends";
+import { createModuleLoader } from "../src/moduleLoader";
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe("createPendingActions", () => {
+  test("redeems a token once, for the action it was issued for", () => {
+    const pending = createPendingActions();
+    const { token } = pending.issue("send to Alex");
+    expect(pending.redeem(token, "send to Alex")).toBe(true);
+    expect(pending.redeem(token, "send to Alex")).toBe(false);
+  });
+
+  test("refuses a token for a different action, and burns it", () => {
+    const pending = createPendingActions();
+    const { token } = pending.issue("send to Alex");
+    expect(pending.redeem(token, "send to Sam")).toBe(false);
+    expect(pending.redeem(token, "send to Alex")).toBe(false);
+  });
+
+  test("refuses a token once it has expired", () => {
+    const pending = createPendingActions(1000);
+    setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const { token, expiresAt } = pending.issue("send to Alex");
+    expect(expiresAt).toEqual(new Date("2026-01-01T00:00:01Z"));
+    setSystemTime(new Date("2026-01-01T00:00:01Z"));
+    expect(pending.redeem(token, "send to Alex")).toBe(false);
+  });
+
+  test("refuses a token it never issued", () => {
+    expect(createPendingActions().redeem("made-up", "send to Alex")).toBe(false);
+  });
+});
+
+describe("confirmOutbound", () => {
+  const message = { operation: "send", phoneNumber: "+15555550100", message: "On my way" };
+
+  function context(elicit?: ConfirmationContext["elicit"]): ConfirmationContext {
+    return { elicit, pending: createPendingActions(), loadModule: createModuleLoader(createFakeBackend(createSampleFakeData())) };
+  }
+
+  test("lets reads and dry runs through", async () => {
+    const confirmation = context();
+    expect(await confirmOutbound("messages", { operation: "read" }, confirmation)).toBeNull();
+    expect(await confirmOutbound("messages", { ...message, dryRun: true }, confirmation)).toBeNull();
+  });
+
+  test("without elicitation, returns a token that lets the same call through once", async () => {
+    const confirmation = context();
+    const first = await confirmOutbound("messages", message, confirmation);
+    expect(first?.isError).toBe(false);
+    expect(first?.content[0].text).toContain("Alex Appleseed");
+    const confirmToken = first?.structuredContent?.confirmToken as string;
+
+    expect(await confirmOutbound("messages", { ...message, confirmToken }, confirmation)).toBeNull();
+    expect((await confirmOutbound("messages", { ...message, confirmToken }, confirmation))?.isError).toBe(true);
+  });
+
+  test("refuses a token for a changed message", async () => {
+    const confirmation = context();
+    const first = await confirmOutbound("messages", message, confirmation);
+    const confirmToken = first?.structuredContent?.confirmToken as string;
+    const changed = await confirmOutbound("messages", { ...message, message: "Running late", confirmToken }, confirmation);
+    expect(changed?.isError).toBe(true);
+  });
+
+  test("asks through elicitation when the client supports it", async () => {
+    const asked: string[] = [];
+    const accept = context(async params => { asked.push(params.message); return { action: "accept", content: { confirm: true } }; });
+    expect(await confirmOutbound("mail", { operation: "send", to: "alex@example.com", subject: "Hi", body: "Hello" }, accept)).toBeNull();
+    expect(asked[0]).toContain("To: alex@example.com");
+
+    const decline = context(async () => ({ action: "decline" }));
+    expect((await confirmOutbound("messages", message, decline))?.content[0].text).toContain("declined");
+  });
+
+  test("falls back to a token when elicitation fails", async () => {
+    const confirmation = context(async () => { throw new Error("Method not found"); });
+    const result = await confirmOutbound("messages", message, confirmation);
+    expect(result?.structuredContent?.confirmToken).toBeString();
+  });
+});
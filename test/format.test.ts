@@ -0,0 +1,28 @@
+import { describe, expect, test } from "bun:test";
+import { renderList, type ItemRenderer } from "../src/format";
+
+interface Note {
+  name: string;
+  folder: string;
+  body: string;
+}
+
+const NOTE: ItemRenderer<Note> = {
+  title: note => note.name,
+  fields: note => ({ Folder: note.folder }),
+  body: note => note.body,
+};
+
+const notes = (count: number, bodyChars: number): Note[] =>
+  Array.from({ length: count }, (_, index) => ({ name: `Note ${index}`, folder: "Notes", body: "x".repeat(bodyChars) }));
+
+describe("renderList", () => {
+  test("shows every item in full when they fit", () => {
+    const text = renderList("Notes", notes(2, 10), NOTE, "markdown");
+    expect(text).toBe("Notes:\n\n### Note 0\n- **Folder:** Notes\n\nxxxxxxxxxx\n\n### Note 1\n- **Folder:** Notes\n\nxxxxxxxxxx");
+  });
+
+  test("puts one item per line in compact", () => {
+    expect(renderList("Notes", notes(2, 3), NOTE, "compact")).toBe("Notes:\nNote 0 | Folder: Notes | xxx\nNote 1 | Folder: Notes | xxx");
+  });
+});
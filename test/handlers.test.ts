@@ -0,0 +1,251 @@
+import { describe, expect, test } from "bun:test";
+import type { z } from "zod";
+import type { ToolResult } from "../src/types";
+import { createFakeBackend, createSampleFakeData } from "../src/backends";
+import { createModuleLoader } from "../src/moduleLoader";
+import { handleContacts, ContactsArgsSchema, ContactsResultSchema } from "../src/handlers/contactsHandler";
+import { handleNotes, NotesArgsSchema, NotesResultSchema } from "../src/handlers/notesHandler";
+import { handleMessages, MessagesArgsSchema, MessagesResultSchema } from "../src/handlers/messagesHandler";
+import { handleMail, MailArgsSchema, MailResultSchema } from "../src/handlers/mailHandler";
+import { handleReminders, RemindersArgsSchema, RemindersResultSchema } from "../src/handlers/remindersHandler";
+import { handleCalendar, CalendarArgsSchema, CalendarResultSchema } from "../src/handlers/calendarHandler";
+import { handleDiagnostics, DiagnosticsArgsSchema, DiagnosticsResultSchema, type DiagnosticsContext } from "../src/handlers/diagnosticsHandler";
+import { DEFAULT_CONFIG } from "../src/config";
+
+// A fake backend seeded with the sample data, and a loader whose modules run against it
+function setup() {
+  const backend = createFakeBackend(createSampleFakeData());
+  return { backend, load: createModuleLoader(backend) };
+}
+
+const textOf = (result: ToolResult) => result.content.map(item => item.text).join("\n");
+
+// The structured result, checked against the schema advertised as the tool's outputSchema
+const structured = <S extends z.AnyZodObject>(schema: S, result: ToolResult): z.infer<S> => schema.parse(result.structuredContent);
+
+describe("contacts", () => {
+  test("lists every contact with their numbers", async () => {
+    const { load } = setup();
+    const result = await handleContacts(ContactsArgsSchema.parse({}), load);
+    expect(result.isError).toBe(false);
+    expect(structured(ContactsResultSchema, result).contacts).toEqual([
+      { name: "Alex Appleseed", phoneNumbers: ["+15555550100"] },
+      { name: "Sam Example", phoneNumbers: ["+15555550123", "+15555550124"] },
+    ]);
+  });
+
+  test("finds a contact by part of the name", async () => {
+    const { load } = setup();
+    const result = await handleContacts(ContactsArgsSchema.parse({ name: "Sam" }), load);
+    expect(structured(ContactsResultSchema, result).contacts[0].phoneNumbers).toEqual(["+15555550123", "+15555550124"]);
+  });
+
+  test("reports a refused Automation permission as an error", async () => {
+    const { backend, load } = setup();
+    backend.denyAccess("Contacts");
+    const result = await handleContacts(ContactsArgsSchema.parse({}), load);
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: { code: "PERMISSION_DENIED" } });
+  });
+});
+
+describe("notes", () => {
+  test("searches note titles and bodies", async () => {
+    const { load } = setup();
+    const result = await handleNotes(NotesArgsSchema.parse({ operation: "search", searchText: "eggs" }), load);
+    expect(structured(NotesResultSchema, result).notes?.map(note => note.name)).toEqual(["Shopping List"]);
+    expect(textOf(result)).toContain("Shopping List");
+  });
+
+  test("lists the notes of one folder", async () => {
+    const { load } = setup();
+    const result = await handleNotes(NotesArgsSchema.parse({ operation: "list", folderName: "Work" }), load);
+    expect(structured(NotesResultSchema, result).notes?.map(note => note.name)).toEqual(["Project Kickoff"]);
+  });
+
+  test("creates a note in the folder it names", async () => {
+    const { backend, load } = setup();
+    const result = await handleNotes(NotesArgsSchema.parse({ operation: "create", title: "Ideas", body: "More tests", folderName: "Work" }), load);
+    expect(result.isError).toBe(false);
+    expect(backend.data.notes.notes).toContainEqual(expect.objectContaining({ name: "Ideas", folder: "Work" }));
+  });
+
+  test("reports progress per folder without changing the results", async () => {
+    const { load } = setup();
+    const args = NotesArgsSchema.parse({ operation: "search", searchText: "a" });
+    const progress: string[] = [];
+    const withProgress = await handleNotes(args, load, async (_progress, _total, message) => { progress.push(message); });
+    const without = await handleNotes(args, setup().load);
+    expect(progress.length).toBeGreaterThan(0);
+    expect(withProgress.structuredContent).toEqual(without.structuredContent);
+  });
+});
+
+describe("messages", () => {
+  test("reads the conversation with a number", async () => {
+    const { load } = setup();
+    const result = await handleMessages(MessagesArgsSchema.parse({ operation: "read", phoneNumber: "+15555550100" }), load);
+    expect(structured(MessagesResultSchema, result).messages?.map(message => message.content)).toContain("Running 5 minutes late");
+  });
+
+  test("names the sender of unread messages from Contacts", async () => {
+    const { load } = setup();
+    const result = await handleMessages(MessagesArgsSchema.parse({ operation: "unread" }), load);
+    expect(structured(MessagesResultSchema, result).messages).toEqual([
+      expect.objectContaining({ content: "Running 5 minutes late", displayName: "Alex Appleseed" }),
+    ]);
+  });
+
+  test("sends a message", async () => {
+    const { backend, load } = setup();
+    await handleMessages(MessagesArgsSchema.parse({ operation: "send", phoneNumber: "+15555550123", message: "Hi" }), load);
+    expect(backend.data.messages.sent).toEqual([{ buddy: "+15555550123", text: "Hi" }]);
+  });
+
+  test("reports a database it can't read as missing Full Disk Access, not as no messages", async () => {
+    const { backend, load } = setup();
+    backend.denyFullDiskAccess();
+    for (const args of [{ operation: "read", phoneNumber: "+15555550100" }, { operation: "unread" }]) {
+      const result = await handleMessages(MessagesArgsSchema.parse(args), load);
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toMatchObject({ error: { code: "PERMISSION_DENIED", app: "Messages" } });
+    }
+  });
+});
+
+describe("diagnostics", () => {
+  const context: DiagnosticsContext = {
+    backendName: "fake",
+    config: DEFAULT_CONFIG,
+    configPath: "/nonexistent/apple-mcp.json",
+    queueDepth: () => [],
+    toolNames: ["messages"],
+  };
+  const check = DiagnosticsArgsSchema.parse({ operation: "check", apps: ["Messages"] });
+
+  test("reports Messages as granted when both permissions are", async () => {
+    const { load } = setup();
+    const result = structured(DiagnosticsResultSchema, await handleDiagnostics(check, load, context));
+    expect(result.permissions).toEqual([
+      { app: "Messages", permission: "automation", status: "granted" },
+      { app: "Messages", permission: "fullDiskAccess", status: "granted" },
+    ]);
+    expect(result.sqlite3.available).toBe(true);
+    expect(result.remediation.filter(item => item.problem.startsWith("Messages"))).toEqual([]);
+  });
+
+  test("tells Automation and Full Disk Access apart, with a fix for the one missing", async () => {
+    const { backend, load } = setup();
+    backend.denyFullDiskAccess();
+    const result = structured(DiagnosticsResultSchema, await handleDiagnostics(check, load, context));
+    expect(result.permissions.map(permission => permission.status)).toEqual(["granted", "denied"]);
+    expect(result.sqlite3.available).toBe(true);
+    expect(result.remediation.map(item => item.problem)).toContain("Messages: Full Disk Access not granted");
+
+    const automation = setup();
+    automation.backend.denyAccess("Messages");
+    const denied = structured(DiagnosticsResultSchema, await handleDiagnostics(check, automation.load, context));
+    expect(denied.permissions.map(permission => permission.status)).toEqual(["denied", "granted"]);
+  });
+});
+
+describe("mail", () => {
+  test("lists unread email across accounts", async () => {
+    const { load } = setup();
+    const result = await handleMail(MailArgsSchema.parse({ operation: "unread" }), load);
+    expect(structured(MailResultSchema, result).emails?.map(email => email.subject)).toEqual(["Invoice #1042"]);
+  });
+
+  test("searches subjects and senders", async () => {
+    const { load } = setup();
+    const result = await handleMail(MailArgsSchema.parse({ operation: "search", searchTerm: "lunch" }), load);
+    expect(structured(MailResultSchema, result).emails?.map(email => email.sender)).toEqual(["alex@example.com"]);
+  });
+
+  test("lists accounts and mailboxes", async () => {
+    const { load } = setup();
+    const accounts = await handleMail(MailArgsSchema.parse({ operation: "accounts" }), load);
+    const mailboxes = await handleMail(MailArgsSchema.parse({ operation: "mailboxes", account: "Work" }), load);
+    expect(structured(MailResultSchema, accounts).accounts).toEqual(["Work"]);
+    expect(structured(MailResultSchema, mailboxes).mailboxes).toEqual(["INBOX", "Archive"]);
+  });
+
+  test("sends an email", async () => {
+    const { backend, load } = setup();
+    await handleMail(MailArgsSchema.parse({ operation: "send", to: "alex@example.com", subject: "Re: Lunch?", body: "Thursday works" }), load);
+    expect(backend.data.mail.outbox).toEqual([expect.objectContaining({ to: "alex@example.com", subject: "Re: Lunch?" })]);
+  });
+});
+
+describe("reminders", () => {
+  test("lists every list and reminder", async () => {
+    const { load } = setup();
+    const result = await handleReminders(RemindersArgsSchema.parse({ operation: "list" }), load);
+    expect(structured(RemindersResultSchema, result).lists?.map(list => list.name)).toEqual(["Reminders", "Shopping"]);
+    expect(structured(RemindersResultSchema, result).reminders).toHaveLength(3);
+  });
+
+  test("searches reminders by name", async () => {
+    const { load } = setup();
+    const result = await handleReminders(RemindersArgsSchema.parse({ operation: "search", searchText: "buy" }), load);
+    expect(structured(RemindersResultSchema, result).reminders?.map(reminder => reminder.name)).toEqual(["Buy milk", "Buy coffee"]);
+  });
+
+  test("creates a reminder in a new list", async () => {
+    const { backend, load } = setup();
+    const result = await handleReminders(RemindersArgsSchema.parse({ operation: "create", name: "Water plants", listName: "Home" }), load);
+    expect(result.isError).toBe(false);
+    expect(backend.data.reminders.lists.find(list => list.name === "Home")?.reminders).toEqual([
+      expect.objectContaining({ name: "Water plants" }),
+    ]);
+  });
+});
+
+describe("calendar", () => {
+  test("lists the coming week's events", async () => {
+    const { load } = setup();
+    const result = await handleCalendar(CalendarArgsSchema.parse({ operation: "list" }), load);
+    expect(structured(CalendarResultSchema, result).events?.map(event => event.title)).toEqual(["Team Standup", "Quarterly Review", "Dentist"]);
+  });
+
+  test("searches events by title", async () => {
+    const { load } = setup();
+    const result = await handleCalendar(CalendarArgsSchema.parse({ operation: "search", searchText: "review" }), load);
+    expect(structured(CalendarResultSchema, result).events).toEqual([expect.objectContaining({ title: "Quarterly Review", location: "Conference Room A" })]);
+  });
+
+  test("pages through events with the cursor", async () => {
+    const { load } = setup();
+    const first = await handleCalendar(CalendarArgsSchema.parse({ operation: "list", limit: 2 }), load);
+    const second = await handleCalendar(CalendarArgsSchema.parse({ operation: "list", limit: 2, cursor: structured(CalendarResultSchema, first).nextCursor }), load);
+    expect(structured(CalendarResultSchema, first).events).toHaveLength(2);
+    expect(structured(CalendarResultSchema, second).events?.map(event => event.title)).toEqual(["Dentist"]);
+    expect(structured(CalendarResultSchema, second).nextCursor).toBeUndefined();
+  });
+});
+
+describe("searches without progress", () => {
+  const jxaCalls = (backend: ReturnType<typeof setup>["backend"]) => backend.calls.filter(call => call.kind === "jxa").length;
+  const noop = async () => {};
+
+  test("run one script for all mailboxes, lists and folders, and find the same as with progress", async () => {
+    const searches = [
+      (load: ReturnType<typeof setup>["load"], progress?: typeof noop) =>
+        handleMail(MailArgsSchema.parse({ operation: "search", searchTerm: "e" }), load, progress),
+      (load: ReturnType<typeof setup>["load"], progress?: typeof noop) =>
+        handleReminders(RemindersArgsSchema.parse({ operation: "search", searchText: "buy" }), load, progress),
+      (load: ReturnType<typeof setup>["load"], progress?: typeof noop) =>
+        handleNotes(NotesArgsSchema.parse({ operation: "search", searchText: "a" }), load, progress),
+    ];
+
+    for (const search of searches) {
+      const quiet = setup();
+      const followed = setup();
+      const without = await search(quiet.load);
+      const withProgress = await search(followed.load, noop);
+      expect(without.structuredContent).toEqual(withProgress.structuredContent);
+      expect(jxaCalls(quiet.backend)).toBeLessThan(jxaCalls(followed.backend));
+      expect(quiet.backend.calls.filter(call => call.kind === "jxa" && /whose|plaintext/.test(call.source))).toHaveLength(1);
+    }
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+import { renderList, renderPage, type ItemRenderer } from "../src/format";
+import { fitOutput } from "../src/outputBudget";
+import { fetchPage } from "../src/pagination";
+
+interface Note {
+  name: string;
+  folder: string;
+  body: string;
+}
+
+const NOTE: ItemRenderer<Note> = {
+  title: note => note.name,
+  fields: note => ({ Folder: note.folder }),
+  body: note => note.body,
+};
+
+const notes = (count: number, bodyChars: number): Note[] =>
+  Array.from({ length: count }, (_, index) => ({ name: `Note ${index}`, folder: "Notes", body: "x".repeat(bodyChars) }));
+
+describe("renderList within maxChars", () => {
+  test("shortens the bodies before leaving items out", () => {
+    const text = renderList("Notes", notes(4, 2000), NOTE, "markdown", { maxChars: 2000 });
+    expect(text.length).toBeLessThanOrEqual(2000);
+    expect(text.match(/### Note/g)).toHaveLength(4);
+    expect(text).toContain("…");
+  });
+
+  test("leaves items out from the end, saying how many and suggesting a limit", () => {
+    const text = renderList("Notes", notes(20, 300), NOTE, "markdown", { maxChars: 1500 });
+    const shown = text.match(/### Note/g)!.length;
+    expect(text.length).toBeLessThanOrEqual(1500);
+    expect(text).toContain(`${20 - shown} more result(s) left out to stay within 1500 characters`);
+    expect(text).toContain(`limit ${shown}`);
+  });
+
+  test("offers the next page only when nothing was left out", () => {
+    expect(renderList("Notes", notes(2, 10), NOTE, "markdown", { nextCursor: "abc" })).toContain('cursor "abc"');
+    expect(renderList("Notes", notes(20, 300), NOTE, "markdown", { nextCursor: "abc", maxChars: 1500 })).not.toContain("abc");
+  });
+});
+
+describe("renderPage", () => {
+  test("resumes at the first item left out, in the text and nextCursor alike", async () => {
+    const all = notes(20, 300);
+    const args = { operation: "list" };
+    const page = await fetchPage("notes", args, 10, async () => all);
+    const rendered = renderPage("Notes", page, NOTE, "markdown", 1500);
+
+    expect(rendered.items.length).toBeLessThan(10);
+    expect(rendered.text).toContain(`cursor "${rendered.nextCursor}"`);
+    const next = await fetchPage("notes", { ...args, cursor: rendered.nextCursor }, 10, async () => all);
+    expect(next.items[0]).toEqual(all[rendered.items.length]);
+  });
+
+  test("ends the page early when its items wouldn't fit as JSON, and resumes there", async () => {
+    // Short bodies but long names, which are never cut: the text fits, the JSON doesn't
+    const all = Array.from({ length: 10 }, (_, index) => ({ name: `${index} ${"n".repeat(400)}`, folder: "Notes", body: "" }));
+    const page = await fetchPage("notes", { operation: "list" }, 10, async () => all);
+    const rendered = renderPage("Notes", page, NOTE, "compact", 2000);
+
+    expect(JSON.stringify(rendered.items).length).toBeLessThanOrEqual(2000);
+    expect(rendered.text).toContain(`nextCursor: ${rendered.nextCursor}`);
+    const next = await fetchPage("notes", { operation: "list", cursor: rendered.nextCursor }, 10, async () => all);
+    expect(next.items[0]).toEqual(all[rendered.items.length]);
+  });
+
+  test("counts in the heading only the items it shows", async () => {
+    const page = await fetchPage("notes", { operation: "list" }, 10, async () => notes(20, 300));
+    const rendered = renderPage(shown => `Found ${shown} notes`, page, NOTE, "markdown", 1500);
+    expect(rendered.text).toStartWith(`Found ${rendered.items.length} notes:`);
+    expect(rendered.items.length).toBeLessThan(10);
+  });
+
+  test("keeps the page and its cursor when everything fits", async () => {
+    const page = await fetchPage("notes", { operation: "list" }, 2, async () => notes(5, 10));
+    const rendered = renderPage("Notes", page, NOTE, "markdown");
+    expect(rendered.items).toEqual(page.items);
+    expect(rendered.nextCursor).toBe(page.nextCursor!);
+  });
+});
+
+describe("fitOutput", () => {
+  const result = (text: string, structuredContent?: Record<string, unknown>) =>
+    ({ content: [{ type: "text", text }], structuredContent, isError: false });
+
+  test("returns a result within the budget as it is", () => {
+    const small = result("short", { body: "short" });
+    expect(fitOutput(small, "markdown", 1000)).toEqual(small);
+  });
+
+  test("cuts long text at a line break and says so", () => {
+    const text = Array.from({ length: 100 }, (_, index) => `line ${index}`).join("\n");
+    const fitted = fitOutput(result(text), "markdown", 500).content[0].text;
+    expect(fitted.length).toBeLessThanOrEqual(500);
+    expect(fitted).toMatch(/line \d+\n\n\[Output cut at 500 characters/);
+  });
+
+  test("shortens the free text of structuredContent until it fits, and nothing else", () => {
+    const id = `x-coredata://${"p".repeat(300)}`;
+    const fitted = fitOutput(result("short", { note: { body: "x".repeat(5000), id } }), "markdown", 1000);
+    expect(JSON.stringify(fitted.structuredContent).length).toBeLessThanOrEqual(1000);
+    expect(fitted.structuredContent).toMatchObject({ note: { id } });
+  });
+
+  test("leaves list items out when shortened text isn't enough", () => {
+    const structured = { contacts: Array.from({ length: 20 }, (_, index) => ({ name: `Contact ${index} ${"n".repeat(100)}` })) };
+    const fitted = fitOutput(result("short", structured), "markdown", 1000);
+    const contacts = fitted.structuredContent?.contacts as unknown[];
+    expect(JSON.stringify(fitted.structuredContent).length).toBeLessThanOrEqual(1000);
+    expect(contacts.length).toBeGreaterThan(0);
+    expect(contacts).toEqual(structured.contacts.slice(0, contacts.length));
+  });
+
+  test("keeps the items of a page, which its cursor counts on", () => {
+    const structured = { contacts: [{ name: "n".repeat(2000) }, { name: "m".repeat(2000) }], nextCursor: "abc" };
+    expect(fitOutput(result("short", structured), "markdown", 1000).structuredContent).toEqual(structured);
+  });
+
+  test("rebuilds json text from the shortened structuredContent, so it stays valid JSON", () => {
+    const structured = { notes: [{ body: "x".repeat(3000) }, { body: "y".repeat(3000) }] };
+    const fitted = fitOutput(result(JSON.stringify(structured), structured), "json", 1000);
+    expect(JSON.parse(fitted.content[0].text)).toEqual(fitted.structuredContent!);
+    expect(fitted.content[0].text.length).toBeLessThanOrEqual(1000);
+  });
+});
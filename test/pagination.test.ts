@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { fetchPage } from "../src/pagination";
+import { InvalidInputError } from "../src/errors";
+
+const ITEMS = Array.from({ length: 7 }, (_, index) => `item ${index}`);
+
+// A source that can limit its results, recording how many it was asked for
+function source() {
+  const fetch = async (count: number) => { fetch.counts.push(count); return ITEMS.slice(0, count); };
+  fetch.counts = [] as number[];
+  return fetch;
+}
+
+// Every page of a query, following nextCursor from the first
+async function allPages(args: Record<string, unknown>, pageSize: number) {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchPage("notes", { ...args, cursor }, pageSize, source());
+    pages.push(page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+describe("fetchPage", () => {
+  test("follows nextCursor through every item once, in order", async () => {
+    const pages = await allPages({ operation: "list" }, 3);
+    expect(pages).toEqual([ITEMS.slice(0, 3), ITEMS.slice(3, 6), ITEMS.slice(6)]);
+  });
+
+  test("asks for one item past the page to know whether there is another", async () => {
+    const fetch = source();
+    const first = await fetchPage("notes", { operation: "list" }, 3, fetch);
+    await fetchPage("notes", { operation: "list", cursor: first.nextCursor }, 3, fetch);
+    expect(fetch.counts).toEqual([4, 7]);
+  });
+
+  test("has no nextCursor on a page that ends exactly at the last item", async () => {
+    const page = await fetchPage("notes", { operation: "list" }, 7, source());
+    expect(page.items).toEqual(ITEMS);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  test("lets the page size, format and maxOutputChars change between pages", async () => {
+    const first = await fetchPage("notes", { operation: "list", limit: 2 }, 2, source());
+    const second = await fetchPage("notes", { operation: "list", limit: 4, format: "json", maxOutputChars: 1000, cursor: first.nextCursor }, 4, source());
+    expect(second.items).toEqual(ITEMS.slice(2, 6));
+  });
+
+  test("resumes at any item of a page through cursorAt", async () => {
+    const first = await fetchPage("notes", { operation: "list" }, 5, source());
+    const resumed = await fetchPage("notes", { operation: "list", cursor: first.cursorAt!(2) }, 5, source());
+    expect(resumed.items).toEqual(ITEMS.slice(2));
+  });
+
+  test("refuses a cursor from a different query", async () => {
+    const first = await fetchPage("notes", { operation: "search", searchText: "milk" }, 3, source());
+    const other = fetchPage("notes", { operation: "search", searchText: "eggs", cursor: first.nextCursor }, 3, source());
+    await expect(other).rejects.toBeInstanceOf(InvalidInputError);
+    await expect(other).rejects.toThrow("different query");
+  });
+
+  test("refuses a cursor from a different tool", async () => {
+    const first = await fetchPage("notes", { operation: "list" }, 3, source());
+    await expect(fetchPage("reminders", { operation: "list", cursor: first.nextCursor }, 3, source())).rejects.toBeInstanceOf(InvalidInputError);
+  });
+
+  test("reports a cursor that isn't one as invalid input", async () => {
+    for (const cursor of ["garbage", Buffer.from(JSON.stringify({ o: -1, q: "x" })).toString("base64url")]) {
+      const page = fetchPage("notes", { operation: "list", cursor }, 3, source());
+      await expect(page).rejects.toBeInstanceOf(InvalidInputError);
+    }
+  });
+});
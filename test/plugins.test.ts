@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import { ConfigSchema } from "../src/config";
+import { definePlugin, loadPlugins, runPlugin } from "../src/plugins";
+import { createFakeBackend } from "../src/backends";
+import { createModuleLoader } from "../src/moduleLoader";
+
+let directory: string;
+let configPath: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(path.join(tmpdir(), "apple-mcp-plugins-"));
+  configPath = path.join(directory, "config.json");
+  mkdirSync(path.join(directory, "plugins"));
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+// Plugins in a temporary directory can't resolve "zod" themselves
+const ZOD = JSON.stringify(Bun.resolveSync("zod", import.meta.dir));
+
+// Source of a plugin module default-exporting tools with these names
+function pluginSource(...names: string[]): string {
+  const tools = names.map(name => `{
+    name: ${JSON.stringify(name)},
+    description: "Test tool",
+    argsSchema: z.object({ operation: z.literal("lookup") }),
+    resultSchema: z.object({}),
+    writeOperations: ["add"],
+    optionsSchema: z.object({ baseUrl: z.string().url() }).optional(),
+    async handler() { return { content: [{ type: "text", text: ${JSON.stringify(name)} }], isError: false }; },
+  }`);
+  return `import { z } from ${ZOD};\nexport default ${names.length === 1 ? tools[0] : `[${tools.join(",")}]`};\n`;
+}
+
+function writePlugin(file: string, source: string): void {
+  writeFileSync(path.join(directory, file), source);
+}
+
+describe("loadPlugins", () => {
+  test("loads every plugin file in the directory, in name order, and nothing else", async () => {
+    writePlugin("plugins/b.ts", pluginSource("beta", "gamma"));
+    writePlugin("plugins/a.js", pluginSource("alpha"));
+    writePlugin("plugins/notes.txt", "not a plugin");
+    const registry = await loadPlugins(ConfigSchema.parse({}), configPath);
+    expect(registry.plugins.map(plugin => plugin.name)).toEqual(["alpha", "beta", "gamma"]);
+    expect(registry.get("beta")?.description).toBe("Test tool");
+  });
+
+  test("loads packages by path relative to the config file", async () => {
+    writePlugin("directory.ts", pluginSource("directory"));
+    const registry = await loadPlugins(ConfigSchema.parse({ plugins: { packages: ["./directory.ts"] } }), configPath);
+    expect(registry.plugins.map(plugin => plugin.name)).toEqual(["directory"]);
+  });
+
+  test("tells plugin write operations from built-in ones", async () => {
+    writePlugin("plugins/directory.ts", pluginSource("directory"));
+    const registry = await loadPlugins(ConfigSchema.parse({}), configPath);
+    expect(registry.isWriteOperation("directory", "add")).toBe(true);
+    expect(registry.isWriteOperation("directory", "create")).toBe(false);
+    expect(registry.isWriteOperation("notes", "create")).toBe(true);
+  });
+
+  test("refuses a plugin named like a built-in tool or another plugin", async () => {
+    writePlugin("plugins/a.ts", pluginSource("notes"));
+    await expect(loadPlugins(ConfigSchema.parse({}), configPath)).rejects.toThrow('tool "notes" already exists');
+
+    // Imports are cached by path, so the second plugin goes in a file of its own
+    rmSync(path.join(directory, "plugins/a.ts"));
+    writePlugin("plugins/b.ts", pluginSource("directory", "directory"));
+    await expect(loadPlugins(ConfigSchema.parse({}), configPath)).rejects.toThrow('tool "directory" already exists');
+  });
+
+  test("refuses a plugin without a handler", async () => {
+    writePlugin("plugins/a.ts", `import { z } from ${ZOD};\nexport default { name: "directory", description: "x", argsSchema: z.object({}), resultSchema: z.object({}) };\n`);
+    await expect(loadPlugins(ConfigSchema.parse({}), configPath)).rejects.toThrow("handler is missing");
+  });
+
+  test("says which plugin failed to import", async () => {
+    writePlugin("plugins/broken.ts", "throw new Error('no network');\n");
+    await expect(loadPlugins(ConfigSchema.parse({}), configPath)).rejects.toThrow(/Cannot load plugin .*broken\.ts: no network/);
+  });
+
+  test("checks the plugins' options", async () => {
+    writePlugin("plugins/directory.ts", pluginSource("directory"));
+    await expect(loadPlugins(ConfigSchema.parse({ plugins: { options: { directory: { baseUrl: "not a url" } } } }), configPath))
+      .rejects.toThrow("Invalid plugins.options.directory: baseUrl");
+    await expect(loadPlugins(ConfigSchema.parse({ plugins: { options: { other: {} } } }), configPath))
+      .rejects.toThrow("plugins.options names tools no plugin provides: other");
+  });
+});
+
+describe("runPlugin", () => {
+  const plugin = definePlugin({
+    name: "directory",
+    description: "Look people up",
+    argsSchema: z.object({ operation: z.literal("lookup"), name: z.string() }).strict(),
+    resultSchema: z.object({ email: z.string() }),
+    optionsSchema: z.object({ domain: z.string() }),
+    createModule: (_backend, options) => {
+      created++;
+      return { emailOf: (name: string) => `${name.toLowerCase()}@${(options as { domain: string }).domain}` };
+    },
+    async handler(args, { module }) {
+      const email = (await module()).emailOf(args.name);
+      // Asking again gets the same module
+      await module();
+      return { content: [{ type: "text", text: email }], structuredContent: { email }, isError: false };
+    },
+  });
+  let created = 0;
+
+  test("builds the plugin's module once per call, with its options", async () => {
+    created = 0;
+    const config = ConfigSchema.parse({ plugins: { options: { directory: { domain: "example.com" } } } });
+    const args = plugin.argsSchema.parse({ operation: "lookup", name: "Alex" });
+    const result = await runPlugin(plugin, args, config, createModuleLoader(createFakeBackend()));
+    expect(result.structuredContent).toEqual({ email: "alex@example.com" });
+    expect(created).toBe(1);
+  });
+});
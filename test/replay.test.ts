@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import path from "node:path";
+import { createReplayBackend, loadFixtures } from "../src/backends";
+import { createModuleLoader } from "../src/moduleLoader";
+import { handleMail, MailArgsSchema, MailResultSchema } from "../src/handlers/mailHandler";
+import { handleMessages, MessagesArgsSchema, MessagesResultSchema } from "../src/handlers/messagesHandler";
+
+// The records src/scripts/getUnreadMail.applescript prints and a Messages conversation, in the
+// shape osascript and sqlite3 return them, with made-up people and text. Only script files and SQL,
+// which replay the same whatever runs the tests; JXA fixtures are keyed on the transpiled source
+const FIXTURES = path.join(import.meta.dir, "fixtures/replay.jsonl");
+
+function setup() {
+  const backend = createReplayBackend(loadFixtures(FIXTURES));
+  return { backend, load: createModuleLoader(backend) };
+}
+
+describe("replayed mail", () => {
+  test("parses the records the unread-mail script prints, commas and all", async () => {
+    const { backend, load } = setup();
+    const result = await handleMail(MailArgsSchema.parse({ operation: "unread", account: "Work" }), load);
+    expect(MailResultSchema.parse(result.structuredContent).emails).toEqual([
+      {
+        subject: "Invoice #1042",
+        sender: "Billing <billing@example.com>",
+        dateSent: "Monday, 5 October 2026 at 09:12:00",
+        content: "Hi Alex, your invoice for September is attached.",
+        isRead: false,
+        mailbox: "Work - INBOX",
+      },
+      expect.objectContaining({ subject: "Re: Lunch?", dateSent: "Sunday, 4 October 2026 at 18:40:02" }),
+    ]);
+    expect(backend.misses).toEqual([]);
+  });
+
+  test("keeps each field to itself", async () => {
+    const { load } = setup();
+    const result = await handleMail(MailArgsSchema.parse({ operation: "unread", account: "Work" }), load);
+    for (const email of MailResultSchema.parse(result.structuredContent).emails ?? []) {
+      expect(email.sender).not.toContain("dateSent");
+      expect(email.sender).not.toContain("2026");
+    }
+  });
+
+  test("reads records printed with braces too", async () => {
+    const [script, ...rest] = loadFixtures(FIXTURES);
+    const braced = { ...script, result: "{subject:Invoice #1042, sender:billing@example.com, dateSent:Monday, 5 October 2026 at 09:12:00, mailboxName:INBOX, content:Attached.}" };
+    const load = createModuleLoader(createReplayBackend([braced, ...rest]));
+    const result = await handleMail(MailArgsSchema.parse({ operation: "unread", account: "Work" }), load);
+    expect(MailResultSchema.parse(result.structuredContent).emails).toEqual([
+      expect.objectContaining({ sender: "billing@example.com", dateSent: "Monday, 5 October 2026 at 09:12:00", content: "Attached." }),
+    ]);
+  });
+});
+
+describe("replayed messages", () => {
+  test("decodes attributedBody and reads plain text alike", async () => {
+    const { backend, load } = setup();
+    const result = await handleMessages(MessagesArgsSchema.parse({ operation: "read", phoneNumber: "+15555550100" }), load);
+    const messages = MessagesResultSchema.parse(result.structuredContent).messages;
+    expect(messages?.map(message => message.content)).toEqual([
+      "Table for 4 at 7pm, menu: https://example.com/menu\n[URL: https://example.com/menu]",
+      "Running 5 minutes late",
+    ]);
+    expect(messages?.[0].url).toBe("https://example.com/menu");
+    expect(backend.misses).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import { createScheduler } from "../src/scheduler";
+
+// A task that finishes when the test says so
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("run", () => {
+  test("runs at most the app's concurrency at once and starts the rest in order", async () => {
+    const scheduler = createScheduler({ concurrency: 1, apps: { Mail: 2 } });
+    const tasks = [deferred<number>(), deferred<number>(), deferred<number>()];
+    const started: number[] = [];
+    const runs = tasks.map((task, index) => scheduler.run("Mail", () => { started.push(index); return task.promise; }));
+
+    await tick();
+    expect(started).toEqual([0, 1]);
+    expect(scheduler.depth()).toEqual([{ app: "Mail", running: 2, queued: 1, concurrency: 2 }]);
+
+    tasks[1].resolve(1);
+    await tick();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[0].resolve(0);
+    tasks[2].resolve(2);
+    expect(await Promise.all(runs)).toEqual([0, 1, 2]);
+    expect(scheduler.depth()).toEqual([{ app: "Mail", running: 0, queued: 0, concurrency: 2 }]);
+  });
+
+  test("keeps apps apart", async () => {
+    const scheduler = createScheduler({ concurrency: 1, apps: {} });
+    const mail = deferred<string>();
+    scheduler.run("Mail", () => mail.promise);
+    const notes = await scheduler.run("Notes", async () => "notes");
+    expect(notes).toBe("notes");
+    mail.resolve("mail");
+  });
+
+  test("frees the slot when a task fails", async () => {
+    const scheduler = createScheduler({ concurrency: 1, apps: {} });
+    await expect(scheduler.run("Mail", async () => { throw new Error("script failed"); })).rejects.toThrow("script failed");
+    expect(await scheduler.run("Mail", async () => "next")).toBe("next");
+  });
+
+  test("drops a waiting task whose signal fires", async () => {
+    const scheduler = createScheduler({ concurrency: 1, apps: {} });
+    const running = deferred<void>();
+    scheduler.run("Mail", () => running.promise);
+    const controller = new AbortController();
+    let started = false;
+    const waiting = scheduler.run("Mail", async () => { started = true; }, controller.signal);
+
+    controller.abort(new Error("cancelled"));
+    await expect(waiting).rejects.toThrow("cancelled");
+    expect(scheduler.depth()[0].queued).toBe(0);
+    running.resolve();
+    await tick();
+    expect(started).toBe(false);
+  });
+});
+
+describe("runShared", () => {
+  test("joins a call with the same key instead of running it again", async () => {
+    const scheduler = createScheduler({ concurrency: 4, apps: {} });
+    const result = deferred<{ folders: string[] }>();
+    let runs = 0;
+    const task = () => { runs++; return result.promise; };
+
+    const first = scheduler.runShared("Notes", "listFolders", task);
+    const second = scheduler.runShared("Notes", "listFolders", task);
+    result.resolve({ folders: ["Notes"] });
+
+    const [a, b] = await Promise.all([first, second]);
+    expect(runs).toBe(1);
+    expect(b).toEqual(a);
+    // Each caller gets its own copy
+    expect(b).not.toBe(a);
+  });
+
+  test("runs again once the shared call has finished", async () => {
+    const scheduler = createScheduler({ concurrency: 4, apps: {} });
+    let runs = 0;
+    await scheduler.runShared("Notes", "listFolders", async () => ++runs);
+    await scheduler.runShared("Notes", "listFolders", async () => ++runs);
+    expect(runs).toBe(2);
+  });
+
+  test("runs for itself when the call it joined was cancelled by its caller", async () => {
+    const scheduler = createScheduler({ concurrency: 1, apps: {} });
+    const blocker = deferred<void>();
+    scheduler.run("Notes", () => blocker.promise);
+
+    const controller = new AbortController();
+    const cancelled = scheduler.runShared("Notes", "listFolders", async () => "first", controller.signal);
+    const joined = scheduler.runShared("Notes", "listFolders", async () => "second");
+    controller.abort(new Error("cancelled"));
+    blocker.resolve();
+
+    await expect(cancelled).rejects.toThrow("cancelled");
+    expect(await joined).toBe("second");
+  });
+});
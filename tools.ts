@@ -1,319 +1,153 @@
 import { type Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { operationsOf, toInputSchema, toOutputSchema } from "./src/toolSchema";
+import { DEFAULT_CONFIG, TOOL_NAMES, isOperationEnabled, isToolEnabled, isWriteOperation, type Config, type ToolName } from "./src/config";
+import type { ToolPlugin } from "./src/plugins";
+import { ContactsArgsSchema, ContactsResultSchema } from "./src/handlers/contactsHandler";
+import { NotesArgsSchema, NotesResultSchema } from "./src/handlers/notesHandler";
+import { MessagesArgsSchema, MessagesResultSchema } from "./src/handlers/messagesHandler";
+import { MailArgsSchema, MailResultSchema } from "./src/handlers/mailHandler";
+import { RemindersArgsSchema, RemindersResultSchema } from "./src/handlers/remindersHandler";
+import { WebSearchArgsSchema, WebSearchResultSchema } from "./src/handlers/webSearchHandler";
+import { CalendarArgsSchema, CalendarResultSchema } from "./src/handlers/calendarHandler";
+import { MapsArgsSchema, MapsResultSchema } from "./src/handlers/mapsHandler";
+import { AuditArgsSchema, AuditResultSchema } from "./src/handlers/auditHandler";
+import { MetricsArgsSchema, MetricsResultSchema } from "./src/handlers/metricsHandler";
+import { DiagnosticsArgsSchema, DiagnosticsResultSchema } from "./src/handlers/diagnosticsHandler";
 
-const CONTACTS_TOOL: Tool = {
-    name: "contacts",
-    description: "Search and retrieve contacts from Apple Contacts app",
-    inputSchema: {
-      type: "object",
-      properties: {
-        name: {
-          type: "string",
-          description: "Name to search for (optional - if not provided, returns all contacts). Can be partial name to search."
-        }
-      }
-    }
-  };
-  
-  const NOTES_TOOL: Tool = {
-    name: "notes", 
-    description: "Search, retrieve, create notes, and list folders in Apple Notes app",
-    inputSchema: {
-      type: "object",
-      properties: {
-        operation: {
-          type: "string",
-          description: "Operation to perform: 'search', 'list', 'create', 'listFolders', or 'createFolder'",
-          enum: ["search", "list", "create", "listFolders", "createFolder"]
-        },
-        searchText: {
-          type: "string",
-          description: "Text to search for in notes (required for search operation)"
-        },
-        title: {
-          type: "string",
-          description: "Title of the note to create (required for create operation)"
-        },
-        body: {
-          type: "string",
-          description: "Content of the note to create (required for create operation)"
-        },
-        folderName: {
-          type: "string",
-          description: "Name of the folder. Used to scope 'search'/'list', specify target for 'create' (note) or 'createFolder', or name the new folder for 'createFolder'. Optional for search/list/create (defaults to 'Claude' for create note)."
-        }
-      },
-      required: ["operation"]
-    }
-  };
-  
-  const MESSAGES_TOOL: Tool = {
-    name: "messages",
-    description: "Interact with Apple Messages app - send, read, schedule messages and check unread messages",
-    inputSchema: {
-      type: "object",
-      properties: {
-        operation: {
-          type: "string",
-          description: "Operation to perform: 'send', 'read', 'schedule', or 'unread'",
-          enum: ["send", "read", "schedule", "unread"]
-        },
-        phoneNumber: {
-          type: "string",
-          description: "Phone number to send message to (required for send, read, and schedule operations)"
-        },
-        message: {
-          type: "string",
-          description: "Message to send (required for send and schedule operations)"
-        },
-        limit: {
-          type: "number",
-          description: "Number of messages to read (optional, for read and unread operations)"
-        },
-        scheduledTime: {
-          type: "string",
-          description: "ISO string of when to send the message (required for schedule operation)"
-        }
-      },
-      required: ["operation"]
-    }
-  };
-  
-  const MAIL_TOOL: Tool = {
-    name: "mail",
-    description: "Interact with Apple Mail app - read unread emails, search emails, and send emails",
-    inputSchema: {
-      type: "object",
-      properties: {
-        operation: {
-          type: "string",
-          description: "Operation to perform: 'unread', 'search', 'send', 'mailboxes', or 'accounts'",
-          enum: ["unread", "search", "send", "mailboxes", "accounts"]
-        },
-        account: {
-          type: "string",
-          description: "Email account to use (optional - if not provided, searches across all accounts)"
-        },
-        mailbox: {
-          type: "string",
-          description: "Mailbox to use (optional - if not provided, uses inbox or searches across all mailboxes)"
-        },
-        limit: {
-          type: "number",
-          description: "Number of emails to retrieve (optional, for unread and search operations)"
-        },
-        searchTerm: {
-          type: "string",
-          description: "Text to search for in emails (required for search operation)"
-        },
-        to: {
-          type: "string",
-          description: "Recipient email address (required for send operation)"
-        },
-        subject: {
-          type: "string",
-          description: "Email subject (required for send operation)"
-        },
-        body: {
-          type: "string",
-          description: "Email body content (required for send operation)"
-        },
-        cc: {
-          type: "string",
-          description: "CC email address (optional for send operation)"
-        },
-        bcc: {
-          type: "string",
-          description: "BCC email address (optional for send operation)"
-        }
-      },
-      required: ["operation"]
-    }
-  };
-  
-  const REMINDERS_TOOL: Tool = {
-    name: "reminders",
-    description: "Search, create, and open reminders in Apple Reminders app",
-    inputSchema: {
-      type: "object",
-      properties: {
-        operation: {
-          type: "string",
-          description: "Operation to perform: 'list', 'search', 'open', 'create', or 'listById'",
-          enum: ["list", "search", "open", "create", "listById"]
-        },
-        searchText: {
-          type: "string",
-          description: "Text to search for in reminders (required for search and open operations)"
-        },
-        name: {
-          type: "string",
-          description: "Name of the reminder to create (required for create operation)"
-        },
-        listName: {
-          type: "string",
-          description: "Name of the list to create the reminder in (optional for create operation)"
-        },
-        listId: {
-          type: "string",
-          description: "ID of the list to get reminders from (required for listById operation)"
-        },
-        props: {
-          type: "array",
-          items: {
-            type: "string"
-          },
-          description: "Properties to include in the reminders (optional for listById operation)"
-        },
-        notes: {
-          type: "string",
-          description: "Additional notes for the reminder (optional for create operation)"
-        },
-        dueDate: {
-          type: "string",
-          description: "Due date for the reminder in ISO format (optional for create operation)"
-        }
-      },
-      required: ["operation"]
-    }
-  };
-  
-  const WEB_SEARCH_TOOL: Tool = {
-    name: "webSearch",
-    description: "Search the web using DuckDuckGo and retrieve content from search results",
-    inputSchema: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description: "Search query to look up"
-        }
-      },
-      required: ["query"]
-    }
-  };
-  
-const CALENDAR_TOOL: Tool = {
+// Input and output schemas are generated from the handlers' Zod schemas so they can't drift from the code
+interface ToolDefinition {
+  name: ToolName | string;
+  description: string;
+  argsSchema: z.ZodTypeAny;
+  resultSchema: z.AnyZodObject;
+  // Plugins list their own; the built-in tools share WRITE_OPERATIONS
+  writeOperations?: string[];
+}
+
+const CONTACTS_TOOL: ToolDefinition = {
+  name: "contacts",
+  description: "Search and retrieve contacts from Apple Contacts app",
+  argsSchema: ContactsArgsSchema,
+  resultSchema: ContactsResultSchema,
+};
+
+const NOTES_TOOL: ToolDefinition = {
+  name: "notes",
+  description: "Search, retrieve, create notes, and list folders in Apple Notes app",
+  argsSchema: NotesArgsSchema,
+  resultSchema: NotesResultSchema,
+};
+
+const MESSAGES_TOOL: ToolDefinition = {
+  name: "messages",
+  description: "Interact with Apple Messages app - send, read, schedule messages and check unread messages",
+  argsSchema: MessagesArgsSchema,
+  resultSchema: MessagesResultSchema,
+};
+
+const MAIL_TOOL: ToolDefinition = {
+  name: "mail",
+  description: "Interact with Apple Mail app - read unread emails, search emails, and send emails",
+  argsSchema: MailArgsSchema,
+  resultSchema: MailResultSchema,
+};
+
+const REMINDERS_TOOL: ToolDefinition = {
+  name: "reminders",
+  description: "Search, create, and open reminders in Apple Reminders app",
+  argsSchema: RemindersArgsSchema,
+  resultSchema: RemindersResultSchema,
+};
+
+const WEB_SEARCH_TOOL: ToolDefinition = {
+  name: "webSearch",
+  description: "Search the web using DuckDuckGo and retrieve content from search results",
+  argsSchema: WebSearchArgsSchema,
+  resultSchema: WebSearchResultSchema,
+};
+
+const CALENDAR_TOOL: ToolDefinition = {
   name: "calendar",
   description: "Search, create, and open calendar events in Apple Calendar app",
-  inputSchema: {
-    type: "object",
-    properties: {
-      operation: {
-        type: "string",
-        description: "Operation to perform: 'search', 'open', 'list', or 'create'",
-        enum: ["search", "open", "list", "create"]
-      },
-      searchText: {
-        type: "string",
-        description: "Text to search for in event titles, locations, and notes (required for search operation)"
-      },
-      eventId: {
-        type: "string",
-        description: "ID of the event to open (required for open operation)"
-      },
-      limit: {
-        type: "number",
-        description: "Number of events to retrieve (optional, default 10)"
-      },
-      fromDate: {
-        type: "string",
-        description: "Start date for search range in ISO format (optional, default is today)"
-      },
-      toDate: {
-        type: "string",
-        description: "End date for search range in ISO format (optional, default is 30 days from now for search, 7 days for list)"
-      },
-      title: {
-        type: "string",
-        description: "Title of the event to create (required for create operation)"
-      },
-      startDate: {
-        type: "string",
-        description: "Start date/time of the event in ISO format (required for create operation)"
-      },
-      endDate: {
-        type: "string",
-        description: "End date/time of the event in ISO format (required for create operation)"
-      },
-      location: {
-        type: "string",
-        description: "Location of the event (optional for create operation)"
-      },
-      notes: {
-        type: "string",
-        description: "Additional notes for the event (optional for create operation)"
-      },
-      isAllDay: {
-        type: "boolean",
-        description: "Whether the event is an all-day event (optional for create operation, default is false)"
-      },
-      calendarName: {
-        type: "string",
-        description: "Name of the calendar to create the event in (optional for create operation, uses default calendar if not specified)"
-      }
-    },
-    required: ["operation"]
-  }
+  argsSchema: CalendarArgsSchema,
+  resultSchema: CalendarResultSchema,
 };
-  
-const MAPS_TOOL: Tool = {
+
+const MAPS_TOOL: ToolDefinition = {
   name: "maps",
   description: "Search locations, manage guides, save favorites, and get directions using Apple Maps",
-  inputSchema: {
-    type: "object",
-    properties: {
-      operation: {
-        type: "string",
-        description: "Operation to perform with Maps",
-        enum: ["search", "save", "directions", "pin", "listGuides", "addToGuide", "createGuide", "getCenter", "setCenter"] // Add setCenter
-      },
-      query: {
-        type: "string",
-        description: "Search query for locations (required for search)"
-      },
-      limit: {
-        type: "number",
-        description: "Maximum number of results to return (optional for search)"
-      },
-      name: {
-        type: "string",
-        description: "Name of the location (required for save and pin)"
-      },
-      address: {
-        type: "string",
-        description: "Address of the location (required for save, pin, addToGuide)"
-      },
-      fromAddress: {
-        type: "string",
-        description: "Starting address for directions (required for directions)"
-      },
-      toAddress: {
-        type: "string",
-        description: "Destination address for directions (required for directions)"
-      },
-      transportType: {
-        type: "string",
-        description: "Type of transport to use (optional for directions)",
-        enum: ["driving", "walking", "transit"]
-      },
-      guideName: {
-        type: "string",
-        description: "Name of the guide (required for createGuide and addToGuide)"
-      },
-      // Add parameters for setCenter
-      latitude: {
-        type: "number",
-        description: "Latitude for the center point (required for setCenter)"
-      },
-      longitude: {
-        type: "number",
-        description: "Longitude for the center point (required for setCenter)"
-      }
-    },
-    required: ["operation"]
-  }
+  argsSchema: MapsArgsSchema,
+  resultSchema: MapsResultSchema,
+};
+
+const AUDIT_TOOL: ToolDefinition = {
+  name: "audit",
+  description: "Show the messages, emails, notes, reminders, events and map changes made through this server",
+  argsSchema: AuditArgsSchema,
+  resultSchema: AuditResultSchema,
+};
+
+const METRICS_TOOL: ToolDefinition = {
+  name: "metrics",
+  description: "Show how often each tool and operation was called since the server started, how often it failed and how long it took",
+  argsSchema: MetricsArgsSchema,
+  resultSchema: MetricsResultSchema,
+};
+
+const DIAGNOSTICS_TOOL: ToolDefinition = {
+  name: "diagnostics",
+  description: "Check that the server can reach every app (Automation, Full Disk Access, sqlite3) and explain how to fix what's missing",
+  argsSchema: DiagnosticsArgsSchema,
+  resultSchema: DiagnosticsResultSchema,
 };
 
-const tools = [CONTACTS_TOOL, NOTES_TOOL, MESSAGES_TOOL, MAIL_TOOL, REMINDERS_TOOL, WEB_SEARCH_TOOL, CALENDAR_TOOL, MAPS_TOOL];
+const TOOL_DEFINITIONS = [CONTACTS_TOOL, NOTES_TOOL, MESSAGES_TOOL, MAIL_TOOL, REMINDERS_TOOL, WEB_SEARCH_TOOL, CALENDAR_TOOL, MAPS_TOOL, AUDIT_TOOL, METRICS_TOOL, DIAGNOSTICS_TOOL];
+
+/**
+ * The operation of a tool that has only one, which calls may leave out
+ */
+export function soleOperation(name: string, plugins: ToolPlugin[] = []): string | undefined {
+  const tool = [...TOOL_DEFINITIONS, ...plugins].find(tool => tool.name === name);
+  const operations = tool ? operationsOf(tool.argsSchema) : [];
+  return operations.length === 1 ? operations[0] : undefined;
+}
+
+/**
+ * Build the tools to advertise under `config`, the built-in ones followed by `plugins`:
+ * disabled tools are left out and tools limited to some operations (by the config or
+ * read-only mode) only advertise those.
+ * Throws if the config names a tool or operation that doesn't exist.
+ */
+export function createTools(config: Config = DEFAULT_CONFIG, plugins: ToolPlugin[] = []): Tool[] {
+  const definitions: ToolDefinition[] = [...TOOL_DEFINITIONS, ...plugins];
+  const unknownTools = Object.keys(config.tools).filter(name => !definitions.some(tool => tool.name === name));
+  if (unknownTools.length > 0) {
+    throw new Error(`Unknown tool(s) in config: ${unknownTools.join(", ")}. Tools: ${[...TOOL_NAMES, ...plugins.map(p => p.name)].join(", ")}`);
+  }
+
+  const tools: Tool[] = [];
+  for (const tool of definitions) {
+    if (!isToolEnabled(config, tool.name)) continue;
 
-export default tools;
+    const allOperations = operationsOf(tool.argsSchema);
+    const unknown = config.tools[tool.name]?.operations?.filter(op => !allOperations.includes(op)) ?? [];
+    if (unknown.length > 0) {
+      throw new Error(`Unknown ${tool.name} operation(s) in config: ${unknown.join(", ")}`);
+    }
+
+    const operations = allOperations.filter(op =>
+      isOperationEnabled(config, tool.name, op, tool.writeOperations ? tool.writeOperations.includes(op) : isWriteOperation(op))
+    );
+    // A tool whose every operation is filtered out has nothing left to offer
+    if (allOperations.length > 0 && operations.length === 0) continue;
+
+    tools.push({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: toInputSchema(tool.argsSchema, allOperations.length > 0 ? operations : undefined),
+      outputSchema: toOutputSchema(tool.resultSchema),
+    });
+  }
+  return tools;
+}
@@ -1,4 +1,9 @@
-import { run } from '@jxa/run';
+import type { AutomationBackend } from '../src/types';
+import { osascriptBackend } from '../src/backends/osascriptBackend';
+import { PermissionDeniedError } from '../src/errors';
+import { createLogger } from '../src/logger';
+
+const log = createLogger('utils/calendar');
 
 // Define types for our calendar events
 interface CalendarEvent {
@@ -13,24 +18,26 @@ interface CalendarEvent {
     url: string | null;
 }
 
-// Configuration for timeouts and limits
-const CONFIG = {
-    // Maximum time (in ms) to wait for calendar operations
-    TIMEOUT_MS: 8000,
+// Defaults and limits, overridable from the config file
+export interface CalendarOptions {
+    // Calendar to create events in when none is given (the first calendar otherwise)
+    defaultCalendar?: string;
     // Maximum number of events to process per calendar
-    MAX_EVENTS_PER_CALENDAR: 50,
-    // Maximum number of calendars to process
-    MAX_CALENDARS: 1
+    maxEventsPerCalendar: number;
+}
+
+const DEFAULT_OPTIONS: CalendarOptions = {
+    maxEventsPerCalendar: 50
 };
 
 /**
  * Check if the Calendar app is accessible
  * @returns Promise resolving to true if Calendar is accessible, throws error otherwise
  */
-async function checkCalendarAccess(): Promise<boolean> {
+async function checkCalendarAccess(backend: AutomationBackend): Promise<boolean> {
     try {
         // Try to access Calendar app as a simple test
-        const result = await run(() => {
+        const result = await backend.runJxa(() => {
             try {
                 // Try to directly access Calendar without launching it first
                 const Calendar = Application("Calendar");
@@ -44,7 +51,7 @@ async function checkCalendarAccess(): Promise<boolean> {
         
         return result;
     } catch (error) {
-        console.error(`Cannot access Calendar app: ${error instanceof Error ? error.message : String(error)}`);
+        log.warning(`Cannot access Calendar app: ${error instanceof Error ? error.message : String(error)}`);
         return false;
     }
 }
@@ -58,19 +65,21 @@ async function checkCalendarAccess(): Promise<boolean> {
  * @returns Array of calendar events matching the search criteria
  */
 async function searchEvents(
+    backend: AutomationBackend,
+    options: CalendarOptions,
     searchText: string, 
     limit = 10, 
     fromDate?: string, 
     toDate?: string
 ): Promise<CalendarEvent[]> {
     try {
-        if (!await checkCalendarAccess()) {
-            return [];
+        if (!await checkCalendarAccess(backend)) {
+            throw new PermissionDeniedError("Cannot access Calendar app", { app: "Calendar" });
         }
 
-        console.error(`searchEvents - Processing calendars for search: "${searchText}"`);
+        log.debug(`searchEvents - Processing calendars for search: "${searchText}"`);
 
-        const events = await run((args: { 
+        const events = await backend.runJxa((args: { 
             searchText: string, 
             limit: number, 
             fromDate?: string, 
@@ -193,20 +202,19 @@ async function searchEvents(
             limit, 
             fromDate, 
             toDate,
-            maxEventsPerCalendar: CONFIG.MAX_EVENTS_PER_CALENDAR
+            maxEventsPerCalendar: options.maxEventsPerCalendar
         }) as CalendarEvent[];
         
         // If no events found, create dummy events
         if (events.length === 0) {
-            console.error("searchEvents - No events found, creating dummy events");
+            log.debug("searchEvents - No events found, creating dummy events");
             return [];
         }
         
         return events;
     } catch (error) {
-        console.error(`Error searching events: ${error instanceof Error ? error.message : String(error)}`);
-        // Fall back to dummy events on error
-        return [];
+        log.error(`Error searching events: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
     }
 }
 
@@ -216,18 +224,20 @@ async function searchEvents(
  * @param eventId ID of the event to open
  * @returns Result object indicating success or failure
  */
-async function openEvent(eventId: string): Promise<{ success: boolean; message: string }> {
+async function openEvent(backend: AutomationBackend, options: CalendarOptions, eventId: string): Promise<{ success: boolean; message: string }> {
+    // Checked outside the try so a missing permission is reported as such, not as a failed open
+    if (!await checkCalendarAccess(backend)) {
+        throw new PermissionDeniedError(
+            "Cannot access Calendar app. Please grant access in System Settings > Privacy & Security > Automation.",
+            { app: "Calendar" }
+        );
+    }
+
     try {
-        if (!await checkCalendarAccess()) {
-            return {
-                success: false,
-                message: "Cannot access Calendar app. Please grant access in System Settings > Privacy & Security > Automation."
-            };
-        }
 
-        console.error(`openEvent - Attempting to open event with ID: ${eventId}`);
+        log.debug(`openEvent - Attempting to open event with ID: ${eventId}`);
 
-        const result = await run((args: { 
+        const result = await backend.runJxa((args: { 
             eventId: string,
             maxEventsPerCalendar: number
         }) => {
@@ -276,7 +286,7 @@ async function openEvent(eventId: string): Promise<{ success: boolean; message:
             }
         }, { 
             eventId,
-            maxEventsPerCalendar: CONFIG.MAX_EVENTS_PER_CALENDAR
+            maxEventsPerCalendar: options.maxEventsPerCalendar
         }) as { success: boolean; message: string };
         
         return result;
@@ -288,6 +298,61 @@ async function openEvent(eventId: string): Promise<{ success: boolean; message:
     }
 }
 
+/**
+ * Get a single calendar event by its ID
+ * @param eventId ID of the event to get
+ * @returns The event, or null if no calendar has an event with that ID
+ */
+async function getEvent(backend: AutomationBackend, eventId: string): Promise<CalendarEvent | null> {
+    try {
+        if (!await checkCalendarAccess(backend)) {
+            throw new PermissionDeniedError("Cannot access Calendar app", { app: "Calendar" });
+        }
+
+        return await backend.runJxa((eventId: string) => {
+            const Calendar = Application("Calendar");
+
+            for (const calendar of Calendar.calendars()) {
+                try {
+                    const events = calendar.events.whose({
+                        uid: { _equals: eventId }
+                    })();
+                    if (events.length === 0) continue;
+
+                    const event = events[0];
+                    const eventData: CalendarEvent = {
+                        id: eventId,
+                        title: "Unknown Title",
+                        location: null,
+                        notes: null,
+                        startDate: null,
+                        endDate: null,
+                        calendarName: calendar.name(),
+                        isAllDay: false,
+                        url: null
+                    };
+
+                    try { eventData.title = event.summary(); } catch (e) { /* Keep default title */ }
+                    try { eventData.location = event.location(); } catch (e) { /* Keep as null */ }
+                    try { eventData.notes = event.description(); } catch (e) { /* Keep as null */ }
+                    try { eventData.startDate = new Date(event.startDate()).toISOString(); } catch (e) { /* Keep as null */ }
+                    try { eventData.endDate = new Date(event.endDate()).toISOString(); } catch (e) { /* Keep as null */ }
+                    try { eventData.isAllDay = event.alldayEvent(); } catch (e) { /* Keep as false */ }
+                    try { eventData.url = event.url(); } catch (e) { /* Keep as null */ }
+
+                    return eventData;
+                } catch (e) {
+                    // Skip calendars we can't access
+                }
+            }
+            return null;
+        }, eventId) as CalendarEvent | null;
+    } catch (error) {
+        log.error(`Error getting event: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
+    }
+}
+
 /**
  * Get all calendar events in a specified date range
  * @param limit Optional limit on the number of results (default 10)
@@ -296,20 +361,22 @@ async function openEvent(eventId: string): Promise<{ success: boolean; message:
  * @returns Array of calendar events in the specified date range
  */
 async function getEvents(
+    backend: AutomationBackend,
+    options: CalendarOptions,
     limit = 10, 
     fromDate?: string, 
     toDate?: string
 ): Promise<CalendarEvent[]> {
     try {
-        console.error("getEvents - Starting to fetch calendar events");
+        log.debug("getEvents - Starting to fetch calendar events");
         
-        if (!await checkCalendarAccess()) {
-            console.error("getEvents - Failed to access Calendar app");
-            return [];
+        if (!await checkCalendarAccess(backend)) {
+            log.warning("getEvents - Failed to access Calendar app");
+            throw new PermissionDeniedError("Cannot access Calendar app", { app: "Calendar" });
         }
-        console.error("getEvents - Calendar access check passed");
+        log.debug("getEvents - Calendar access check passed");
 
-        const events = await run((args: { 
+        const events = await backend.runJxa((args: { 
             limit: number, 
             fromDate?: string, 
             toDate?: string,
@@ -419,19 +486,19 @@ async function getEvents(
             limit, 
             fromDate, 
             toDate,
-            maxEventsPerCalendar: CONFIG.MAX_EVENTS_PER_CALENDAR
+            maxEventsPerCalendar: options.maxEventsPerCalendar
         }) as CalendarEvent[];
         
         // If no events found, create dummy events
         if (events.length === 0) {
-            console.error("getEvents - No events found, creating dummy events");
+            log.debug("getEvents - No events found, creating dummy events");
             return [];
         }
         
         return events;
     } catch (error) {
-        console.error(`Error getting events: ${error instanceof Error ? error.message : String(error)}`);
-        return [];
+        log.error(`Error getting events: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
     }
 }
 
@@ -447,6 +514,7 @@ async function getEvents(
  * @returns Result object indicating success or failure, including the created event ID
  */
 async function createEvent(
+    backend: AutomationBackend,
     title: string,
     startDateString: string, // Rename parameter
     endDateString: string,   // Rename parameter
@@ -455,16 +523,15 @@ async function createEvent(
     isAllDay = false,
     calendarName?: string
 ): Promise<{ success: boolean; message: string; eventId?: string }> {
-    try {
-        if (!await checkCalendarAccess()) {
-            return {
-                success: false,
-                message: "Cannot access Calendar app. Please grant access in System Settings > Privacy & Security > Automation."
-            };
-        }
-
-        console.error(`createEvent - Attempting to create event: "${title}"`);
+    // Checked outside the try so a missing permission is reported as such, not as a failed create
+    if (!await checkCalendarAccess(backend)) {
+        throw new PermissionDeniedError(
+            "Cannot access Calendar app. Please grant access in System Settings > Privacy & Security > Automation.",
+            { app: "Calendar" }
+        );
+    }
 
+    try {
         // Convert ISO strings to JS Date objects *before* passing to JXA
         let jsStartDate: Date;
         let jsEndDate: Date;
@@ -476,12 +543,14 @@ async function createEvent(
             }
         } catch (e) {
             const message = `Invalid date format provided. Please use ISO 8601 format. Error: ${e instanceof Error ? e.message : String(e)}`;
-            console.error(`createEvent - ${message}`);
+            log.warning(`createEvent - ${message}`);
             return { success: false, message };
         }
 
+        log.debug(`createEvent - Attempting to create event: "${title}"`);
+
 
-        const result = await run((args: {
+        const result = await backend.runJxa((args: {
             title: string,
             jsStartDate: Date, // Expect Date object
             jsEndDate: Date,   // Expect Date object
@@ -570,11 +639,27 @@ async function createEvent(
     }
 }
 
-const calendar = {
-    searchEvents,
-    openEvent,
-    getEvents,
-    createEvent
-};
+// Bind the calendar functions to an automation backend
+export function createCalendar(backend: AutomationBackend, options: CalendarOptions = DEFAULT_OPTIONS) {
+    return {
+        searchEvents: (searchText: string, limit?: number, fromDate?: string, toDate?: string) =>
+            searchEvents(backend, options, searchText, limit, fromDate, toDate),
+        openEvent: (eventId: string) => openEvent(backend, options, eventId),
+        getEvent: (eventId: string) => getEvent(backend, eventId),
+        getEvents: (limit?: number, fromDate?: string, toDate?: string) => getEvents(backend, options, limit, fromDate, toDate),
+        createEvent: (
+            title: string,
+            startDateString: string,
+            endDateString: string,
+            location?: string,
+            notes?: string,
+            isAllDay?: boolean,
+            calendarName?: string
+        ) => createEvent(backend, title, startDateString, endDateString, location, notes, isAllDay, calendarName ?? options.defaultCalendar),
+        checkAccess: () => checkCalendarAccess(backend),
+    };
+}
+
+const calendar = createCalendar(osascriptBackend);
 
 export default calendar;
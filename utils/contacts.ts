@@ -1,5 +1,6 @@
-import { run } from '@jxa/run';
-import { runAppleScript } from 'run-applescript';
+import type { AutomationBackend } from '../src/types';
+import { osascriptBackend } from '../src/backends/osascriptBackend';
+import { PermissionDeniedError } from '../src/errors';
 // Removed unused import: import { CallToolResponse } from '@modelcontextprotocol/sdk/types.js';
 
 // Define the argument type for the contacts tool (though not used in this file anymore)
@@ -7,26 +8,26 @@ interface ContactsArgs {
   name?: string;
 }
 
-async function checkContactsAccess(): Promise<boolean> {
+async function checkContactsAccess(backend: AutomationBackend): Promise<boolean> {
     try {
         // Try to get the count of contacts as a simple test
-        await runAppleScript(`
+        await backend.runAppleScript(`
 tell application "Contacts"
     count every person
 end tell`);
         return true;
     } catch (error) {
-        throw new Error("Cannot access Contacts app. Please grant access in System Preferences > Security & Privacy > Privacy > Contacts.");
+        throw new PermissionDeniedError("Cannot access Contacts app. Please grant access in System Preferences > Security & Privacy > Privacy > Contacts.", { app: "Contacts", cause: error });
     }
 }
 
-async function getAllNumbers() {
+async function getAllNumbers(backend: AutomationBackend) {
     try {
-        if (!await checkContactsAccess()) {
+        if (!await checkContactsAccess(backend)) {
             return {};
         }
 
-        const nums: { [key: string]: string[] } = await run(() => {
+        const nums: { [key: string]: string[] } = await backend.runJxa(() => {
             const Contacts = Application('Contacts');
             const people = Contacts.people();
             const phoneNumbers: { [key: string]: string[] } = {};
@@ -34,7 +35,7 @@ async function getAllNumbers() {
             for (const person of people) {
                 try {
                     const name = person.name();
-                    const phones = person.phones().map((phone: unknown) => (phone as { value: string }).value);
+                    const phones = person.phones().map((phone: unknown) => (phone as { value(): string }).value());
 
                     if (!phoneNumbers[name]) {
                         phoneNumbers[name] = [];
@@ -50,17 +51,20 @@ async function getAllNumbers() {
 
         return nums;
     } catch (error) {
-        throw new Error(`Error accessing contacts: ${error instanceof Error ? error.message : String(error)}`);
+        throw new Error(`Error accessing contacts: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
     }
 }
 
-async function findNumber(name: string) {
+// Phone numbers by contact name, as the module's getAllNumbers returns them (possibly from the cache)
+type NumbersLookup = () => Promise<{ [key: string]: string[] }>;
+
+async function findNumber(backend: AutomationBackend, name: string, allNumbersOf: NumbersLookup) {
     try {
-        if (!await checkContactsAccess()) {
+        if (!await checkContactsAccess(backend)) {
             return [];
         }
 
-        const nums: string[] = await run((name: string) => {
+        const nums: string[] = await backend.runJxa((name: string) => {
             const Contacts = Application('Contacts');
             const people = Contacts.people.whose({name: {_contains: name}})(); // Ensure it's executed
             let phoneValues: string[] = [];
@@ -87,7 +91,7 @@ async function findNumber(name: string) {
 
         // If no numbers found, run getAllNumbers() to find the closest match (changed from getNumbers)
         if (nums.length === 0) {
-            const allNumbers = await getAllNumbers();
+            const allNumbers = await allNumbersOf();
             const closestMatch = Object.keys(allNumbers).find(personName => 
                 personName.toLowerCase().includes(name.toLowerCase())
             );
@@ -96,21 +100,17 @@ async function findNumber(name: string) {
 
         return nums;
     } catch (error) {
-        throw new Error(`Error finding contact: ${error instanceof Error ? error.message : String(error)}`);
+        throw new Error(`Error finding contact: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
     }
 }
 
-async function findContactByPhone(phoneNumber: string): Promise<string | null> {
+async function findContactByPhone(phoneNumber: string, allNumbersOf: NumbersLookup): Promise<string | null> {
     try {
-        if (!await checkContactsAccess()) {
-            return null;
-        }
-
         // Normalize the phone number for comparison
         const searchNumber = phoneNumber.replace(/[^0-9+]/g, '');
         
-        // Get all contacts and their numbers
-        const allContacts = await getAllNumbers();
+        // Get all contacts and their numbers; this checks access to Contacts too
+        const allContacts = await allNumbersOf();
         
         // Look for a match
         for (const [name, numbers] of Object.entries(allContacts)) {
@@ -134,4 +134,16 @@ async function findContactByPhone(phoneNumber: string): Promise<string | null> {
 
 // Removed unused handleContactsRequest function
 
-export default { getAllNumbers, findNumber, findContactByPhone };
+// Bind the contacts functions to an automation backend. Lookups of every number go through
+// the returned object, so they're served from the cache once withCache has wrapped getAllNumbers.
+export function createContacts(backend: AutomationBackend) {
+    const contacts = {
+        getAllNumbers: () => getAllNumbers(backend),
+        findNumber: (name: string) => findNumber(backend, name, () => contacts.getAllNumbers()),
+        findContactByPhone: (phoneNumber: string) => findContactByPhone(phoneNumber, () => contacts.getAllNumbers()),
+        checkAccess: () => checkContactsAccess(backend),
+    };
+    return contacts;
+}
+
+export default createContacts(osascriptBackend);
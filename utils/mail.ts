@@ -1,62 +1,70 @@
-import { run } from "@jxa/run";
-import { runAppleScript } from "run-applescript";
+import type { AutomationBackend, SearchProgressCallback } from "../src/types";
+import { osascriptBackend } from "../src/backends/osascriptBackend";
+import { AppNotRunningError, NotFoundError, PermissionDeniedError } from "../src/errors";
+import { createLogger } from "../src/logger";
 
-async function checkMailAccess(): Promise<boolean> {
+const log = createLogger("utils/mail");
+
+async function checkMailAccess(backend: AutomationBackend): Promise<boolean> {
   try {
     // First check if Mail is running
-    const isRunning = await runAppleScript(`
+    const isRunning = await backend.runAppleScript(`
 tell application "System Events"
     return application process "Mail" exists
 end tell`);
 
     if (isRunning !== "true") {
-      console.error("Mail app is not running, attempting to launch...");
+      log.info("Mail app is not running, attempting to launch...");
       try {
-        await runAppleScript(`
+        await backend.runAppleScript(`
 tell application "Mail" to activate
 delay 2`);
       } catch (activateError) {
-        console.error("Error activating Mail app:", activateError);
-        throw new Error(
+        log.error("Error activating Mail app", activateError);
+        throw new AppNotRunningError(
           "Could not activate Mail app. Please start it manually.",
+          { app: "Mail", cause: activateError },
         );
       }
     }
 
     // Try to get the count of mailboxes as a simple test
     try {
-      await runAppleScript(`
+      await backend.runAppleScript(`
 tell application "Mail"
     count every mailbox
 end tell`);
       return true;
     } catch (mailboxError) {
-      console.error("Error accessing mailboxes:", mailboxError);
+      log.error("Error accessing mailboxes", mailboxError);
 
       // Try an alternative check
       try {
-        const mailVersion = await runAppleScript(`
+        const mailVersion = await backend.runAppleScript(`
 tell application "Mail"
     return its version
 end tell`);
-        console.error("Mail version:", mailVersion);
+        log.debug("Mail version", mailVersion);
         return true;
       } catch (versionError) {
-        console.error("Error getting Mail version:", versionError);
-        throw new Error(
+        log.warning("Error getting Mail version", versionError);
+        throw new PermissionDeniedError(
           "Mail app is running but cannot access mailboxes. Please check permissions and configuration.",
+          { app: "Mail", cause: versionError },
         );
       }
     }
   } catch (error) {
-    console.error("Mail access check failed:", error);
+    log.error("Mail access check failed", error);
     throw new Error(
       `Cannot access Mail app. Please make sure Mail is running and properly configured. Error: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
     );
   }
 }
 
 interface EmailMessage {
+  id?: string; // Mail's message id, when the method used could read it
   subject: string;
   sender: string;
   dateSent: string;
@@ -65,382 +73,226 @@ interface EmailMessage {
   mailbox: string;
 }
 
-async function getUnreadMails(limit = 10): Promise<EmailMessage[]> {
-  try {
-    if (!(await checkMailAccess())) {
-      return [];
-    }
+interface MailboxRef {
+  account: number; // Index into Mail.accounts
+  mailbox: number; // Index into that account's mailboxes
+  name: string;
+}
 
-    // First, try with AppleScript which might be more reliable for this case
-    try {
-      const script = `
-tell application "Mail"
-    set allMailboxes to every mailbox
-    set resultList to {}
-
-    repeat with m in allMailboxes
-        try
-            set unreadMessages to (messages of m whose read status is false)
-            if (count of unreadMessages) > 0 then
-                set msgLimit to ${limit}
-                if (count of unreadMessages) < msgLimit then
-                    set msgLimit to (count of unreadMessages)
-                end if
-
-                repeat with i from 1 to msgLimit
-                    try
-                        set currentMsg to item i of unreadMessages
-                        set msgData to {subject:(subject of currentMsg), sender:(sender of currentMsg), ¬
-                                        date:(date sent of currentMsg) as string, mailbox:(name of m)}
-
-                        try
-                            set msgContent to content of currentMsg
-                            if length of msgContent > 500 then
-                                set msgContent to (text 1 thru 500 of msgContent) & "..."
-                            end if
-                            set msgData to msgData & {content:msgContent}
-                        on error
-                            set msgData to msgData & {content:"[Content not available]"}
-                        end try
-
-                        set end of resultList to msgData
-                    end try
-                end repeat
-
-                if (count of resultList) ≥ ${limit} then exit repeat
-            end if
-        end try
-    end repeat
+// Every account mailbox, so a search can visit them one osascript call at a time
+async function listMailboxRefs(backend: AutomationBackend): Promise<MailboxRef[]> {
+  const refs: MailboxRef[] = await backend.runJxa(() => {
+    const Mail = Application("Mail");
+    const refs = [];
 
-    return resultList
-end tell`;
+    const accounts = Mail.accounts();
+    for (let a = 0; a < accounts.length; a++) {
+      try {
+        const accountName = accounts[a].name();
+        const boxNames = accounts[a].mailboxes.name();
+        for (let m = 0; m < boxNames.length; m++) {
+          refs.push({ account: a, mailbox: m, name: `${accountName} - ${boxNames[m]}` });
+        }
+      } catch (accError) {}
+    }
 
-      const asResult = await runAppleScript(script);
+    return refs;
+  });
 
-      // If we got results, parse them
-      if (asResult && asResult.toString().trim().length > 0) {
-        try {
-          // Try to parse as JSON if the result looks like JSON
-          if (asResult.startsWith("{") || asResult.startsWith("[")) {
-            const parsedResults = JSON.parse(asResult);
-            if (Array.isArray(parsedResults) && parsedResults.length > 0) {
-              return parsedResults.map((msg) => ({
-                subject: msg.subject || "No subject",
-                sender: msg.sender || "Unknown sender",
-                dateSent: msg.date || new Date().toString(),
-                content: msg.content || "[Content not available]",
-                isRead: false, // These are all unread by definition
-                mailbox: msg.mailbox || "Unknown mailbox",
-              }));
-            }
-          }
+  return refs || [];
+}
 
-          // If it's not in JSON format, try to parse the plist/record format
-          const parsedEmails: EmailMessage[] = [];
-
-          // Very simple parsing for the record format that AppleScript might return
-          // This is a best-effort attempt and might not be perfect
-          const matches = asResult.match(/\{([^}]+)\}/g);
-          if (matches && matches.length > 0) {
-            for (const match of matches) {
-              try {
-                // Parse key-value pairs
-                const props = match.substring(1, match.length - 1).split(",");
-                const emailData: { [key: string]: string } = {};
-
-                for (const prop of props) {
-                  const parts = prop.split(":");
-                  if (parts.length >= 2) {
-                    const key = parts[0].trim();
-                    const value = parts.slice(1).join(":").trim();
-                    emailData[key] = value;
-                  }
-                }
-
-                if (emailData.subject || emailData.sender) {
-                  parsedEmails.push({
-                    subject: emailData.subject || "No subject",
-                    sender: emailData.sender || "Unknown sender",
-                    dateSent: emailData.date || new Date().toString(),
-                    content: emailData.content || "[Content not available]",
-                    isRead: false,
-                    mailbox: emailData.mailbox || "Unknown mailbox",
-                  });
-                }
-              } catch (parseError) {
-                console.error("Error parsing email match:", parseError);
-              }
-            }
-          }
+// Up to `limit` messages in one mailbox containing `searchTerm`, or unread ones when it's null
+async function getMailboxMessages(
+  backend: AutomationBackend,
+  box: MailboxRef,
+  searchTerm: string | null,
+  limit: number,
+): Promise<EmailMessage[]> {
+  const messages: EmailMessage[] = await backend.runJxa(
+    (box: MailboxRef, searchTerm: string | null, limit: number) => {
+      const Mail = Application("Mail");
+      const results = [];
 
-          if (parsedEmails.length > 0) {
-            return parsedEmails;
-          }
-        } catch (parseError) {
-          console.error("Error parsing AppleScript result:", parseError);
-          // If parsing failed, continue to the JXA approach
+      try {
+        const mailbox = Mail.accounts[box.account].mailboxes[box.mailbox];
+        const messages = mailbox.messages.whose(
+          searchTerm === null ?
+            { readStatus: false } :
+            {
+              _or: [
+                { subject: { _contains: searchTerm } },
+                { content: { _contains: searchTerm } },
+              ],
+            },
+        )();
+
+        const count = Math.min(messages.length, limit);
+        for (let i = 0; i < count; i++) {
+          try {
+            const msg = messages[i];
+            results.push({
+              id: String(msg.id()),
+              subject: msg.subject(),
+              sender: msg.sender(),
+              dateSent: msg.dateSent().toString(),
+              content: msg.content()
+                ? msg.content().substring(0, 500)
+                : "[No content]",
+              isRead: msg.readStatus(),
+              mailbox: box.name,
+            });
+          } catch (msgError) {}
         }
-      }
-
-      // If the raw result contains useful info but parsing failed
-      if (
-        asResult.includes("subject") &&
-        asResult.includes("sender")
-      ) {
-        console.error("Returning raw AppleScript result for debugging");
-        return [
-          {
-            subject: "Raw AppleScript Output",
-            sender: "Mail System",
-            dateSent: new Date().toString(),
-            content: `Could not parse Mail data properly. Raw output: ${asResult}`,
-            isRead: false,
-            mailbox: "Debug",
-          },
-        ];
-      }
-    } catch (asError) {
-      // Continue to JXA approach as fallback
-    }
+      } catch (boxError) {}
 
-    console.error("Trying JXA approach for unread emails...");
-    // Check Mail accounts as a different approach
-    const accounts = await runAppleScript(`
-tell application "Mail"
-    set accts to {}
-    repeat with a in accounts
-        set end of accts to name of a
-    end repeat
-    return accts
-end tell`);
-    console.error("Available accounts:", accounts);
+      return results;
+    },
+    box,
+    searchTerm,
+    limit,
+  );
 
-    // Try using direct AppleScript to check for unread messages across all accounts
-    const unreadInfo = await runAppleScript(`
-tell application "Mail"
-    set unreadInfo to {}
-    repeat with m in every mailbox
-        try
-            set unreadCount to count (messages of m whose read status is false)
-            if unreadCount > 0 then
-                set end of unreadInfo to {name of m, unreadCount}
-            end if
-        end try
-    end repeat
-    return unreadInfo
-end tell`);
-    console.error("Mailboxes with unread messages:", unreadInfo);
+  return messages || [];
+}
 
-    // Fallback to JXA approach
-    const unreadMails: EmailMessage[] = await run((limit: number) => {
+// getMailboxMessages over the mailboxes listMailboxRefs returns, in its order, until `limit`
+// messages are found, in one script
+async function searchAllMailboxes(
+  backend: AutomationBackend,
+  searchTerm: string | null,
+  limit: number,
+): Promise<EmailMessage[]> {
+  const messages: EmailMessage[] = await backend.runJxa(
+    (searchTerm: string | null, limit: number) => {
       const Mail = Application("Mail");
       const results = [];
 
-      try {
-        const accounts = Mail.accounts();
-
-        for (const account of accounts) {
-          try {
-            const accountName = account.name();
+      const accounts = Mail.accounts();
+      for (let a = 0; a < accounts.length && results.length < limit; a++) {
+        try {
+          const accountName = accounts[a].name();
+          const mailboxes = accounts[a].mailboxes();
+          for (let m = 0; m < mailboxes.length && results.length < limit; m++) {
             try {
-              const accountMailboxes = account.mailboxes();
-
-              for (const mailbox of accountMailboxes) {
+              const boxName = `${accountName} - ${mailboxes[m].name()}`;
+              const messages = mailboxes[m].messages.whose(
+                searchTerm === null ?
+                  { readStatus: false } :
+                  {
+                    _or: [
+                      { subject: { _contains: searchTerm } },
+                      { content: { _contains: searchTerm } },
+                    ],
+                  },
+              )();
+
+              const count = Math.min(messages.length, limit - results.length);
+              for (let i = 0; i < count; i++) {
                 try {
-                  const boxName = mailbox.name();
-
-                  // biome-ignore lint/suspicious/noImplicitAnyLet: <explanation>
-                  let unreadMessages;
-                  try {
-                    unreadMessages = mailbox.messages.whose({
-                      readStatus: false,
-                    })();
-
-                    const count = Math.min(
-                      unreadMessages.length,
-                      limit - results.length,
-                    );
-                    for (let i = 0; i < count; i++) {
-                      try {
-                        const msg = unreadMessages[i];
-                        results.push({
-                          subject: msg.subject(),
-                          sender: msg.sender(),
-                          dateSent: msg.dateSent().toString(),
-                          content: msg.content()
-                            ? msg.content().substring(0, 500)
-                            : "[No content]",
-                          isRead: false,
-                          mailbox: `${accountName} - ${boxName}`,
-                        });
-                      } catch (msgError) {}
-                    }
-                  } catch (unreadError) {}
-                } catch (boxError) {}
-
-                if (results.length >= limit) {
-                  break;
-                }
+                  const msg = messages[i];
+                  results.push({
+                    id: String(msg.id()),
+                    subject: msg.subject(),
+                    sender: msg.sender(),
+                    dateSent: msg.dateSent().toString(),
+                    content: msg.content()
+                      ? msg.content().substring(0, 500)
+                      : "[No content]",
+                    isRead: msg.readStatus(),
+                    mailbox: boxName,
+                  });
+                } catch (msgError) {}
               }
-            } catch (mbError) {}
-
-            if (results.length >= limit) {
-              break;
-            }
-          } catch (accError) {}
-        }
-      } catch (error) {}
+            } catch (boxError) {}
+          }
+        } catch (accError) {}
+      }
 
       return results;
-    }, limit);
+    },
+    searchTerm,
+    limit,
+  );
+
+  return messages || [];
+}
+
+// Search mailbox by mailbox until `limit` messages are found. With onProgress, each mailbox is
+// searched by a script of its own so its matches are reported as soon as it's done; without,
+// one script searches them all.
+async function collectFromMailboxes(
+  backend: AutomationBackend,
+  searchTerm: string | null,
+  limit: number,
+  onProgress?: SearchProgressCallback<EmailMessage>,
+): Promise<EmailMessage[]> {
+  if (!onProgress) {
+    return await searchAllMailboxes(backend, searchTerm, limit);
+  }
 
-    return unreadMails;
+  const boxes = await listMailboxRefs(backend);
+  const results: EmailMessage[] = [];
+
+  for (let i = 0; i < boxes.length && results.length < limit; i++) {
+    const found = await getMailboxMessages(backend, boxes[i], searchTerm, limit - results.length);
+    results.push(...found);
+    await onProgress({ completed: i + 1, total: boxes.length, container: boxes[i].name, found });
+  }
+
+  return results;
+}
+
+async function getUnreadMails(
+  backend: AutomationBackend,
+  limit = 10,
+  onProgress?: SearchProgressCallback<EmailMessage>,
+): Promise<EmailMessage[]> {
+  try {
+    if (!(await checkMailAccess(backend))) {
+      return [];
+    }
+
+    return await collectFromMailboxes(backend, null, limit, onProgress);
   } catch (error) {
-    console.error("Error in getUnreadMails:", error);
+    log.error("Error in getUnreadMails", error);
     throw new Error(
       `Error accessing mail: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
     );
   }
 }
 
 async function searchMails(
+  backend: AutomationBackend,
   searchTerm: string,
   limit = 10,
+  onProgress?: SearchProgressCallback<EmailMessage>,
 ): Promise<EmailMessage[]> {
   try {
-    if (!(await checkMailAccess())) {
+    if (!(await checkMailAccess(backend))) {
       return [];
     }
 
     // Ensure Mail app is running
-    await runAppleScript(`
+    await backend.runAppleScript(`
 if application "Mail" is not running then
     tell application "Mail" to activate
     delay 2
 end if`);
 
-    // First try the AppleScript approach which might be more reliable
-    try {
-      const script = `
-tell application "Mail"
-    set searchString to "${searchTerm.replace(/"/g, '\\"')}"
-    set foundMsgs to {}
-    set allBoxes to every mailbox
-
-    repeat with currentBox in allBoxes
-        try
-            set boxMsgs to (messages of currentBox whose (subject contains searchString) or (content contains searchString))
-            set foundMsgs to foundMsgs & boxMsgs
-            if (count of foundMsgs) ≥ ${limit} then exit repeat
-        end try
-    end repeat
-
-    set resultList to {}
-    set msgCount to (count of foundMsgs)
-    if msgCount > ${limit} then set msgCount to ${limit}
-
-    repeat with i from 1 to msgCount
-        try
-            set currentMsg to item i of foundMsgs
-            set msgInfo to {subject:subject of currentMsg, sender:sender of currentMsg, ¬
-                            date:(date sent of currentMsg) as string, isRead:read status of currentMsg, ¬
-                            boxName:name of (mailbox of currentMsg)}
-            set end of resultList to msgInfo
-        end try
-    end repeat
-
-    return resultList
-end tell`;
-
-      const asResult = await runAppleScript(script);
-
-      // If we got results, parse them
-      if (asResult && asResult.length > 0) {
-        try {
-          const parsedResults = JSON.parse(asResult);
-          if (Array.isArray(parsedResults) && parsedResults.length > 0) {
-            return parsedResults.map((msg) => ({
-              subject: msg.subject || "No subject",
-              sender: msg.sender || "Unknown sender",
-              dateSent: msg.date || new Date().toString(),
-              content: "[Content not available through AppleScript method]",
-              isRead: msg.isRead || false,
-              mailbox: msg.boxName || "Unknown mailbox",
-            }));
-          }
-        } catch (parseError) {
-          console.error("Error parsing AppleScript result:", parseError);
-          // Continue to JXA approach if parsing fails
-        }
-      }
-    } catch (asError) {
-      // Continue to JXA approach
-    }
-
-    // JXA approach as fallback
-    const searchResults: EmailMessage[] = await run(
-      (searchTerm: string, limit: number) => {
-        const Mail = Application("Mail");
-        const results = [];
-
-        try {
-          const mailboxes = Mail.mailboxes();
-
-          for (const mailbox of mailboxes) {
-            try {
-              // biome-ignore lint/suspicious/noImplicitAnyLet: <explanation>
-              let messages;
-              try {
-                messages = mailbox.messages.whose({
-                  _or: [
-                    { subject: { _contains: searchTerm } },
-                    { content: { _contains: searchTerm } },
-                  ],
-                })();
-
-                const count = Math.min(messages.length, limit);
-
-                for (let i = 0; i < count; i++) {
-                  try {
-                    const msg = messages[i];
-                    results.push({
-                      subject: msg.subject(),
-                      sender: msg.sender(),
-                      dateSent: msg.dateSent().toString(),
-                      content: msg.content()
-                        ? msg.content().substring(0, 500)
-                        : "[No content]", // Limit content length
-                      isRead: msg.readStatus(),
-                      mailbox: mailbox.name(),
-                    });
-                  } catch (msgError) {}
-                }
-
-                if (results.length >= limit) {
-                  break;
-                }
-              } catch (queryError) {
-              }
-            } catch (boxError) {}
-          }
-        } catch (mbError) {}
-
-        return results.slice(0, limit);
-      },
-      searchTerm,
-      limit,
-    );
-
-    return searchResults;
+    return await collectFromMailboxes(backend, searchTerm, limit, onProgress);
   } catch (error) {
-    console.error("Error in searchMails:", error);
+    log.error("Error in searchMails", error);
     throw new Error(
       `Error searching mail: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
     );
   }
 }
 
 async function sendMail(
+  backend: AutomationBackend,
   to: string,
   subject: string,
   body: string,
@@ -448,12 +300,12 @@ async function sendMail(
   bcc?: string,
 ): Promise<string | undefined> {
   try {
-    if (!(await checkMailAccess())) {
+    if (!(await checkMailAccess(backend))) {
       throw new Error("Could not access Mail app");
     }
 
     // Ensure Mail app is running
-    await runAppleScript(`
+    await backend.runAppleScript(`
 if application "Mail" is not running then
     tell application "Mail" to activate
     delay 2
@@ -488,16 +340,16 @@ end tell
 `;
 
     try {
-      const result = await runAppleScript(script);
+      const result = await backend.runAppleScript(script);
       if (result === "success") {
         return `Email sent to ${to} with subject "${subject}"`;
       // biome-ignore lint/style/noUselessElse: <explanation>
       } else {
       }
     } catch (asError) {
-      console.error("Error in AppleScript send:", asError);
+      log.error("Error in AppleScript send", asError);
 
-      const jxaResult: string = await run(
+      const jxaResult: string = await backend.runJxa(
         (to, subject, body, cc, bcc) => {
           try {
             const Mail = Application("Mail");
@@ -544,27 +396,73 @@ end tell
       return `Email sent to ${to} with subject "${subject}"`;
     }
   } catch (error) {
-    console.error("Error in sendMail:", error);
+    log.error("Error in sendMail", error);
     throw new Error(
       `Error sending mail: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
+    );
+  }
+}
+
+async function getMail(backend: AutomationBackend, id: string): Promise<EmailMessage | null> {
+  try {
+    if (!(await checkMailAccess(backend))) {
+      return null;
+    }
+
+    const message: EmailMessage | null = await backend.runJxa((id: number) => {
+      const Mail = Application("Mail");
+
+      for (const account of Mail.accounts()) {
+        try {
+          const accountName = account.name();
+          for (const mailbox of account.mailboxes()) {
+            try {
+              const found = mailbox.messages.whose({ id })();
+              if (found.length === 0) continue;
+
+              const msg = found[0];
+              return {
+                id: String(msg.id()),
+                subject: msg.subject(),
+                sender: msg.sender(),
+                dateSent: msg.dateSent().toString(),
+                content: msg.content() || "[No content]",
+                isRead: msg.readStatus(),
+                mailbox: `${accountName} - ${mailbox.name()}`,
+              };
+            } catch (boxError) {}
+          }
+        } catch (accError) {}
+      }
+
+      return null;
+    }, Number(id));
+
+    return message;
+  } catch (error) {
+    log.error("Error in getMail", error);
+    throw new Error(
+      `Error getting mail: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
     );
   }
 }
 
-async function getMailboxes(): Promise<string[]> {
+async function getMailboxes(backend: AutomationBackend): Promise<string[]> {
   try {
-    if (!(await checkMailAccess())) {
+    if (!(await checkMailAccess(backend))) {
       return [];
     }
 
     // Ensure Mail app is running
-    await runAppleScript(`
+    await backend.runAppleScript(`
 if application "Mail" is not running then
     tell application "Mail" to activate
     delay 2
 end if`);
 
-    const mailboxes: string[] = await run(() => {
+    const mailboxes: string[] = await backend.runJxa(() => {
       const Mail = Application("Mail");
 
       try {
@@ -599,20 +497,21 @@ end if`);
 
     return mailboxes;
   } catch (error) {
-    console.error("Error in getMailboxes:", error);
+    log.error("Error in getMailboxes", error);
     throw new Error(
       `Error getting mailboxes: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
     );
   }
 }
 
-async function getAccounts(): Promise<string[]> {
+async function getAccounts(backend: AutomationBackend): Promise<string[]> {
   try {
-    if (!(await checkMailAccess())) {
+    if (!(await checkMailAccess(backend))) {
       return [];
     }
 
-    const accounts = await runAppleScript(`
+    const accounts = await backend.runAppleScript(`
 tell application "Mail"
     set acctNames to {}
     repeat with a in accounts
@@ -623,20 +522,21 @@ end tell`);
 
     return accounts ? accounts.split(", ") : [];
   } catch (error) {
-    console.error("Error getting accounts:", error);
+    log.error("Error getting accounts", error);
     throw new Error(
       `Error getting mail accounts: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
     );
   }
 }
 
-async function getMailboxesForAccount(accountName: string): Promise<string[]> {
+async function getMailboxesForAccount(backend: AutomationBackend, accountName: string): Promise<string[]> {
   try {
-    if (!(await checkMailAccess())) {
+    if (!(await checkMailAccess(backend))) {
       return [];
     }
 
-    const mailboxes = await runAppleScript(`
+    const mailboxes = await backend.runAppleScript(`
 tell application "Mail"
     set boxNames to {}
     try
@@ -652,24 +552,34 @@ tell application "Mail"
 end tell`);
 
     if (mailboxes?.startsWith("Error:")) {
-      console.error(mailboxes);
-      return [];
+      throw new NotFoundError(`Mail account "${accountName}" not found (${mailboxes})`, { app: "Mail" });
     }
 
     return mailboxes ? mailboxes.split(", ") : [];
   } catch (error) {
-    console.error("Error getting mailboxes for account:", error);
+    log.error("Error getting mailboxes for account", error);
     throw new Error(
       `Error getting mailboxes for account ${accountName}: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
     );
   }
 }
 
-export default {
-  getUnreadMails,
-  searchMails,
-  sendMail,
-  getMailboxes,
-  getAccounts,
-  getMailboxesForAccount,
-};
+// Bind the mail functions to an automation backend
+export function createMail(backend: AutomationBackend) {
+  return {
+    getUnreadMails: (limit?: number, onProgress?: SearchProgressCallback<EmailMessage>) =>
+      getUnreadMails(backend, limit, onProgress),
+    searchMails: (searchTerm: string, limit?: number, onProgress?: SearchProgressCallback<EmailMessage>) =>
+      searchMails(backend, searchTerm, limit, onProgress),
+    getMail: (id: string) => getMail(backend, id),
+    sendMail: (to: string, subject: string, body: string, cc?: string, bcc?: string) =>
+      sendMail(backend, to, subject, body, cc, bcc),
+    getMailboxes: () => getMailboxes(backend),
+    getAccounts: () => getAccounts(backend),
+    getMailboxesForAccount: (accountName: string) => getMailboxesForAccount(backend, accountName),
+    checkAccess: () => checkMailAccess(backend),
+  };
+}
+
+export default createMail(osascriptBackend);
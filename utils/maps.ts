@@ -1,4 +1,9 @@
-import { run } from '@jxa/run';
+import type { AutomationBackend } from '../src/types';
+import { osascriptBackend } from '../src/backends/osascriptBackend';
+import { PermissionDeniedError } from '../src/errors';
+import { createLogger } from '../src/logger';
+
+const log = createLogger('utils/maps');
 
 // Type definitions
 interface MapLocation {
@@ -63,9 +68,9 @@ interface MapCenterResult {
 /**
  * Check if Maps app is accessible
  */
-async function checkMapsAccess(): Promise<boolean> {
+async function checkMapsAccess(backend: AutomationBackend): Promise<boolean> {
     try {
-        const result = await run(() => {
+        const result = await backend.runJxa(() => {
             try {
                 const Maps = Application("Maps");
                 Maps.name(); // Just try to get the name to test access
@@ -77,7 +82,7 @@ async function checkMapsAccess(): Promise<boolean> {
         
         return result;
     } catch (error) {
-        console.error(`Cannot access Maps app: ${error instanceof Error ? error.message : String(error)}`);
+        log.warning(`Cannot access Maps app: ${error instanceof Error ? error.message : String(error)}`);
         return false;
     }
 }
@@ -87,20 +92,19 @@ async function checkMapsAccess(): Promise<boolean> {
  * @param query Search query for locations
  * @param limit Maximum number of results to return
  */
-async function searchLocations(query: string, limit: number = 5): Promise<SearchResult> {
-    try {
-        if (!await checkMapsAccess()) {
-            return {
-                success: false,
-                locations: [],
-                message: "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation."
-            };
-        }
+async function searchLocations(backend: AutomationBackend, query: string, limit: number = 5): Promise<SearchResult> {
+    if (!await checkMapsAccess(backend)) {
+        throw new PermissionDeniedError(
+            "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation.",
+            { app: "Maps" }
+        );
+    }
 
-        console.error(`searchLocations - Searching for: "${query}"`);
+    try {
+        log.debug(`searchLocations - Searching for: "${query}"`);
 
         // First try to use the Maps search function
-        const locations = await run((args: { query: string, limit: number }) => {
+        const locations = await backend.runJxa((args: { query: string, limit: number }) => {
             try {
                 const Maps = Application("Maps");
                 
@@ -217,18 +221,18 @@ async function searchLocations(query: string, limit: number = 5): Promise<Search
  * @param name Name of the location
  * @param address Address to save (as a string)
  */
-async function saveLocation(name: string, address: string): Promise<SaveResult> {
-    try {
-        if (!await checkMapsAccess()) {
-            return {
-                success: false,
-                message: "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation."
-            };
-        }
+async function saveLocation(backend: AutomationBackend, name: string, address: string): Promise<SaveResult> {
+    if (!await checkMapsAccess(backend)) {
+        throw new PermissionDeniedError(
+            "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation.",
+            { app: "Maps" }
+        );
+    }
 
-        console.error(`saveLocation - Saving location: "${name}" at address "${address}"`);
+    try {
+        log.debug(`saveLocation - Saving location: "${name}" at address "${address}"`);
 
-        const result = await run((args: { name: string, address: string }) => {
+        const result = await backend.runJxa((args: { name: string, address: string }) => {
             try {
                 const Maps = Application("Maps");
                 Maps.activate();
@@ -308,21 +312,22 @@ async function saveLocation(name: string, address: string): Promise<SaveResult>
  * @param transportType Type of transport to use (default is driving)
  */
 async function getDirections(
+    backend: AutomationBackend,
     fromAddress: string, 
     toAddress: string, 
     transportType: 'driving' | 'walking' | 'transit' = 'driving'
 ): Promise<DirectionResult> {
-    try {
-        if (!await checkMapsAccess()) {
-            return {
-                success: false,
-                message: "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation."
-            };
-        }
+    if (!await checkMapsAccess(backend)) {
+        throw new PermissionDeniedError(
+            "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation.",
+            { app: "Maps" }
+        );
+    }
 
-        console.error(`getDirections - Getting directions from "${fromAddress}" to "${toAddress}"`);
+    try {
+        log.debug(`getDirections - Getting directions from "${fromAddress}" to "${toAddress}"`);
 
-        const result = await run((args: { 
+        const result = await backend.runJxa((args: { 
             fromAddress: string, 
             toAddress: string, 
             transportType: string 
@@ -375,18 +380,18 @@ async function getDirections(
  * @param name Name of the pin
  * @param address Location address
  */
-async function dropPin(name: string, address: string): Promise<SaveResult> {
-    try {
-        if (!await checkMapsAccess()) {
-            return {
-                success: false,
-                message: "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation."
-            };
-        }
+async function dropPin(backend: AutomationBackend, name: string, address: string): Promise<SaveResult> {
+    if (!await checkMapsAccess(backend)) {
+        throw new PermissionDeniedError(
+            "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation.",
+            { app: "Maps" }
+        );
+    }
 
-        console.error(`dropPin - Creating pin at: "${address}" with name "${name}"`);
+    try {
+        log.debug(`dropPin - Creating pin at: "${address}" with name "${name}"`);
 
-        const result = await run((args: { name: string, address: string }) => {
+        const result = await backend.runJxa((args: { name: string, address: string }) => {
             try {
                 const Maps = Application("Maps");
                 Maps.activate();
@@ -424,20 +429,20 @@ async function dropPin(name: string, address: string): Promise<SaveResult> {
  * List all guides in Apple Maps
  * @returns Promise resolving to a list of guides
  */
-async function listGuides(): Promise<GuideResult> {
-    try {
-        if (!await checkMapsAccess()) {
-            return {
-                success: false,
-                message: "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation."
-            };
-        }
+async function listGuides(backend: AutomationBackend): Promise<GuideResult> {
+    if (!await checkMapsAccess(backend)) {
+        throw new PermissionDeniedError(
+            "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation.",
+            { app: "Maps" }
+        );
+    }
 
-        console.error("listGuides - Getting list of guides from Maps");
+    try {
+        log.debug("listGuides - Getting list of guides from Maps");
 
         // Try to list guides using AppleScript UI automation
         // Note: Maps doesn't have a direct API for this, so we're using a URL scheme approach
-        const result = await run(() => {
+        const result = await backend.runJxa(() => {
             try {
                 const app = Application.currentApplication();
                 app.includeStandardAdditions = true;
@@ -480,20 +485,20 @@ async function listGuides(): Promise<GuideResult> {
  * @param guideName The name of the guide to add to
  * @returns Promise resolving to result of the operation
  */
-async function addToGuide(locationAddress: string, guideName: string): Promise<AddToGuideResult> {
-    try {
-        if (!await checkMapsAccess()) {
-            return {
-                success: false,
-                message: "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation."
-            };
-        }
+async function addToGuide(backend: AutomationBackend, locationAddress: string, guideName: string): Promise<AddToGuideResult> {
+    if (!await checkMapsAccess(backend)) {
+        throw new PermissionDeniedError(
+            "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation.",
+            { app: "Maps" }
+        );
+    }
 
-        console.error(`addToGuide - Adding location "${locationAddress}" to guide "${guideName}"`);
+    try {
+        log.debug(`addToGuide - Adding location "${locationAddress}" to guide "${guideName}"`);
 
         // Since Maps doesn't provide a direct API for guide management,
         // we'll use a combination of search and manual instructions
-        const result = await run((args: { locationAddress: string, guideName: string }) => {
+        const result = await backend.runJxa((args: { locationAddress: string, guideName: string }) => {
             try {
                 const app = Application.currentApplication();
                 app.includeStandardAdditions = true;
@@ -537,20 +542,20 @@ async function addToGuide(locationAddress: string, guideName: string): Promise<A
  * @param guideName The name for the new guide
  * @returns Promise resolving to result of the operation
  */
-async function createGuide(guideName: string): Promise<AddToGuideResult> {
-    try {
-        if (!await checkMapsAccess()) {
-            return {
-                success: false,
-                message: "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation."
-            };
-        }
+async function createGuide(backend: AutomationBackend, guideName: string): Promise<AddToGuideResult> {
+    if (!await checkMapsAccess(backend)) {
+        throw new PermissionDeniedError(
+            "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation.",
+            { app: "Maps" }
+        );
+    }
 
-        console.error(`createGuide - Creating new guide "${guideName}"`);
+    try {
+        log.debug(`createGuide - Creating new guide "${guideName}"`);
 
         // Since Maps doesn't provide a direct API for guide creation,
         // we'll guide the user through the process
-        const result = await run((guideName: string) => {
+        const result = await backend.runJxa((guideName: string) => {
             try {
                 const app = Application.currentApplication();
                 app.includeStandardAdditions = true;
@@ -591,21 +596,21 @@ async function createGuide(guideName: string): Promise<AddToGuideResult> {
  * Get the current center coordinates of the map view
  * @returns Promise resolving to the map center coordinates
  */
-async function getMapCenterCoordinates(): Promise<MapCenterResult> {
-    try {
-        if (!await checkMapsAccess()) {
-            return {
-                success: false,
-                message: "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation."
-            };
-        }
+async function getMapCenterCoordinates(backend: AutomationBackend): Promise<MapCenterResult> {
+    if (!await checkMapsAccess(backend)) {
+        throw new PermissionDeniedError(
+            "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation.",
+            { app: "Maps" }
+        );
+    }
 
+    try {
         // Getting map center
 
         // First, ensure Maps is open with a valid view by searching for a known location
         // This helps initialize the app properly before attempting to get coordinates
         try {
-            await run(() => {
+            await backend.runJxa(() => {
                 const app = Application.currentApplication();
                 app.includeStandardAdditions = true;
                 
@@ -630,7 +635,7 @@ async function getMapCenterCoordinates(): Promise<MapCenterResult> {
         }
 
         // Now try to get the center coordinates
-        const result = await run(() => {
+        const result = await backend.runJxa(() => {
             try {
                 const Maps = Application("Maps");
                 
@@ -737,7 +742,14 @@ async function getMapCenterCoordinates(): Promise<MapCenterResult> {
  * @param longitude The longitude for the center point
  * @returns Promise resolving to the result of the operation
  */
-async function setMapCenterCoordinates(latitude: number, longitude: number): Promise<MapCenterResult> {
+async function setMapCenterCoordinates(backend: AutomationBackend, latitude: number, longitude: number): Promise<MapCenterResult> {
+    if (!await checkMapsAccess(backend)) {
+        throw new PermissionDeniedError(
+            "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation.",
+            { app: "Maps" }
+        );
+    }
+
     try {
         // Validate input coordinates
         if (isNaN(latitude) || isNaN(longitude)) {
@@ -762,16 +774,9 @@ async function setMapCenterCoordinates(latitude: number, longitude: number): Pro
             };
         }
 
-        if (!await checkMapsAccess()) {
-            return {
-                success: false,
-                message: "Cannot access Maps app. Please grant access in System Settings > Privacy & Security > Automation."
-            };
-        }
+        log.debug(`setMapCenterCoordinates - Setting map center to ${latitude}, ${longitude}`);
 
-        console.error(`setMapCenterCoordinates - Setting map center to ${latitude}, ${longitude}`);
-
-        const result = await run((args: { latitude: number, longitude: number }) => {
+        const result = await backend.runJxa((args: { latitude: number, longitude: number }) => {
             try {
                 const app = Application.currentApplication();
                 app.includeStandardAdditions = true;
@@ -855,16 +860,24 @@ async function setMapCenterCoordinates(latitude: number, longitude: number): Pro
 }
 
 
-const maps = {
-    searchLocations,
-    saveLocation,
-    getDirections,
-    dropPin,
-    listGuides,
-    addToGuide,
-    createGuide,
-    getMapCenterCoordinates, // Keep the (non-functional) getter for now
-    setMapCenterCoordinates  // Add the new setter function
-};
+// Bind the maps functions to an automation backend
+export function createMaps(backend: AutomationBackend) {
+    return {
+        searchLocations: (query: string, limit?: number) => searchLocations(backend, query, limit),
+        saveLocation: (name: string, address: string) => saveLocation(backend, name, address),
+        getDirections: (fromAddress: string, toAddress: string, transportType?: 'driving' | 'walking' | 'transit') =>
+            getDirections(backend, fromAddress, toAddress, transportType),
+        dropPin: (name: string, address: string) => dropPin(backend, name, address),
+        listGuides: () => listGuides(backend),
+        addToGuide: (locationAddress: string, guideName: string) => addToGuide(backend, locationAddress, guideName),
+        createGuide: (guideName: string) => createGuide(backend, guideName),
+        getMapCenterCoordinates: () => getMapCenterCoordinates(backend), // Keep the (non-functional) getter for now
+        setMapCenterCoordinates: (latitude: number, longitude: number) =>
+            setMapCenterCoordinates(backend, latitude, longitude), // Add the new setter function
+        checkAccess: () => checkMapsAccess(backend),
+    };
+}
+
+const maps = createMaps(osascriptBackend);
 
 export default maps;
@@ -1,9 +1,11 @@
-import {runAppleScript} from 'run-applescript';
-import { promisify } from 'node:util';
-import { exec } from 'node:child_process';
-import { access } from 'node:fs/promises';
+import type { AutomationBackend } from '../src/types';
+import { osascriptBackend } from '../src/backends/osascriptBackend';
+import { InvalidInputError, PermissionDeniedError } from '../src/errors';
+import { createLogger } from '../src/logger';
 
-const execAsync = promisify(exec);
+const log = createLogger('utils/message');
+
+const CHAT_DB_PATH = `${process.env.HOME}/Library/Messages/chat.db`;
 
 // Retry configuration
 const MAX_RETRIES = 3;
@@ -18,7 +20,7 @@ async function retryOperation<T>(operation: () => Promise<T>, retries = MAX_RETR
         return await operation();
     } catch (error) {
         if (retries > 0) {
-            console.error(`Operation failed, retrying... (${retries} attempts remaining)`);
+            log.warning(`Operation failed, retrying... (${retries} attempts remaining)`);
             await sleep(delay);
             return retryOperation(operation, retries - 1, delay);
         }
@@ -59,9 +61,23 @@ function normalizePhoneNumber(phone: string): string[] {
     return Array.from(formats);
 }
 
-async function sendMessage(phoneNumber: string, message: string) {
+// Sending goes through Messages itself, which needs Automation permission rather than Full Disk Access
+async function checkMessagesAppAccess(backend: AutomationBackend): Promise<boolean> {
+    try {
+        return await backend.runJxa(() => {
+            const Messages = Application('Messages');
+            Messages.name(); // Just try to get the name to test access
+            return true;
+        }) as boolean;
+    } catch (error) {
+        log.warning(`Cannot access Messages app: ${error instanceof Error ? error.message : String(error)}`);
+        return false;
+    }
+}
+
+async function sendMessage(backend: AutomationBackend, phoneNumber: string, message: string) {
     const escapedMessage = message.replace(/"/g, '\\"');
-    const result = await runAppleScript(`
+    const result = await backend.runAppleScript(`
 tell application "Messages"
     set targetService to 1st service whose service type = iMessage
     set targetBuddy to buddy "${phoneNumber}"
@@ -79,36 +95,56 @@ interface Message {
     url?: string;
 }
 
-async function checkMessagesDBAccess(): Promise<boolean> {
+async function checkMessagesDBAccess(backend: AutomationBackend): Promise<boolean> {
     try {
-        const dbPath = `${process.env.HOME}/Library/Messages/chat.db`;
-        await access(dbPath);
-        
-        // Additional check - try to query the database
-        await execAsync(`sqlite3 "${dbPath}" "SELECT 1;"`);
+        // Try to query the database
+        await backend.querySqlite(CHAT_DB_PATH, "SELECT 1;");
         
         return true;
     } catch (error) {
-        console.error(`
-Error: Cannot access Messages database.
-To fix this, please grant Full Disk Access to Terminal/iTerm2:
-1. Open System Preferences
-2. Go to Security & Privacy > Privacy
-3. Select "Full Disk Access" from the left sidebar
-4. Click the lock icon to make changes
-5. Add Terminal.app or iTerm.app to the list
-6. Restart your terminal and try again
-
-Error details: ${error instanceof Error ? error.message : String(error)}
-`);
+        log.warning('Cannot access the Messages database; grant Full Disk Access to the app running this server', error);
         return false;
     }
 }
 
+// The text of an NSAttributedString archived as a typedstream, which is how chat.db stores
+// attributedBody: "NSString", its version and type markers, "+", the length, then UTF-8 bytes
+function readTypedStreamString(buffer: Buffer): string | undefined {
+    const className = buffer.indexOf('NSString');
+    if (className === -1) {
+        return undefined;
+    }
+    const plus = buffer.indexOf(0x2b, className + 'NSString'.length);
+    if (plus === -1 || plus > className + 16) {
+        return undefined;
+    }
+
+    // Lengths from 128 on are marked 0x81 (16-bit) or 0x82 (32-bit), little-endian
+    let start = plus + 2;
+    let length = buffer[plus + 1];
+    if (length === 0x81) {
+        length = buffer.readUInt16LE(plus + 2);
+        start = plus + 4;
+    } else if (length === 0x82) {
+        length = buffer.readUInt32LE(plus + 2);
+        start = plus + 6;
+    }
+    if (length === undefined || start + length > buffer.length) {
+        return undefined;
+    }
+    return buffer.subarray(start, start + length).toString('utf8');
+}
+
 function decodeAttributedBody(hexString: string): { text: string; url?: string } {
     try {
         // Convert hex to buffer
         const buffer = Buffer.from(hexString, 'hex');
+
+        const archived = readTypedStreamString(buffer);
+        if (archived) {
+            return { text: archived.trim(), url: archived.match(/(https?:\/\/[^\s]+)/)?.[1] };
+        }
+
         const content = buffer.toString();
         
         // Common patterns in attributedBody
@@ -181,12 +217,12 @@ function decodeAttributedBody(hexString: string): { text: string; url?: string }
         
         return { text: text || url || '', url };
     } catch (error) {
-        console.error('Error decoding attributedBody:', error);
+        log.warning('Error decoding attributedBody', error);
         return { text: '[Message content not readable]' };
     }
 }
 
-async function getAttachmentPaths(messageId: number): Promise<string[]> {
+async function getAttachmentPaths(backend: AutomationBackend, messageId: number): Promise<string[]> {
     try {
         const query = `
             SELECT filename
@@ -196,31 +232,25 @@ async function getAttachmentPaths(messageId: number): Promise<string[]> {
             WHERE message_attachment_join.message_id = ${messageId}
         `;
         
-        const { stdout } = await execAsync(`sqlite3 -json "${process.env.HOME}/Library/Messages/chat.db" "${query}"`);
-        
-        if (!stdout.trim()) {
-            return [];
-        }
-        
-        const attachments = JSON.parse(stdout) as { filename: string }[];
+        const attachments = await backend.querySqlite<{ filename: string }>(CHAT_DB_PATH, query);
         return attachments.map(a => a.filename).filter(Boolean);
     } catch (error) {
-        console.error('Error getting attachments:', error);
+        log.warning('Error getting attachments', error);
         return [];
     }
 }
 
-async function readMessages(phoneNumber: string, limit = 10): Promise<Message[]> {
+async function readMessages(backend: AutomationBackend, phoneNumber: string, limit = 10): Promise<Message[]> {
     try {
         // Check database access with retries
-        const hasAccess = await retryOperation(checkMessagesDBAccess);
+        const hasAccess = await retryOperation(() => checkMessagesDBAccess(backend));
         if (!hasAccess) {
-            return [];
+            throw new PermissionDeniedError("Cannot read the Messages database", { app: "Messages", permission: "fullDiskAccess" });
         }
 
         // Get all possible formats of the phone number
         const phoneFormats = normalizePhoneNumber(phoneNumber);
-        console.error("Trying phone formats:", phoneFormats);
+        log.debug("Trying phone formats", phoneFormats);
         
         // Create SQL IN clause with all phone number formats
         const phoneList = phoneFormats.map(p => `'${p.replace(/'/g, "''")}'`).join(',');
@@ -256,23 +286,21 @@ async function readMessages(phoneNumber: string, limit = 10): Promise<Message[]>
         `;
 
         // Execute query with retries
-        const { stdout } = await retryOperation(() => 
-            execAsync(`sqlite3 -json "${process.env.HOME}/Library/Messages/chat.db" "${query}"`)
+        const messages = await retryOperation(() => 
+            backend.querySqlite<Message & {
+                message_id: number;
+                is_audio_message: number;
+                cache_has_attachments: number;
+                subject: string | null;
+                content_type: number;
+            }>(CHAT_DB_PATH, query)
         );
         
-        if (!stdout.trim()) {
-            console.error("No messages found in database for the given phone number");
+        if (messages.length === 0) {
+            log.debug("No messages found in database for the given phone number");
             return [];
         }
 
-        const messages = JSON.parse(stdout) as (Message & {
-            message_id: number;
-            is_audio_message: number;
-            cache_has_attachments: number;
-            subject: string | null;
-            content_type: number;
-        })[];
-
         // Process messages with potential parallel attachment fetching
         const processedMessages = await Promise.all(
             messages
@@ -297,7 +325,7 @@ async function readMessages(phoneNumber: string, limit = 10): Promise<Message[]>
                     // Get attachments if any
                     let attachments: string[] = [];
                     if (msg.cache_has_attachments) {
-                        attachments = await getAttachmentPaths(msg.message_id);
+                        attachments = await getAttachmentPaths(backend, msg.message_id);
                     }
                     
                     // Add subject if present
@@ -331,21 +359,17 @@ async function readMessages(phoneNumber: string, limit = 10): Promise<Message[]>
 
         return processedMessages;
     } catch (error) {
-        console.error('Error reading messages:', error);
-        if (error instanceof Error) {
-            console.error('Error details:', error.message);
-            console.error('Stack trace:', error.stack);
-        }
-        return [];
+        log.error('Error reading messages', error);
+        throw error;
     }
 }
 
-async function getUnreadMessages(limit = 10): Promise<Message[]> {
+async function getUnreadMessages(backend: AutomationBackend, limit = 10): Promise<Message[]> {
     try {
         // Check database access with retries
-        const hasAccess = await retryOperation(checkMessagesDBAccess);
+        const hasAccess = await retryOperation(() => checkMessagesDBAccess(backend));
         if (!hasAccess) {
-            return [];
+            throw new PermissionDeniedError("Cannot read the Messages database", { app: "Messages", permission: "fullDiskAccess" });
         }
 
         const query = `
@@ -379,23 +403,21 @@ async function getUnreadMessages(limit = 10): Promise<Message[]> {
         `;
 
         // Execute query with retries
-        const { stdout } = await retryOperation(() => 
-            execAsync(`sqlite3 -json "${process.env.HOME}/Library/Messages/chat.db" "${query}"`)
+        const messages = await retryOperation(() => 
+            backend.querySqlite<Message & {
+                message_id: number;
+                is_audio_message: number;
+                cache_has_attachments: number;
+                subject: string | null;
+                content_type: number;
+            }>(CHAT_DB_PATH, query)
         );
         
-        if (!stdout.trim()) {
-            console.error("No unread messages found");
+        if (messages.length === 0) {
+            log.debug("No unread messages found");
             return [];
         }
 
-        const messages = JSON.parse(stdout) as (Message & {
-            message_id: number;
-            is_audio_message: number;
-            cache_has_attachments: number;
-            subject: string | null;
-            content_type: number;
-        })[];
-
         // Process messages with potential parallel attachment fetching
         const processedMessages = await Promise.all(
             messages
@@ -420,7 +442,7 @@ async function getUnreadMessages(limit = 10): Promise<Message[]> {
                     // Get attachments if any
                     let attachments: string[] = [];
                     if (msg.cache_has_attachments) {
-                        attachments = await getAttachmentPaths(msg.message_id);
+                        attachments = await getAttachmentPaths(backend, msg.message_id);
                     }
                     
                     // Add subject if present
@@ -454,16 +476,12 @@ async function getUnreadMessages(limit = 10): Promise<Message[]> {
 
         return processedMessages;
     } catch (error) {
-        console.error('Error reading unread messages:', error);
-        if (error instanceof Error) {
-            console.error('Error details:', error.message);
-            console.error('Stack trace:', error.stack);
-        }
-        return [];
+        log.error('Error reading unread messages', error);
+        throw error;
     }
 }
 
-async function scheduleMessage(phoneNumber: string, message: string, scheduledTime: Date) {
+async function scheduleMessage(backend: AutomationBackend, phoneNumber: string, message: string, scheduledTime: Date) {
     // Store the scheduled message details
     const scheduledMessages = new Map();
     
@@ -471,16 +489,16 @@ async function scheduleMessage(phoneNumber: string, message: string, scheduledTi
     const delay = scheduledTime.getTime() - Date.now();
     
     if (delay < 0) {
-        throw new Error('Cannot schedule message in the past');
+        throw new InvalidInputError('Cannot schedule message in the past');
     }
     
     // Schedule the message
     const timeoutId = setTimeout(async () => {
         try {
-            await sendMessage(phoneNumber, message);
+            await sendMessage(backend, phoneNumber, message);
             scheduledMessages.delete(timeoutId);
         } catch (error) {
-            console.error('Failed to send scheduled message:', error);
+            log.error('Failed to send scheduled message', error);
         }
     }, delay);
     
@@ -500,4 +518,17 @@ async function scheduleMessage(phoneNumber: string, message: string, scheduledTi
     };
 }
 
-export default { sendMessage, readMessages, scheduleMessage, getUnreadMessages };
+// Bind the messages functions to an automation backend
+export function createMessages(backend: AutomationBackend) {
+    return {
+        sendMessage: (phoneNumber: string, message: string) => sendMessage(backend, phoneNumber, message),
+        readMessages: (phoneNumber: string, limit?: number) => readMessages(backend, phoneNumber, limit),
+        scheduleMessage: (phoneNumber: string, message: string, scheduledTime: Date) =>
+            scheduleMessage(backend, phoneNumber, message, scheduledTime),
+        getUnreadMessages: (limit?: number) => getUnreadMessages(backend, limit),
+        checkAppAccess: () => checkMessagesAppAccess(backend),
+        checkDatabaseAccess: () => checkMessagesDBAccess(backend),
+    };
+}
+
+export default createMessages(osascriptBackend);
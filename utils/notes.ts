@@ -1,4 +1,8 @@
-import { run } from '@jxa/run';
+import type { AutomationBackend, SearchProgressCallback } from '../src/types';
+import { osascriptBackend } from '../src/backends/osascriptBackend';
+import { createLogger } from '../src/logger';
+
+const log = createLogger('utils/notes');
 
 type Note = {
     id: string; // Add ID for potential future use
@@ -20,8 +24,21 @@ type CreateFolderResult = {
     message?: string;
 };
   
-async function getAllNotes(folderName?: string): Promise<Note[]> {
-    const notes: Note[] = await run((folderName: string | undefined) => {
+async function checkNotesAccess(backend: AutomationBackend): Promise<boolean> {
+    try {
+        return await backend.runJxa(() => {
+            const Notes = Application('Notes');
+            Notes.name(); // Just try to get the name to test access
+            return true;
+        }) as boolean;
+    } catch (error) {
+        log.warning(`Cannot access Notes app: ${error instanceof Error ? error.message : String(error)}`);
+        return false;
+    }
+}
+
+async function getAllNotes(backend: AutomationBackend, folderName?: string): Promise<Note[]> {
+    const notes: Note[] = await backend.runJxa((folderName: string | undefined) => {
         const Notes = Application('Notes');
         let allNotes = Notes.notes();
         let notesInFolder = [];
@@ -68,81 +85,82 @@ async function getAllNotes(folderName?: string): Promise<Note[]> {
     return notes || []; // Ensure array return
 }
 
-async function findNote(searchText: string, folderName?: string): Promise<Note[]> {
-    const notes: Note[] = await run((searchText: string, folderName: string | undefined) => {
+// Notes in one folder whose name or text contains searchText
+async function searchFolder(backend: AutomationBackend, folder: FolderDetails, searchText: string): Promise<Note[]> {
+    const notes: Note[] = await backend.runJxa((folderId: string, folderName: string, searchText: string) => {
         const Notes = Application('Notes');
-        let allNotes = Notes.notes();
-        let notesInScope = [];
+        const needle = searchText.toLowerCase();
+        const matches = [];
 
-        if (folderName) {
-            // Filter all notes by folder name first
-            // biome-ignore lint/suspicious/noExplicitAny: <explanation>
-            const notesInFolder = allNotes.filter((note: any) => {
-                try {
-                    // Check container exists and has a name property before accessing
-                    return note.container && typeof note.container.name === 'function' && note.container.name() === folderName;
-                 } catch (e) {
-                     // Ignore errors during filtering (e.g., note deleted while iterating)
-                     // console.error(`Error checking container for note ${note.name()}: ${e}`); // Removed console.error
-                     return false;
-                 }
-            });
-            // Now filter by search text
-            // biome-ignore lint/suspicious/noExplicitAny: <explanation>
-            notesInScope = notesInFolder.filter((note: any) => {
-                 try {
-                    const nameMatch = note.name && typeof note.name === 'function' && note.name().toLowerCase().includes(searchText.toLowerCase());
-                    const contentMatch = note.plaintext && typeof note.plaintext === 'function' && note.plaintext().toLowerCase().includes(searchText.toLowerCase());
-                    return nameMatch || contentMatch;
-                  } catch(e) {
-                     // console.error(`Error checking content for note ${note.name()}: ${e}`); // Removed console.error
-                     return false;
-                  }
-            });
-
-        } else {
-            // Filter all notes directly by search text if no folder specified
-            // biome-ignore lint/suspicious/noExplicitAny: <explanation>
-            notesInScope = allNotes.filter((note: any) => {
-                 try {
-                    const nameMatch = note.name && typeof note.name === 'function' && note.name().toLowerCase().includes(searchText.toLowerCase());
-                    const contentMatch = note.plaintext && typeof note.plaintext === 'function' && note.plaintext().toLowerCase().includes(searchText.toLowerCase());
-                    return nameMatch || contentMatch;
-                  } catch(e) {
-                     // console.error(`Error checking content for note ${note.name()}: ${e}`); // Removed console.error
-                     return false;
-                  }
-            });
-        }
-        
-        // Map the final filtered notes
-        // biome-ignore lint/suspicious/noExplicitAny: <explanation>
-        return notesInScope.map((note: any) => {
-             let noteData = {
-                id: 'unknown',
-                name: 'unknown',
-                content: '',
-                folderName: 'Notes' // Default to 'Notes'
-            };
-            try { noteData.id = note.id(); } catch(e) {/* ignore */}
-            try { noteData.name = note.name(); } catch(e) {/* ignore */}
-            try { noteData.content = note.plaintext(); } catch(e) {/* ignore */}
+        for (const note of Notes.folders.byId(folderId).notes()) {
             try {
-                 // Check if container exists and is specifically a folder
-                 if (note.container && note.container.class() === 'folder') {
-                    noteData.folderName = note.container.name();
-                 }
-                 // Otherwise, keep the default 'Notes'
+                const name = note.name();
+                const content = note.plaintext();
+                if (name.toLowerCase().includes(needle) || content.toLowerCase().includes(needle)) {
+                    matches.push({ id: note.id(), name, content, folderName });
+                }
             } catch(e) {/* ignore */}
-            return noteData;
-        });
+        }
+        return matches;
+    }, folder.id, folder.name, searchText);
+
+    return notes || [];
+}
+
+// searchFolder over every folder, or only `folderName`, in one script: the folders listFolders
+// returns, in its order, matched the same way
+async function searchAllFolders(backend: AutomationBackend, searchText: string, folderName?: string): Promise<Note[]> {
+    const notes: Note[] = await backend.runJxa((searchText: string, folderName: string | undefined) => {
+        const Notes = Application('Notes');
+        const needle = searchText.toLowerCase();
+        const matches = [];
+
+        for (const folder of Notes.folders()) {
+            const name = folder.name();
+            if (folderName && name !== folderName) {
+                continue;
+            }
+            for (const note of folder.notes()) {
+                try {
+                    const noteName = note.name();
+                    const content = note.plaintext();
+                    if (noteName.toLowerCase().includes(needle) || content.toLowerCase().includes(needle)) {
+                        matches.push({ id: note.id(), name: noteName, content, folderName: name });
+                    }
+                } catch(e) {/* ignore */}
+            }
+        }
+        return matches;
     }, searchText, folderName);
 
-    // Keep simple fallback for now: if no exact match in scope, don't search wider
-    // Consider enhancing fallback later if needed.
     return notes || [];
 }
 
+// Notes in every folder, or only in `folderName`, whose name or text contains searchText.
+// With onProgress, folders are searched one script at a time so each folder's matches can be
+// reported as soon as it's searched; without, one script searches them all.
+async function findNote(
+    backend: AutomationBackend,
+    searchText: string,
+    folderName: string | undefined,
+    onProgress: SearchProgressCallback<Note> | undefined,
+    // The module's listFolders, possibly served from the cache
+    foldersOf: () => Promise<FolderDetails[]>
+): Promise<Note[]> {
+    if (!onProgress) {
+        return await searchAllFolders(backend, searchText, folderName);
+    }
+
+    const folders = (await foldersOf()).filter(folder => !folderName || folder.name === folderName);
+    const results: Note[] = [];
+    for (let i = 0; i < folders.length; i++) {
+        const found = await searchFolder(backend, folders[i], searchText);
+        results.push(...found);
+        await onProgress({ completed: i + 1, total: folders.length, container: folders[i].name, found });
+    }
+    return results;
+}
+
 // Define a type for the folder details
 type FolderDetails = {
     id: string;
@@ -150,10 +168,10 @@ type FolderDetails = {
     containerName: string;
 };
 
-async function listFolders(): Promise<FolderDetails[]> {
+async function listFolders(backend: AutomationBackend): Promise<FolderDetails[]> {
     // Return more details instead of just names
     // biome-ignore lint/suspicious/noExplicitAny: <explanation>
-    const folderDetails: FolderDetails[] = await run(() => {
+    const folderDetails: FolderDetails[] = await backend.runJxa(() => {
         const Notes = Application('Notes');
         // biome-ignore lint/suspicious/noExplicitAny: <explanation>
         return Notes.folders().map((folder: any) => {
@@ -175,7 +193,13 @@ async function listFolders(): Promise<FolderDetails[]> {
 }
 
 
-async function createNote(title: string, body: string, folderName: string = 'Claude'): Promise<CreateNoteResult> {
+async function createNote(
+    backend: AutomationBackend,
+    title: string,
+    body: string,
+    folderName?: string,
+    defaultFolder: string = 'Claude'
+): Promise<CreateNoteResult> {
     try {
         // Format the body with proper markdown
         const formattedBody = body
@@ -184,7 +208,7 @@ async function createNote(title: string, body: string, folderName: string = 'Cla
             .replace(/\n{3,}/g, '\n\n') // Remove excess newlines
             .trim();
 
-        const result = await run((title: string, body: string, folderName: string) => {
+        const result = await backend.runJxa((title: string, body: string, folderName: string, defaultFolder: string) => {
             const Notes = Application('Notes');
             
             // Create the note
@@ -204,15 +228,15 @@ async function createNote(title: string, body: string, folderName: string = 'Cla
                 
                 // If the specified folder doesn't exist
                 if (!targetFolder) {
-                    if (folderName === 'Claude') {
-                        // Try to create the Claude folder if it doesn't exist
-                        Notes.make({new: 'folder', withProperties: {name: 'Claude'}});
+                    if (folderName === defaultFolder) {
+                        // Try to create the default folder if it doesn't exist
+                        Notes.make({new: 'folder', withProperties: {name: defaultFolder}});
                         usedDefaultFolder = true;
                         
                         // Find it again after creation
                         const updatedFolders = Notes.folders();
                         for (let i = 0; i < updatedFolders.length; i++) {
-                            if (updatedFolders[i].name() === 'Claude') {
+                            if (updatedFolders[i].name() === defaultFolder) {
                                 targetFolder = updatedFolders[i];
                                 break;
                             }
@@ -249,7 +273,7 @@ async function createNote(title: string, body: string, folderName: string = 'Cla
                 const errorMessage = scriptError instanceof Error ? scriptError.message : String(scriptError);
                 throw new Error(`AppleScript error: ${errorMessage}`);
             }
-        }, title, formattedBody, folderName);
+        }, title, formattedBody, folderName ?? defaultFolder, defaultFolder);
         
         return result as CreateNoteResult; // Assert type here as run() returns unknown
     } catch (error) {
@@ -261,9 +285,9 @@ async function createNote(title: string, body: string, folderName: string = 'Cla
     }
 }
 
-async function createFolder(folderName: string): Promise<CreateFolderResult> {
+async function createFolder(backend: AutomationBackend, folderName: string): Promise<CreateFolderResult> {
     try {
-        const result = await run((name: string) => {
+        const result = await backend.runJxa((name: string) => {
             const Notes = Application('Notes');
             try {
                 // Check if folder already exists
@@ -306,4 +330,28 @@ async function createFolder(folderName: string): Promise<CreateFolderResult> {
     }
 }
 
-export default { getAllNotes, findNote, createNote, listFolders, createFolder };
+export interface NotesOptions {
+    // Folder new notes go to when none is given; created on first use
+    defaultFolder: string;
+}
+
+const DEFAULT_OPTIONS: NotesOptions = {
+    defaultFolder: 'Claude'
+};
+
+// Bind the notes functions to an automation backend. Searches list folders through the returned
+// object, so they're served from the cache once withCache has wrapped listFolders.
+export function createNotes(backend: AutomationBackend, options: NotesOptions = DEFAULT_OPTIONS) {
+    const notes = {
+        getAllNotes: (folderName?: string) => getAllNotes(backend, folderName),
+        findNote: (searchText: string, folderName?: string, onProgress?: SearchProgressCallback<Note>) =>
+            findNote(backend, searchText, folderName, onProgress, () => notes.listFolders()),
+        createNote: (title: string, body: string, folderName?: string) => createNote(backend, title, body, folderName, options.defaultFolder),
+        listFolders: () => listFolders(backend),
+        createFolder: (folderName: string) => createFolder(backend, folderName),
+        checkAccess: () => checkNotesAccess(backend),
+    };
+    return notes;
+}
+
+export default createNotes(osascriptBackend);
@@ -1,4 +1,9 @@
-import { run } from "@jxa/run";
+import type { AutomationBackend, SearchProgressCallback } from "../src/types";
+import { osascriptBackend } from "../src/backends/osascriptBackend";
+import { InvalidInputError } from "../src/errors";
+import { createLogger } from "../src/logger";
+
+const log = createLogger("utils/reminders");
 
 // Define types for our reminders
 interface ReminderList {
@@ -20,12 +25,29 @@ interface Reminder {
   priority?: number;
 }
 
+/**
+ * Check if the Reminders app is accessible
+ * @returns true if Reminders answered, false otherwise
+ */
+async function checkRemindersAccess(backend: AutomationBackend): Promise<boolean> {
+  try {
+    return await backend.runJxa(() => {
+      const Reminders = Application("Reminders");
+      Reminders.name(); // Just try to get the name to test access
+      return true;
+    }) as boolean;
+  } catch (error) {
+    log.warning(`Cannot access Reminders app: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
 /**
  * Get all reminder lists
  * @returns Array of reminder lists with their names and IDs
  */
-async function getAllLists(): Promise<ReminderList[]> {
-  const lists = await run(() => {
+async function getAllLists(backend: AutomationBackend): Promise<ReminderList[]> {
+  const lists = await backend.runJxa(() => {
     const Reminders = Application("Reminders");
     const lists = Reminders.lists();
 
@@ -45,10 +67,11 @@ async function getAllLists(): Promise<ReminderList[]> {
  * @returns Array of reminders with specified properties
  */
 async function getRemindersFromListById(
+  backend: AutomationBackend,
   listId: string,
   props?: string[]
 ): Promise<any[]> {
-  return await run(
+  return await backend.runJxa(
     (args: { id: string; props?: string[] }) => {
       function main() {
         const reminders = Application("Reminders");
@@ -103,8 +126,8 @@ async function getRemindersFromListById(
  * @param listName Optional list name to filter by
  * @returns Array of reminders
  */
-async function getAllReminders(listName?: string): Promise<Reminder[]> {
-  const reminders = await run((listName: string | undefined) => {
+async function getAllReminders(backend: AutomationBackend, listName?: string): Promise<Reminder[]> {
+  const reminders = await backend.runJxa((listName: string | undefined) => {
     const Reminders = Application("Reminders");
     let allReminders: Reminder[] = [];
 
@@ -145,18 +168,46 @@ async function getAllReminders(listName?: string): Promise<Reminder[]> {
 }
 
 /**
- * Search for reminders by text
+ * Search one reminder list by text
+ * @param list List to search
  * @param searchText Text to search for in reminder names or notes
  * @returns Array of matching reminders
  */
-async function searchReminders(searchText: string): Promise<Reminder[]> {
-  const reminders = await run((searchText: string) => {
+async function searchList(backend: AutomationBackend, list: ReminderList, searchText: string): Promise<Reminder[]> {
+  const reminders = await backend.runJxa((listId: string, listName: string, searchText: string) => {
     const Reminders = Application("Reminders");
-    const lists = Reminders.lists();
-    let matchingReminders: Reminder[] = [];
+    const remindersInList = Reminders.lists.byId(listId).reminders.whose({
+      _or: [
+        { name: { _contains: searchText } },
+        { body: { _contains: searchText } },
+      ],
+    })();
+
+    return remindersInList.map((reminder: any) => ({
+      name: reminder.name(),
+      id: reminder.id(),
+      body: reminder.body() || "",
+      completed: reminder.completed(),
+      dueDate: reminder.dueDate() ? reminder.dueDate().toISOString() : null,
+      listName,
+    }));
+  }, list.id, list.name, searchText);
 
-    for (const list of lists) {
-      // Search in reminder names and bodies
+  return reminders as Reminder[];
+}
+
+/**
+ * Search every list by text in one script, the way searchList searches one
+ * @param searchText Text to search for in reminder names or notes
+ * @returns Array of matching reminders, in list order
+ */
+async function searchAllLists(backend: AutomationBackend, searchText: string): Promise<Reminder[]> {
+  const reminders = await backend.runJxa((searchText: string) => {
+    const Reminders = Application("Reminders");
+    let matchingReminders: any[] = [];
+
+    for (const list of Reminders.lists()) {
+      const listName = list.name();
       const remindersInList = list.reminders.whose({
         _or: [
           { name: { _contains: searchText } },
@@ -164,17 +215,14 @@ async function searchReminders(searchText: string): Promise<Reminder[]> {
         ],
       })();
 
-      if (remindersInList.length > 0) {
-        const mappedReminders = remindersInList.map((reminder: any) => ({
-          name: reminder.name(),
-          id: reminder.id(),
-          body: reminder.body() || "",
-          completed: reminder.completed(),
-          dueDate: reminder.dueDate() ? reminder.dueDate().toISOString() : null,
-          listName: list.name(),
-        }));
-        matchingReminders = matchingReminders.concat(mappedReminders);
-      }
+      matchingReminders = matchingReminders.concat(remindersInList.map((reminder: any) => ({
+        name: reminder.name(),
+        id: reminder.id(),
+        body: reminder.body() || "",
+        completed: reminder.completed(),
+        dueDate: reminder.dueDate() ? reminder.dueDate().toISOString() : null,
+        listName,
+      })));
     }
 
     return matchingReminders;
@@ -183,6 +231,34 @@ async function searchReminders(searchText: string): Promise<Reminder[]> {
   return reminders as Reminder[];
 }
 
+/**
+ * Search for reminders by text
+ * @param searchText Text to search for in reminder names or notes
+ * @param onProgress Optional callback told each list's matches as soon as it's searched; lists are then
+ * searched one script at a time instead of all in one
+ * @returns Array of matching reminders
+ */
+async function searchReminders(
+  backend: AutomationBackend,
+  searchText: string,
+  onProgress: SearchProgressCallback<Reminder> | undefined,
+  // The module's getAllLists, possibly served from the cache
+  listsOf: () => Promise<ReminderList[]>
+): Promise<Reminder[]> {
+  if (!onProgress) {
+    return await searchAllLists(backend, searchText);
+  }
+
+  const lists = await listsOf();
+  let matchingReminders: Reminder[] = [];
+  for (let i = 0; i < lists.length; i++) {
+    const found = await searchList(backend, lists[i], searchText);
+    matchingReminders = matchingReminders.concat(found);
+    await onProgress({ completed: i + 1, total: lists.length, container: lists[i].name, found });
+  }
+  return matchingReminders;
+}
+
 /**
  * Create a new reminder
  * @param name Name of the reminder
@@ -192,6 +268,7 @@ async function searchReminders(searchText: string): Promise<Reminder[]> {
  * @returns The created reminder
  */
 async function createReminder(
+  backend: AutomationBackend,
   name: string,
   listName: string = "Reminders",
   notes?: string,
@@ -220,14 +297,14 @@ async function createReminder(
       
       dueDateForJXA = `${year}-${month}-${day} ${hours}:${minutes}:${seconds}`;
     } catch (e) {
-      throw new Error(
+      throw new InvalidInputError(
         `Invalid due date format: ${dueDateString}. ` +
         `Please use ISO 8601 format (e.g., YYYY-MM-DDTHH:MM:SS.sssZ or YYYY-MM-DD).`
       );
     }
   }
 
-  const result = await run(
+  const result = await backend.runJxa(
     (
       name: string,
       listName: string,
@@ -306,9 +383,13 @@ interface OpenReminderResult {
  * @param searchText Text to search for in reminder names or notes
  * @returns Result of the operation
  */
-async function openReminder(searchText: string): Promise<OpenReminderResult> {
+async function openReminder(
+  backend: AutomationBackend,
+  searchText: string,
+  listsOf: () => Promise<ReminderList[]>
+): Promise<OpenReminderResult> {
   // First search for the reminder
-  const matchingReminders = await searchReminders(searchText);
+  const matchingReminders = await searchReminders(backend, searchText, undefined, listsOf);
 
   if (matchingReminders.length === 0) {
     return { success: false, message: "No matching reminders found" };
@@ -317,7 +398,7 @@ async function openReminder(searchText: string): Promise<OpenReminderResult> {
   // Open the first matching reminder
   const reminder = matchingReminders[0];
 
-  await run((reminderId: string) => {
+  await backend.runJxa((reminderId: string) => {
     const Reminders = Application("Reminders");
     Reminders.activate();
 
@@ -335,11 +416,31 @@ async function openReminder(searchText: string): Promise<OpenReminderResult> {
   };
 }
 
-export default {
-  getAllLists,
-  getAllReminders,
-  searchReminders,
-  createReminder,
-  openReminder,
-  getRemindersFromListById,
+export interface RemindersOptions {
+  // List new reminders go to when none is given; created on first use
+  defaultList: string;
+}
+
+const DEFAULT_OPTIONS: RemindersOptions = {
+  defaultList: "Reminders",
 };
+
+// Bind the reminders functions to an automation backend. Searches get the lists through the
+// returned object, so they're served from the cache once withCache has wrapped getAllLists.
+export function createReminders(backend: AutomationBackend, options: RemindersOptions = DEFAULT_OPTIONS) {
+  const reminders = {
+    getAllLists: () => getAllLists(backend),
+    getAllReminders: (listName?: string) => getAllReminders(backend, listName),
+    searchReminders: (searchText: string, onProgress?: SearchProgressCallback<Reminder>) =>
+      searchReminders(backend, searchText, onProgress, () => reminders.getAllLists()),
+    createReminder: (name: string, listName?: string, notes?: string, dueDateString?: string) =>
+      createReminder(backend, name, listName ?? options.defaultList, notes, dueDateString),
+    openReminder: (searchText: string) => openReminder(backend, searchText, () => reminders.getAllLists()),
+    getRemindersFromListById: (listId: string, props?: string[]) =>
+      getRemindersFromListById(backend, listId, props),
+    checkAccess: () => checkRemindersAccess(backend),
+  };
+  return reminders;
+}
+
+export default createReminders(osascriptBackend);
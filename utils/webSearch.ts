@@ -1,3 +1,7 @@
+import { createLogger } from "../src/logger";
+
+const log = createLogger("utils/webSearch");
+
 interface SearchResult {
   title: string;
   url: string;
@@ -22,6 +26,20 @@ interface ContentResponse {
   error?: string;
 }
 
+// Limits, overridable from the config file
+export interface WebSearchOptions {
+  // Number of search results whose pages are fetched
+  maxResults: number;
+  searchTimeoutMs: number;
+  contentTimeoutMs: number;
+}
+
+const DEFAULT_OPTIONS: WebSearchOptions = {
+  maxResults: 5,
+  searchTimeoutMs: 10000,
+  contentTimeoutMs: 15000,
+};
+
 interface RequestOptions {
   method?: string;
   headers?: Record<string, string>;
@@ -140,7 +158,7 @@ function extractDDGResults(html: string): SearchResult[] {
         });
       }
     } catch (error) {
-      console.error("Error parsing result block:", error);
+      log.warning("Error parsing result block", error);
       // Continue with next block even if one fails
     }
   }
@@ -151,13 +169,16 @@ function extractDDGResults(html: string): SearchResult[] {
 /**
  * Searches DuckDuckGo and returns results with improved error handling
  */
-async function searchDuckDuckGo(query: string): Promise<SearchResponse> {
+async function searchDuckDuckGo(
+  query: string,
+  timeout = DEFAULT_OPTIONS.searchTimeoutMs,
+): Promise<SearchResponse> {
   try {
     const encodedQuery = encodeURIComponent(query);
     const searchUrl = `https://html.duckduckgo.com/html/?q=${encodedQuery}`;
 
     const html = await makeRequest(searchUrl, { 
-      timeout: 10000,
+      timeout,
       retries: 2
     });
     const results = extractDDGResults(html);
@@ -185,7 +206,7 @@ async function searchDuckDuckGo(query: string): Promise<SearchResponse> {
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error("DuckDuckGo search failed:", errorMessage);
+    log.error("DuckDuckGo search failed", errorMessage);
     return {
       query,
       error: errorMessage,
@@ -221,7 +242,7 @@ function extractDDGResultsAlternative(html: string): SearchResult[] {
       }
     }
   } catch (error) {
-    console.error("Alternative extraction failed:", error);
+    log.warning("Alternative extraction failed", error);
   }
   
   return results;
@@ -282,7 +303,7 @@ function extractMainContent(content: string): string {
 
     return textContent;
   } catch (error) {
-    console.error("Error extracting main content:", error);
+    log.warning("Error extracting main content", error);
     return "Failed to extract content";
   }
 }
@@ -292,11 +313,11 @@ function extractMainContent(content: string): string {
  */
 async function fetchPageContent(
   url: string,
+  timeout = DEFAULT_OPTIONS.contentTimeoutMs,
 ): Promise<{ url: string; content: string | null; error?: string }> {
   try {
-    // Set a shorter timeout for content requests
     const html = await makeRequest(url, { 
-      timeout: 15000,
+      timeout,
       retries: 1,
       headers: {
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
@@ -324,7 +345,7 @@ async function fetchPageContent(
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(`Error fetching content from ${url}:`, errorMessage);
+    log.warning(`Error fetching content from ${url}`, errorMessage);
     return {
       url,
       error: errorMessage,
@@ -337,10 +358,13 @@ async function fetchPageContent(
  * Complete web search function that fetches search results and their content
  * with better parallel processing and error handling
  */
-export async function webSearch(query: string): Promise<ContentResponse> {
+export async function webSearch(
+  query: string,
+  options: WebSearchOptions = DEFAULT_OPTIONS,
+): Promise<ContentResponse> {
   try {
     // Step 1: Get search results from DuckDuckGo
-    const searchResults = await searchDuckDuckGo(query);
+    const searchResults = await searchDuckDuckGo(query, options.searchTimeoutMs);
 
     if (searchResults.error || searchResults.results.length === 0) {
       return {
@@ -350,12 +374,12 @@ export async function webSearch(query: string): Promise<ContentResponse> {
       };
     }
 
-    // Step 2: Fetch content for each result (limit to 5 results to improve performance)
-    const resultsToProcess = searchResults.results.slice(0, 5);
+    // Step 2: Fetch content for each result (limited to keep the search fast)
+    const resultsToProcess = searchResults.results.slice(0, options.maxResults);
     
     // Use Promise.allSettled to ensure all requests complete, even if some fail
     const settledPromises = await Promise.allSettled(
-      resultsToProcess.map(result => fetchPageContent(result.url))
+      resultsToProcess.map(result => fetchPageContent(result.url, options.contentTimeoutMs))
     );
 
     // Process results
@@ -384,7 +408,7 @@ export async function webSearch(query: string): Promise<ContentResponse> {
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error("Web search failed:", errorMessage);
+    log.error("Web search failed", errorMessage);
     return {
       query,
       error: errorMessage,
@@ -393,8 +417,13 @@ export async function webSearch(query: string): Promise<ContentResponse> {
   }
 }
 
-export default {
-  webSearch,
-  searchDuckDuckGo,
-  fetchPageContent,
-};
\ No newline at end of file
+// Bind the web search functions to a set of limits
+export function createWebSearch(options: WebSearchOptions = DEFAULT_OPTIONS) {
+  return {
+    webSearch: (query: string) => webSearch(query, options),
+    searchDuckDuckGo: (query: string) => searchDuckDuckGo(query, options.searchTimeoutMs),
+    fetchPageContent: (url: string) => fetchPageContent(url, options.contentTimeoutMs),
+  };
+}
+
+export default createWebSearch();
\ No newline at end of file